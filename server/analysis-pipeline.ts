@@ -0,0 +1,278 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { extractDocument, DocumentError, type DocumentErrorCode } from "./document-parser";
+import { analyzeResume, type ResumeAnalysisResult, type PartialFeedback } from "./analyzer";
+import {
+  classifyDocument,
+  isResumeType,
+  DOCUMENT_TYPE_LABELS,
+  MIN_REJECTION_CONFIDENCE,
+  MIN_CLASSIFIABLE_LENGTH,
+  type DocumentClassification,
+} from "./document-classifier";
+import { scoreResume } from "./ats-scorer";
+import { applyLayoutWarnings } from "./pdf-layout";
+import { detectPromptInjection, applyInjectionPenalty } from "./prompt-injection";
+import type { LLMProvider } from "./llm";
+import type { DocumentType, PdfLayout, RecordOwner, ResumeAnalysis } from "./schema";
+
+// The resume analysis flow shared by the JSON and streaming routes: extract the
+// text, reuse a stored result for re-uploads, check the document is a resume,
+// analyze it and persist the result, reporting each stage as it goes.
+
+export const STORAGE_UNAVAILABLE_MESSAGE = "Analysis history is temporarily unavailable because the database could not be reached. Please try again later.";
+
+// Stable identifiers sent with error responses, for clients to branch on instead of the message
+export type AnalysisErrorCode =
+  | DocumentErrorCode
+  | "NO_FILE"
+  | "FILE_TOO_LARGE"
+  | "EXTRACTION_FAILED"
+  | "JOB_DESCRIPTION_UNREADABLE"
+  | "PROVIDER_NOT_ALLOWED"
+  | "UNKNOWN_PROVIDER"
+  | "STORAGE_UNAVAILABLE"
+  | "NOT_A_RESUME";
+
+// Error carrying the HTTP status the route should respond with
+export class AnalysisError extends Error {
+  constructor(message: string, readonly status: number, readonly code?: AnalysisErrorCode) {
+    super(message);
+    this.name = "AnalysisError";
+  }
+
+  // JSON body of the error response
+  toResponse(): { message: string; code?: AnalysisErrorCode } & Record<string, unknown> {
+    return { message: this.message, code: this.code };
+  }
+}
+
+// Where to send each kind of document that is not a resume
+const REJECTION_MESSAGES: Record<Exclude<DocumentType, "resume" | "cv">, string> = {
+  cover_letter: "This looks like a cover letter, not a resume. Score it on the Cover Letters page instead.",
+  job_description: "This looks like a job description, not a resume. Add it as the job description and upload your resume to compare them.",
+  transcript: "This looks like an academic transcript, not a resume. Please upload your resume or CV instead.",
+  other: "This document does not appear to be a resume. Please upload a valid resume (CV) for analysis.",
+};
+
+// The upload was classified as something other than a resume; the response says what it looks like
+export class DocumentTypeError extends AnalysisError {
+  constructor(readonly classification: DocumentClassification) {
+    super(REJECTION_MESSAGES[classification.type as keyof typeof REJECTION_MESSAGES], 422, "NOT_A_RESUME");
+    this.name = "DocumentTypeError";
+  }
+
+  toResponse() {
+    return { ...super.toResponse(), documentType: this.classification.type, confidence: this.classification.confidence };
+  }
+}
+
+export type AnalysisStage = "upload" | "extract" | "resume_check" | "analysis" | "validation";
+
+export interface StageEvent {
+  stage: AnalysisStage;
+  status: "started" | "completed" | "skipped";
+  detail?: string;
+}
+
+export interface AnalysisProgress {
+  onStage?: (event: StageEvent) => void;
+  onPartial?: (partial: PartialFeedback) => void;
+}
+
+export interface ResumeUpload {
+  buffer: Buffer;
+  mimetype: string;
+  originalname: string;
+  size: number;
+}
+
+export interface AnalysisRequest {
+  file: ResumeUpload;
+  jobDescription?: string;
+  provider: LLMProvider;
+  // Signed-in user or anonymous session the analysis is stored under
+  owner: RecordOwner;
+}
+
+// Columns that record who a stored analysis, document, job or batch belongs to
+export interface OwnedRecord {
+  userId: number | null;
+  sessionKey: string | null;
+}
+
+export function ownerColumns(owner: RecordOwner): OwnedRecord {
+  return "userId" in owner ? { userId: owner.userId, sessionKey: null } : { userId: null, sessionKey: owner.sessionKey };
+}
+
+// Null for records stored before anonymous uploads were tied to a session, which nobody can reach
+export function recordOwner(record: OwnedRecord): RecordOwner | null {
+  if (record.userId !== null) return { userId: record.userId };
+  return record.sessionKey !== null ? { sessionKey: record.sessionKey } : null;
+}
+
+// Records are only reachable by the signed-in user or the anonymous session that created them
+export function canAccess(record: OwnedRecord, owner: RecordOwner | null): boolean {
+  if (owner === null) return false;
+  return "userId" in owner
+    ? record.userId === owner.userId
+    : record.userId === null && record.sessionKey === owner.sessionKey;
+}
+
+export function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+// Turn away uploads that are confidently something other than a resume
+async function checkDocumentType(text: string, provider: LLMProvider, stage: (event: StageEvent) => void): Promise<void> {
+  stage({ stage: "resume_check", status: "started" });
+  const classification = await classifyDocument(text, provider);
+  console.log("Document classification:", classification);
+  const percent = `${Math.round(classification.confidence * 100)}% confident`;
+  if (isResumeType(classification.type)) {
+    stage({ stage: "resume_check", status: "completed", detail: `Looks like ${DOCUMENT_TYPE_LABELS[classification.type]} (${percent})` });
+  } else if (classification.confidence >= MIN_REJECTION_CONFIDENCE) {
+    stage({ stage: "resume_check", status: "completed", detail: `Looks like ${DOCUMENT_TYPE_LABELS[classification.type]} (${percent})` });
+    throw new DocumentTypeError(classification);
+  } else {
+    // Too unsure to turn the upload away
+    stage({ stage: "resume_check", status: "completed", detail: `Possibly ${DOCUMENT_TYPE_LABELS[classification.type]} (${percent}), analyzing it as a resume` });
+  }
+}
+
+export async function runResumeAnalysis(
+  { file, jobDescription, provider, owner }: AnalysisRequest,
+  progress: AnalysisProgress = {}
+): Promise<ResumeAnalysis> {
+  const stage = (event: StageEvent) => progress.onStage?.(event);
+  stage({ stage: "upload", status: "completed", detail: `${file.originalname} (${Math.ceil(file.size / 1024)} KB)` });
+
+  // Only now extract text from the document
+  stage({ stage: "extract", status: "started" });
+  let text: string;
+  let layout: PdfLayout | null;
+  try {
+    ({ text, layout } = await extractDocument(file.buffer, file.mimetype, file.originalname));
+    console.log("Text extracted successfully, length:", text.length);
+  } catch (extractError) {
+    console.error("Error extracting text:", extractError);
+    if (extractError instanceof DocumentError) {
+      throw new AnalysisError(extractError.message, 400, extractError.code);
+    }
+    throw new AnalysisError("Failed to extract text from document", 400, "EXTRACTION_FAILED");
+  }
+  const layoutDetail = layout?.warnings.length ? `, ${layout.warnings.length} layout warning(s)` : "";
+  stage({ stage: "extract", status: "completed", detail: `${text.length.toLocaleString()} characters${layoutDetail}` });
+
+  // Hash the resume text and job description so re-uploads link to the prior record
+  const textHash = sha256(text);
+  const jobDescriptionHash = jobDescription ? sha256(jobDescription) : null;
+
+  let previousAnalysis: ResumeAnalysis | undefined;
+  try {
+    previousAnalysis = await storage.getLatestResumeAnalysisByHash(textHash, owner);
+  } catch (dbError) {
+    console.error("Database error:", dbError);
+    throw new AnalysisError(STORAGE_UNAVAILABLE_MESSAGE, 503, "STORAGE_UNAVAILABLE");
+  }
+
+  // Same resume, job description and provider: the stored result still applies
+  if (
+    previousAnalysis &&
+    previousAnalysis.jobDescriptionHash === jobDescriptionHash &&
+    previousAnalysis.provider === provider.name
+  ) {
+    console.log("Returning previous analysis", previousAnalysis.id);
+    const detail = `Reused analysis #${previousAnalysis.id} of the same resume`;
+    stage({ stage: "resume_check", status: "skipped", detail });
+    stage({ stage: "analysis", status: "skipped", detail });
+    stage({ stage: "validation", status: "skipped", detail });
+    return previousAnalysis;
+  }
+
+  // Check the document is a resume before spending an analysis on it. Scanned and image-only
+  // files have too little text to tell; they are analyzed so the layout warnings explain why
+  const imageOnly = layout?.warnings.some((warning) => warning.kind === "image_only_pages") ?? false;
+  if (imageOnly || text.trim().length < MIN_CLASSIFIABLE_LENGTH) {
+    const reason = imageOnly ? "Pages without selectable text" : "Too little text to tell what the document is";
+    stage({ stage: "resume_check", status: "skipped", detail: `${reason}, analyzing it as a resume` });
+  } else {
+    await checkDocumentType(text, provider, stage);
+  }
+
+  // Analyze the resume with the selected provider
+  stage({ stage: "analysis", status: "started", detail: `Using ${provider.name}` });
+  let validating = false;
+  let analysisResult: ResumeAnalysisResult;
+  try {
+    analysisResult = await analyzeResume(text, jobDescription, provider, {
+      onPartial: progress.onPartial,
+      onValidating: () => {
+        if (!validating) {
+          validating = true;
+          stage({ stage: "analysis", status: "completed" });
+          stage({ stage: "validation", status: "started" });
+        }
+      }
+    });
+    console.log("Analysis completed successfully");
+  } catch (analysisError) {
+    console.error(`Error analyzing resume with ${provider.name}:`, analysisError);
+    // Fall back to the rule-based engine if the provider fails
+    analysisResult = scoreResume(text, jobDescription);
+    if (!validating) {
+      stage({ stage: "analysis", status: "completed", detail: "Provider unavailable, used rule-based scoring" });
+      stage({ stage: "validation", status: "started" });
+      validating = true;
+    }
+  }
+  if (!validating) {
+    stage({ stage: "analysis", status: "completed", detail: "Rule-based scoring" });
+    stage({ stage: "validation", status: "started" });
+  }
+  // Instructions hidden in the resume are checked whatever the model made of them
+  const injection = applyInjectionPenalty(analysisResult, detectPromptInjection(text));
+  analysisResult = injection.result;
+  if (injection.promptInjection) {
+    console.warn(`Possible prompt injection in ${file.originalname}:`, injection.promptInjection.matches.map((match) => match.quote));
+  }
+  // The analyzers only saw flattened text, so problems with the PDF's layout are scored here
+  if (layout) {
+    analysisResult = applyLayoutWarnings(analysisResult, layout);
+  }
+
+  let saved: ResumeAnalysis;
+  try {
+    saved = await storage.createResumeAnalysis({
+      filename: file.originalname,
+      fileType: file.mimetype,
+      overallScore: analysisResult.overallScore,
+      keywordsScore: analysisResult.keywordsScore,
+      experienceScore: analysisResult.experienceScore,
+      skillsScore: analysisResult.skillsScore,
+      educationScore: analysisResult.educationScore,
+      formattingScore: analysisResult.formattingScore,
+      feedback: analysisResult.feedback,
+      improvementSuggestions: analysisResult.improvementSuggestions,
+      jobMatch: analysisResult.jobMatch ?? null,
+      textHash,
+      jobDescriptionHash,
+      previousAnalysisId: previousAnalysis?.id ?? null,
+      provider: analysisResult.provider ?? provider.name,
+      model: analysisResult.model ?? provider.model,
+      usage: analysisResult.usage ?? null,
+      ruleBasedScores: analysisResult.ruleBasedScores ?? null,
+      findings: analysisResult.findings,
+      resumeText: text,
+      layout,
+      promptInjection: injection.promptInjection,
+      ...ownerColumns(owner),
+    });
+  } catch (dbError) {
+    console.error("Database error saving analysis:", dbError);
+    throw new AnalysisError(STORAGE_UNAVAILABLE_MESSAGE, 503, "STORAGE_UNAVAILABLE");
+  }
+  stage({ stage: "validation", status: "completed" });
+  console.log("Analysis result saved with id", saved.id);
+  return saved;
+}
@@ -0,0 +1,72 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { LLM_TIMEOUT_MS, type LLMProvider, type LLMRequest, type LLMResponse } from "./llm";
+
+const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY;
+const ANTHROPIC_MODEL = process.env.ANTHROPIC_MODEL || "claude-3-5-sonnet-latest";
+const ANTHROPIC_MAX_TOKENS = 4096;
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic" as const;
+  readonly model = ANTHROPIC_MODEL;
+  private client: Anthropic | undefined;
+
+  isConfigured(): boolean {
+    return !!ANTHROPIC_API_KEY;
+  }
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      this.client = new Anthropic({ apiKey: ANTHROPIC_API_KEY, timeout: LLM_TIMEOUT_MS, maxRetries: 0 });
+    }
+    return this.client;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    let message: Anthropic.Message;
+    try {
+      message = await this.getClient().messages.create(this.buildParams(request));
+    } catch (error) {
+      console.error("Error calling Anthropic API:", error);
+      throw new Error("Failed to connect to analysis service. Please try again later.");
+    }
+    return this.toResponse(message);
+  }
+
+  async stream(request: LLMRequest, onText: (delta: string) => void): Promise<LLMResponse> {
+    let message: Anthropic.Message;
+    try {
+      const stream = this.getClient().messages.stream(this.buildParams(request));
+      stream.on("text", onText);
+      message = await stream.finalMessage();
+    } catch (error) {
+      console.error("Error calling Anthropic API:", error);
+      throw new Error("Failed to connect to analysis service. Please try again later.");
+    }
+    return this.toResponse(message);
+  }
+
+  private buildParams(request: LLMRequest): Anthropic.MessageCreateParamsNonStreaming {
+    return {
+      model: this.model,
+      max_tokens: ANTHROPIC_MAX_TOKENS,
+      temperature: 0,
+      messages: [{ role: "user", content: request.prompt }]
+    };
+  }
+
+  private toResponse(message: Anthropic.Message): LLMResponse {
+    const text = message.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("");
+
+    return {
+      text,
+      provider: this.name,
+      model: message.model || this.model,
+      usage: {
+        inputTokens: message.usage.input_tokens,
+        outputTokens: message.usage.output_tokens
+      }
+    };
+  }
+}
@@ -0,0 +1,154 @@
+import { parseResume } from "./resume-parser";
+import type { ResumeProfile } from "./schema";
+
+// What an applicant tracking system would fill into its candidate form from the
+// extracted text. Each field is checked the way a recruiter would see it: empty
+// when the parser found nothing, garbled when what it found is not usable as-is.
+
+export type AtsFieldStatus = "ok" | "missing" | "garbled";
+
+export interface AtsField {
+  label: string;
+  value: string | null;
+  status: AtsFieldStatus;
+  // Why the field is missing or garbled and what to change; null for usable fields
+  issue: string | null;
+}
+
+// One block of the form, such as the contact details or a single position
+export interface AtsFormGroup {
+  title: string;
+  fields: AtsField[];
+}
+
+export interface AtsPreview {
+  groups: AtsFormGroup[];
+  skills: string[];
+  missingCount: number;
+  garbledCount: number;
+}
+
+// Longest value that still looks like a single field rather than neighbouring lines run together
+const MAX_LENGTHS = {
+  name: 60,
+  title: 100,
+  organization: 120,
+  date: 30,
+  skill: 60,
+};
+
+const UNREADABLE = /[\u0000-\u0008\u000E-\u001F\uE000-\uF8FF\uFFFD]/;
+// UTF-8 read as Windows-1252, e.g. "Ã©" for "é" or "â€™" for "’"
+const MOJIBAKE = /\u00C3[\u0080-\u00BF]|\u00E2\u20AC/;
+// "J A N E  D O E": letter-spaced headings come out as one-letter words
+const SPACED_LETTERS = /^(?:\S ){3,}\S$/;
+
+function garbledReason(value: string, maxLength: number): string | null {
+  if (UNREADABLE.test(value)) return "Contains characters the ATS could not read, usually from icon or symbol fonts.";
+  if (MOJIBAKE.test(value)) return "Accented or special characters came out scrambled; save the file with UTF-8 text or as a PDF.";
+  if (SPACED_LETTERS.test(value)) return "The letters are spaced apart, so the ATS reads them as separate one-letter words.";
+  if (value.length > maxLength) return "Too long for this field: text from nearby lines ran into it, often because of columns or tables.";
+  return null;
+}
+
+function field(label: string, value: string | null, maxLength: number, missingIssue: string): AtsField {
+  const trimmed = value?.trim() || null;
+  if (!trimmed) {
+    return { label, value: null, status: "missing", issue: missingIssue };
+  }
+  const issue = garbledReason(trimmed, maxLength);
+  return { label, value: trimmed, status: issue ? "garbled" : "ok", issue };
+}
+
+function contactGroup({ contact }: ResumeProfile): AtsFormGroup {
+  const [firstName, ...otherNames] = contact.name?.trim().split(/\s+/) ?? [];
+  const nameMissing = "No name found at the top of the resume; put it on its own first line.";
+  const linkedIn = contact.links.find((link) => /linkedin\.com/i.test(link)) ?? null;
+  const nameField = (label: string, value: string | null) => {
+    const result = field(label, value, MAX_LENGTHS.name, nameMissing);
+    return result.status === "ok" && /\d/.test(result.value ?? "")
+      ? { ...result, status: "garbled" as const, issue: "Contains digits, so other text was probably read as your name." }
+      : result;
+  };
+
+  return {
+    title: "Personal Information",
+    fields: [
+      nameField("First name", firstName ?? null),
+      firstName && otherNames.length === 0
+        ? { label: "Last name", value: null, status: "missing", issue: "Only one name found; write your full name on the first line." }
+        : nameField("Last name", otherNames.join(" ") || null),
+      field("Email", contact.email, MAX_LENGTHS.organization, "No email address found; recruiters will have no way to reach you. Put it in the body of the first page, not in a header."),
+      field("Phone", contact.phone, MAX_LENGTHS.date, "No phone number found. Write it as plain text, e.g. (555) 123-4567."),
+      field("Location", contact.location, MAX_LENGTHS.organization, "No location found; many ATS filter candidates by city. Add \"City, State\" under your name."),
+      field("LinkedIn", linkedIn, MAX_LENGTHS.organization, "No LinkedIn URL found. Write the full address as text; icons and hyperlinks without text are lost."),
+    ],
+  };
+}
+
+function workGroups({ experience }: ResumeProfile): AtsFormGroup[] {
+  if (experience.length === 0) {
+    return [{
+      title: "Work Experience",
+      fields: [
+        field("Job title", null, MAX_LENGTHS.title, "No positions found. Put them under a heading named \"Experience\" or \"Work Experience\"."),
+      ],
+    }];
+  }
+  return experience.map((position, index) => ({
+    title: `Work Experience ${index + 1}`,
+    fields: [
+      field("Job title", position.title, MAX_LENGTHS.title, "No job title found for this position; put it on the line with the company and dates."),
+      field("Employer", position.company, MAX_LENGTHS.organization, "No employer found for this position."),
+      field("Start date", position.startDate, MAX_LENGTHS.date, "No start date found; write dates as \"Jan 2020 - Present\" next to the title."),
+      position.current
+        ? { label: "End date", value: "Present", status: "ok", issue: null }
+        : field("End date", position.endDate, MAX_LENGTHS.date, "No end date found; write dates as \"Jan 2020 - Mar 2022\"."),
+    ],
+  }));
+}
+
+function educationGroups({ education }: ResumeProfile): AtsFormGroup[] {
+  if (education.length === 0) {
+    return [{
+      title: "Education",
+      fields: [
+        field("School", null, MAX_LENGTHS.organization, "No education found. Put it under a heading named \"Education\"."),
+      ],
+    }];
+  }
+  return education.map((entry, index) => ({
+    title: `Education ${index + 1}`,
+    fields: [
+      field("School", entry.institution, MAX_LENGTHS.organization, "No school name found for this entry."),
+      field("Degree", entry.degree, MAX_LENGTHS.title, "No degree found; spell it out, e.g. \"Bachelor of Science\"."),
+      field("Field of study", entry.fieldOfStudy, MAX_LENGTHS.title, "No field of study found; write it as \"B.S. in Computer Science\"."),
+      field("Graduation date", entry.endDate ?? entry.startDate, MAX_LENGTHS.date, "No graduation date found."),
+    ],
+  }));
+}
+
+export function buildAtsPreview(text: string): AtsPreview {
+  const profile = parseResume(text);
+  const skills = profile.skills;
+  const unreadableSkills = skills.filter((skill) => garbledReason(skill, MAX_LENGTHS.skill));
+  const skillsField: AtsField = skills.length === 0
+    ? { label: "Skills", value: null, status: "missing", issue: "No skills found. List them under a heading named \"Skills\", separated by commas." }
+    : unreadableSkills.length > 0
+      ? { label: "Skills", value: skills.join(", "), status: "garbled", issue: `Some skills did not come through cleanly: ${unreadableSkills.slice(0, 3).join("; ")}` }
+      : { label: "Skills", value: skills.join(", "), status: "ok", issue: null };
+
+  const groups = [
+    contactGroup(profile),
+    ...workGroups(profile),
+    ...educationGroups(profile),
+    { title: "Skills", fields: [skillsField] },
+  ];
+  const fields = groups.flatMap((group) => group.fields);
+  return {
+    groups,
+    skills,
+    missingCount: fields.filter((item) => item.status === "missing").length,
+    garbledCount: fields.filter((item) => item.status === "garbled").length,
+  };
+}
@@ -0,0 +1,495 @@
+import type { ResumeAnalysisResult, JobMatch, RequirementMatch } from "./analyzer";
+import { detectSections, splitSkillItems, type SectionName } from "./resume-parser";
+import { locateFindings, type QuotedFinding } from "./findings";
+
+// Rule-based ATS scorer. Works only on the extracted text, so it is available
+// without any LLM: it backs the local provider, serves as the fallback when a
+// hosted provider fails, and is reported next to LLM scores as a sanity check.
+
+export const RULES_MODEL = "rules-v1";
+
+// Weights used to combine the category scores into the overall score
+export const CATEGORY_WEIGHTS = {
+  keywords: 0.25,
+  experience: 0.3,
+  skills: 0.2,
+  education: 0.15,
+  formatting: 0.1,
+} as const;
+
+export type ScoreCategoryName = keyof typeof CATEGORY_WEIGHTS;
+
+export interface CategoryScores {
+  overallScore: number;
+  keywordsScore: number;
+  experienceScore: number;
+  skillsScore: number;
+  educationScore: number;
+  formattingScore: number;
+}
+
+const ACTION_VERBS = new Set([
+  "achieved", "administered", "analyzed", "architected", "automated", "boosted", "built", "championed",
+  "collaborated", "conducted", "consolidated", "coordinated", "created", "cut", "decreased", "delivered",
+  "deployed", "designed", "developed", "directed", "drove", "eliminated", "engineered", "established",
+  "executed", "expanded", "facilitated", "founded", "generated", "grew", "headed", "implemented",
+  "improved", "increased", "initiated", "integrated", "introduced", "launched", "led", "maintained",
+  "managed", "mentored", "migrated", "modernized", "negotiated", "optimized", "orchestrated", "organized",
+  "overhauled", "oversaw", "partnered", "pioneered", "planned", "presented", "produced", "programmed",
+  "published", "raised", "rebuilt", "redesigned", "reduced", "refactored", "resolved",
+  "restructured", "revamped", "saved", "scaled", "secured", "shipped", "simplified", "spearheaded",
+  "streamlined", "strengthened", "supervised", "trained", "transformed", "tripled", "doubled", "won", "wrote",
+]);
+
+const WEAK_OPENERS = /^(responsible for|duties included|tasks included|worked on|helped|assisted|involved in|participated in)\b/i;
+
+const MONTHS = "jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec";
+const DATE_STYLES: Record<string, RegExp> = {
+  "Month YYYY": new RegExp(`\\b(${MONTHS})[a-z]*\\.?\\s+(19|20)\\d{2}\\b`, "gi"),
+  "MM/YYYY": /\b(0?[1-9]|1[0-2])\/(19|20)\d{2}\b/g,
+  "YYYY-MM": /\b(19|20)\d{2}-(0[1-9]|1[0-2])\b/g,
+};
+const YEAR_RANGE = /\b((?:19|20)\d{2})\s*(?:-|–|—|to)\s*((?:19|20)\d{2}|present|current|now)\b/gi;
+
+export const EMAIL = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i;
+export const PHONE = /(\+?\d{1,3}[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/;
+const PROFILE_LINK = /(linkedin\.com\/in\/|github\.com\/)[\w-]+/i;
+
+const DEGREE = /\b(bachelor|master|ph\.?d|doctorate|mba|associate|diploma|b\.?\s?s\.?c?|m\.?\s?s\.?c?|b\.?\s?a\.?|m\.?\s?a\.?|b\.?\s?tech|m\.?\s?tech|b\.?\s?e\.?|m\.?\s?e\.?)\b/i;
+const INSTITUTION = /\b(university|college|institute|school|academy)\b/i;
+
+// Words that carry no signal when pulling keywords out of a job description
+const STOPWORDS = new Set([
+  "a", "about", "across", "an", "and", "any", "are", "as", "at", "be", "been", "both", "but", "by", "can",
+  "do", "etc", "for", "from", "has", "have", "how", "if", "in", "into", "is", "it", "its", "like", "more",
+  "must", "not", "of", "on", "one", "or", "other", "our", "out", "over", "per", "plus", "should", "so",
+  "such", "than", "that", "the", "their", "them", "then", "there", "these", "they", "this", "those", "to",
+  "up", "us", "using", "via", "was", "we", "well", "were", "what", "when", "where", "which", "while", "who",
+  "will", "with", "within", "would", "you", "your", "able", "ability", "candidate", "candidates",
+  "including", "experience", "experienced", "years", "year", "work", "working", "job", "role", "team",
+  "teams", "strong", "excellent", "good", "great", "knowledge", "understanding", "skills", "skill",
+  "required", "requirements", "preferred", "responsibilities", "qualifications", "ideal", "looking",
+  "join", "company", "opportunity", "new", "help", "least", "minimum", "related", "relevant", "familiarity",
+  "familiar", "proficiency", "proficient", "demonstrated", "proven", "solid", "equivalent", "field", "etc.",
+]);
+
+const MAX_JD_KEYWORDS = 25;
+const MAX_REQUIREMENTS = 15;
+// Findings quoted per kind of issue, so one recurring problem doesn't crowd out the rest
+const MAX_FINDINGS_PER_ISSUE = 3;
+
+interface Bullet {
+  text: string;
+  firstWord: string;
+}
+
+function clampScore(score: number): number {
+  return Math.max(0, Math.min(100, Math.round(score)));
+}
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function quote(text: string, max = 60): string {
+  const trimmed = text.trim();
+  return `"${trimmed.length > max ? trimmed.slice(0, max - 1) + "…" : trimmed}"`;
+}
+
+export function computeOverallScore(scores: Omit<CategoryScores, "overallScore">): number {
+  return clampScore(
+    scores.keywordsScore * CATEGORY_WEIGHTS.keywords +
+    scores.experienceScore * CATEGORY_WEIGHTS.experience +
+    scores.skillsScore * CATEGORY_WEIGHTS.skills +
+    scores.educationScore * CATEGORY_WEIGHTS.education +
+    scores.formattingScore * CATEGORY_WEIGHTS.formatting
+  );
+}
+
+function extractBullets(lines: string[], experienceLines: string[] | undefined): Bullet[] {
+  const marked = lines.filter((line) => /^\s*[-•*▪●◦‣–]\s+/.test(line));
+  // Fall back to the longer lines of the experience section when bullets are not marked
+  const source = marked.length > 0
+    ? marked
+    : (experienceLines ?? []).filter((line) => line.split(/\s+/).length >= 6);
+  return source.map((line) => {
+    const text = line.replace(/^\s*[-•*▪●◦‣–]\s+/, "").trim();
+    return { text, firstWord: text.split(/\s+/)[0]?.toLowerCase().replace(/[^a-z]/g, "") ?? "" };
+  });
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9+#.]*[a-z0-9+#]|[a-z0-9]/g) ?? [])
+    .filter((token) => !STOPWORDS.has(token) && /[a-z]/.test(token) && token.length > 1);
+}
+
+function containsTerm(haystack: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9+#])`, "i").test(haystack);
+}
+
+// Keywords ranked by how often the posting mentions them
+function extractJobKeywords(jobDescription: string): string[] {
+  const counts = new Map<string, number>();
+  tokenize(jobDescription).forEach((token) => counts.set(token, (counts.get(token) ?? 0) + 1));
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_JD_KEYWORDS)
+    .map(([token]) => token);
+}
+
+function extractRequirements(jobDescription: string): string[] {
+  const lines = jobDescription.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  const bulleted = lines
+    .filter((line) => /^[-•*▪●◦‣–]|^\d+[.)]\s/.test(line))
+    .map((line) => line.replace(/^([-•*▪●◦‣–]|\d+[.)])\s*/, ""));
+  const requirements = bulleted.length > 0
+    ? bulleted
+    : jobDescription
+        .split(/(?<=[.;])\s+|\r?\n/)
+        .map((sentence) => sentence.trim())
+        .filter((sentence) => /\b(experience|knowledge|proficien|familiar|degree|ability|skilled|expertise)/i.test(sentence));
+  return requirements.filter((req) => tokenize(req).length > 0).slice(0, MAX_REQUIREMENTS);
+}
+
+// Resume lines without bullet markers, the candidates for requirement evidence
+function evidenceLines(resumeText: string): string[] {
+  return resumeText
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^\s*[-•*▪●◦‣–]\s+/, "").trim())
+    .filter(Boolean);
+}
+
+// How well the resume covers one requirement, quoting the resume line that covers the most of its terms
+export function matchRequirement(resumeText: string, requirement: string, resumeLines = evidenceLines(resumeText)): RequirementMatch {
+  const terms = Array.from(new Set(tokenize(requirement)));
+  if (terms.length === 0) {
+    return { requirement, status: "missing", evidence: "" };
+  }
+  const present = terms.filter((term) => containsTerm(resumeText, term));
+  const ratio = present.length / terms.length;
+  let evidence = "";
+  let best = 0;
+  resumeLines.forEach((line) => {
+    const hits = present.filter((term) => containsTerm(line, term)).length;
+    if (hits > best) {
+      best = hits;
+      evidence = line.length > 160 ? line.slice(0, 159) + "…" : line;
+    }
+  });
+  const status: RequirementMatch["status"] = ratio >= 0.7 ? "met" : ratio >= 0.35 ? "partial" : "missing";
+  return { requirement, status, evidence: status === "missing" ? "" : evidence };
+}
+
+export function matchJobDescription(resumeText: string, jobDescription: string): JobMatch & { coverage: number } {
+  const keywords = extractJobKeywords(jobDescription);
+  const matchedKeywords = keywords.filter((keyword) => containsTerm(resumeText, keyword));
+  const missingKeywords = keywords.filter((keyword) => !matchedKeywords.includes(keyword));
+  const resumeLines = evidenceLines(resumeText);
+
+  const requirements = extractRequirements(jobDescription)
+    .map((requirement) => matchRequirement(resumeText, requirement, resumeLines));
+
+  return {
+    matchedKeywords,
+    missingKeywords,
+    requirements,
+    coverage: keywords.length > 0 ? matchedKeywords.length / keywords.length : 0,
+  };
+}
+
+export function scoreResume(text: string, jobDescription?: string): ResumeAnalysisResult {
+  const lines = text.split(/\r?\n/);
+  const words = text.split(/\s+/).filter(Boolean).length;
+  const { sections } = detectSections(text);
+  const bullets = extractBullets(lines, sections.get("experience"));
+  const jd = jobDescription?.trim();
+  const jobMatch = jd ? matchJobDescription(text, jd) : undefined;
+  const suggestions: string[] = [];
+  const findings: QuotedFinding[] = [];
+
+  // Experience: action verbs and quantified bullets
+  const actionBullets = bullets.filter((bullet) => ACTION_VERBS.has(bullet.firstWord));
+  const quantifiedBullets = bullets.filter((bullet) => /\d|%|\$/.test(bullet.text));
+  const weakBullets = bullets.filter((bullet) => WEAK_OPENERS.test(bullet.text));
+  const actionRatio = bullets.length ? actionBullets.length / bullets.length : 0;
+  const quantifiedRatio = bullets.length ? quantifiedBullets.length / bullets.length : 0;
+  const experienceScore = clampScore(
+    (sections.has("experience") ? 40 : 15) +
+    actionRatio * 30 +
+    quantifiedRatio * 30 -
+    Math.min(weakBullets.length * 5, 15)
+  );
+  const experienceFeedback = [
+    sections.has("experience") ? "An experience section was found." : "No experience section header was found.",
+    bullets.length
+      ? `${actionBullets.length} of ${pluralize(bullets.length, "bullet")} start with an action verb and ${quantifiedBullets.length} include a number.`
+      : "No bullet points were detected.",
+    weakBullets.length ? `Weak opener: ${quote(weakBullets[0].text)}.` : "",
+  ].filter(Boolean).join(" ");
+  if (quantifiedRatio < 0.5 && bullets.length) {
+    const example = bullets.find((bullet) => !/\d|%|\$/.test(bullet.text) && !WEAK_OPENERS.test(bullet.text))
+      ?? bullets.find((bullet) => !/\d|%|\$/.test(bullet.text));
+    suggestions.push(`Quantify more achievements; for example, add a metric to ${quote(example?.text ?? "")}.`);
+  }
+  weakBullets.slice(0, MAX_FINDINGS_PER_ISSUE).forEach((bullet) => findings.push({
+    category: "experience",
+    quote: bullet.text,
+    message: "Opens with a passive phrase; start with an action verb that says what you did.",
+  }));
+  bullets
+    .filter((bullet) => !/\d|%|\$/.test(bullet.text) && !WEAK_OPENERS.test(bullet.text))
+    .slice(0, MAX_FINDINGS_PER_ISSUE)
+    .forEach((bullet) => findings.push({
+      category: "experience",
+      quote: bullet.text,
+      message: "No number, percentage or amount; add a metric that shows the result.",
+    }));
+  if (weakBullets.length) {
+    suggestions.push(`Replace passive openers such as ${quote(weakBullets[0].text, 30)} with strong action verbs.`);
+  } else if (actionRatio < 0.6 && bullets.length) {
+    suggestions.push("Start each bullet point with a strong action verb such as Led, Built or Reduced.");
+  }
+
+  // Skills: presence and density of the skills list
+  const skillItems = splitSkillItems(sections.get("skills") ?? []);
+  let skillsScore = sections.has("skills") ? 50 : 20;
+  if (skillItems.length >= 8 && skillItems.length <= 30) skillsScore += 40;
+  else if (skillItems.length > 30) skillsScore += 20;
+  else if (skillItems.length >= 4) skillsScore += 25;
+  else if (skillItems.length > 0) skillsScore += 10;
+  if (jobMatch) {
+    skillsScore = skillsScore * 0.5 + jobMatch.coverage * 100 * 0.5;
+  }
+  skillsScore = clampScore(skillsScore);
+  const skillsFeedback = sections.has("skills")
+    ? `The skills section lists ${pluralize(skillItems.length, "item")}${skillItems.length > 30 ? ", which reads as keyword stuffing" : skillItems.length < 8 ? ", which is thin for most roles" : ""}.`
+    : "No dedicated skills section was found, so an ATS may miss your skills.";
+  const firstSkillLine = sections.get("skills")?.[0];
+  if (firstSkillLine && (skillItems.length > 30 || skillItems.length < 4)) {
+    findings.push({
+      category: "skills",
+      quote: firstSkillLine.trim(),
+      message: skillItems.length > 30
+        ? `The skills list has ${skillItems.length} items; trim it to the 10-25 most relevant to the role.`
+        : `Only ${pluralize(skillItems.length, "skill")} listed; add the tools and technologies you use.`,
+    });
+  }
+  if (!sections.has("skills")) {
+    suggestions.push("Add a dedicated Skills section listing your core tools and technologies.");
+  }
+
+  // Keywords: job description coverage when one is supplied, otherwise vocabulary breadth
+  const distinctVerbs = new Set(actionBullets.map((bullet) => bullet.firstWord)).size;
+  const keywordsScore = clampScore(
+    jobMatch
+      ? 30 + jobMatch.coverage * 70
+      : 40 + Math.min(skillItems.length, 20) * 1.5 + Math.min(distinctVerbs, 10) * 2
+  );
+  const keywordsFeedback = jobMatch
+    ? `The resume contains ${jobMatch.matchedKeywords.length} of ${jobMatch.matchedKeywords.length + jobMatch.missingKeywords.length} key terms from the job description${jobMatch.missingKeywords.length ? `; missing: ${jobMatch.missingKeywords.slice(0, 5).join(", ")}` : ""}.`
+    : `Found ${pluralize(skillItems.length, "listed skill")} and ${pluralize(distinctVerbs, "distinct action verb")}.`;
+  if (jobMatch && jobMatch.missingKeywords.length) {
+    suggestions.push(`Work these job description terms into your resume where they are true: ${jobMatch.missingKeywords.slice(0, 5).join(", ")}.`);
+  }
+
+  // Education
+  const educationText = (sections.get("education") ?? []).join(" ");
+  const hasDegree = DEGREE.test(educationText || text);
+  const hasInstitution = INSTITUTION.test(educationText || text);
+  const hasGraduationYear = /\b(19|20)\d{2}\b/.test(educationText);
+  const educationScore = clampScore(
+    (sections.has("education") ? 60 : 25) + (hasDegree ? 20 : 0) + (hasInstitution ? 10 : 0) + (hasGraduationYear ? 10 : 0)
+  );
+  const educationFeedback = sections.has("education")
+    ? `An education section was found${hasDegree ? " with a degree" : " but no recognisable degree"}${hasGraduationYear ? " and dates" : ", without dates"}.`
+    : "No education section header was found.";
+  const firstEducationLine = sections.get("education")?.[0];
+  if (firstEducationLine && (!hasDegree || !hasGraduationYear)) {
+    findings.push({
+      category: "education",
+      quote: firstEducationLine.trim(),
+      message: !hasDegree
+        ? "No recognisable degree; spell out the degree name, e.g. Bachelor of Science."
+        : "No graduation year; add one so an ATS can read your timeline.",
+    });
+  }
+  if (!sections.has("education")) {
+    suggestions.push("Add an Education section with your degree, institution and graduation year.");
+  }
+
+  // Formatting: contact info, standard headers, length and date consistency
+  const issues: string[] = [];
+  let formattingScore = 100;
+  if (!EMAIL.test(text)) {
+    formattingScore -= 15;
+    issues.push("no email address");
+  }
+  if (!PHONE.test(text)) {
+    formattingScore -= 10;
+    issues.push("no phone number");
+  }
+  const missingHeaders = (["experience", "education", "skills"] as SectionName[]).filter((name) => !sections.has(name));
+  if (missingHeaders.length) {
+    formattingScore -= missingHeaders.length * 10;
+    issues.push(`missing standard headers (${missingHeaders.join(", ")})`);
+  }
+  if (words < 250) {
+    formattingScore -= 15;
+    issues.push(`only ${words} words`);
+  } else if (words > 1200) {
+    formattingScore -= 15;
+    issues.push(`${words} words, which is long for most roles`);
+  } else if (words > 900) {
+    formattingScore -= 5;
+  }
+  const dateStyles = Object.keys(DATE_STYLES).filter((style) => (text.match(DATE_STYLES[style]) ?? []).length > 0);
+  if (dateStyles.length > 1) {
+    formattingScore -= 10;
+    issues.push(`mixed date formats (${dateStyles.join(" and ")})`);
+    suggestions.push(`Use one date format throughout instead of mixing ${dateStyles.join(" and ")}.`);
+    // Point at the dates written in the less common styles
+    const counts = dateStyles.map((style) => (text.match(DATE_STYLES[style]) ?? []).length);
+    const mainStyle = dateStyles[counts.indexOf(Math.max(...counts))];
+    dateStyles
+      .filter((style) => style !== mainStyle)
+      .flatMap((style) => (text.match(DATE_STYLES[style]) ?? []).map((date) => ({ style, date })))
+      .slice(0, MAX_FINDINGS_PER_ISSUE)
+      .forEach(({ style, date }) => findings.push({
+        category: "formatting",
+        quote: date,
+        message: `Written as ${style} while most dates use ${mainStyle}; use one format throughout.`,
+      }));
+  }
+  const backwardsRanges = Array.from(text.matchAll(YEAR_RANGE)).filter(
+    (match) => /^\d+$/.test(match[2]) && Number(match[2]) < Number(match[1])
+  );
+  if (backwardsRanges.length) {
+    formattingScore -= Math.min(backwardsRanges.length * 5, 10);
+    issues.push(`date range ${quote(backwardsRanges[0][0])} ends before it starts`);
+    backwardsRanges.slice(0, MAX_FINDINGS_PER_ISSUE).forEach((range) => findings.push({
+      category: "formatting",
+      quote: range[0],
+      message: "This date range ends before it starts; check the years.",
+    }));
+  }
+  formattingScore = clampScore(formattingScore);
+  const contactParts = [EMAIL.test(text) && "email", PHONE.test(text) && "phone", PROFILE_LINK.test(text) && "profile link"].filter(Boolean);
+  const formattingFeedback = issues.length
+    ? `Found ${issues.join("; ")}.`
+    : `Standard sections, contact details (${contactParts.join(", ")}) and consistent dates were all found.`;
+  if (!EMAIL.test(text) || !PHONE.test(text)) {
+    suggestions.push("Put your email address and phone number as plain text at the top of the resume.");
+  }
+
+  const categories = { keywordsScore, experienceScore, skillsScore, educationScore, formattingScore };
+  if (suggestions.length < 3) {
+    suggestions.push("Tailor the summary and skills to each job description you apply for.");
+  }
+
+  return {
+    ...categories,
+    overallScore: computeOverallScore(categories),
+    feedback: {
+      keywords: keywordsFeedback,
+      experience: experienceFeedback,
+      skills: skillsFeedback,
+      education: educationFeedback,
+      formatting: formattingFeedback,
+    },
+    improvementSuggestions: suggestions.slice(0, 5),
+    findings: locateFindings(text, findings),
+    jobMatch: jobMatch
+      ? { matchedKeywords: jobMatch.matchedKeywords, missingKeywords: jobMatch.missingKeywords, requirements: jobMatch.requirements }
+      : undefined,
+    provider: "local",
+    model: RULES_MODEL,
+  };
+}
+
+// Passive openers with the verbs to lead with instead; the rest of the bullet is kept as written
+const OPENER_REWRITES: Array<{ pattern: RegExp; verbs: string[] }> = [
+  { pattern: /^(responsible for|duties included|tasks included)\s+/i, verbs: ["Owned", "Led", "Managed"] },
+  { pattern: /^worked on\s+/i, verbs: ["Built", "Developed", "Delivered"] },
+  { pattern: /^(helped|assisted)\s+(with|in|on)\s+/i, verbs: ["Supported", "Drove", "Co-led"] },
+  { pattern: /^(helped|assisted)\s+(to\s+)?/i, verbs: ["Partnered with [team] to", "Co-led efforts to", "Worked with [team] to"] },
+  { pattern: /^(involved in|participated in)\s+/i, verbs: ["Drove", "Delivered", "Contributed to"] },
+];
+
+// Ways to show impact, with bracketed placeholders for the figures only the candidate knows
+const IMPACT_PLACEHOLDERS = [
+  ", improving [metric] by [X]%",
+  " for [N] [users/customers], reducing [time/cost] by [X]%",
+  ", saving [X] hours per [week]",
+];
+
+// Past tenses that are not the gerund's stem plus "ed"
+const IRREGULAR_PAST_TENSES: Record<string, string> = {
+  building: "built", leading: "led", running: "ran", writing: "wrote", making: "made", setting: "set",
+  driving: "drove", teaching: "taught", selling: "sold", bringing: "brought", keeping: "kept",
+  holding: "held", meeting: "met", growing: "grew", overseeing: "oversaw", winning: "won",
+  cutting: "cut", giving: "gave", taking: "took", speaking: "spoke", spending: "spent", seeking: "sought",
+};
+
+// "managing" -> "Managed", so a bullet that goes on with a gerund reads as an action
+function gerundToPastTense(gerund: string): string {
+  const lower = gerund.toLowerCase();
+  const stem = lower.slice(0, -3);
+  const past = IRREGULAR_PAST_TENSES[lower]
+    ?? (/[^aeiou]y$/.test(stem) ? `${stem.slice(0, -1)}ied` : `${stem}ed`);
+  return past.charAt(0).toUpperCase() + past.slice(1);
+}
+
+// Leading gerund of a bullet and the text after it; words such as "string" whose stem has no vowel are not gerunds
+function splitLeadingGerund(text: string): { gerund: string; rest: string } | null {
+  const match = text.match(/^([A-Za-z]+ing)\b\s*(.*)$/);
+  if (!match || !/[aeiouy]/i.test(match[1].slice(0, -3))) return null;
+  return { gerund: match[1], rest: match[2] };
+}
+
+function lowerFirst(text: string): string {
+  // Leave acronyms and proper nouns such as "API" or "AWS" alone
+  return /^[A-Z][a-z]/.test(text) ? text.charAt(0).toLowerCase() + text.slice(1) : text;
+}
+
+// Rule-based rewrites of one bullet: a strong opening verb, plus placeholders for impact
+// when the bullet has no figures of its own. Never adds a number the bullet did not have.
+export function suggestBulletRewrites(bullet: string): string[] {
+  const text = bullet.replace(/^\s*[-•*▪●◦‣–]\s+/, "").trim().replace(/[.;]+$/, "");
+  const weak = OPENER_REWRITES.find(({ pattern }) => pattern.test(text));
+  const firstWord = text.split(/\s+/)[0] ?? "";
+  let verbs: string[];
+  let rest: string;
+  if (!weak && ACTION_VERBS.has(firstWord.toLowerCase().replace(/[^a-z]/g, ""))) {
+    const verb = firstWord.charAt(0).toUpperCase() + firstWord.slice(1);
+    verbs = [verb, verb, verb];
+    rest = text.slice(firstWord.length).trim();
+  } else {
+    rest = weak ? text.replace(weak.pattern, "") : text;
+    // "Responsible for managing 5 engineers" becomes "Managed 5 engineers", not "Owned managing 5 engineers"
+    const gerund = splitLeadingGerund(rest);
+    if (gerund) {
+      const verb = gerundToPastTense(gerund.gerund);
+      verbs = [verb, verb, verb];
+      rest = gerund.rest;
+    } else {
+      verbs = weak?.verbs ?? ["Led", "Delivered", "Drove"];
+      rest = lowerFirst(rest);
+    }
+  }
+
+  const quantified = /\d|%|\$/.test(text);
+  const impacts = quantified ? ["", " across [N] [teams/projects]", ", improving [metric] by [X]%"] : IMPACT_PLACEHOLDERS;
+  return verbs.map((verb, index) => `${verb} ${rest}${impacts[index]}`);
+}
+
+export function getCategoryScores(result: CategoryScores): CategoryScores {
+  return {
+    overallScore: result.overallScore,
+    keywordsScore: result.keywordsScore,
+    experienceScore: result.experienceScore,
+    skillsScore: result.skillsScore,
+    educationScore: result.educationScore,
+    formattingScore: result.formattingScore,
+  };
+}
@@ -0,0 +1,202 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import crypto from "crypto";
+import { promisify } from "util";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "./storage";
+import { adoptAnonymousChats } from "./chat-history";
+import { credentialsSchema, type User as StoredUser, type PublicUser, type RecordOwner } from "./schema";
+
+// Username/password accounts on the users table: passport-local with scrypt-hashed
+// passwords and cookie sessions, kept in PostgreSQL when it is configured.
+
+declare global {
+  namespace Express {
+    interface User extends StoredUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Random key an anonymous visitor's analyses and other records are stored under; set with
+    // the first one, which also keeps the session
+    recordKey?: string;
+  }
+}
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Stored as "<hash>.<salt>", both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+  const storedHash = Buffer.from(hash, "hex");
+  const suppliedHash = await scrypt(password, salt, KEY_LENGTH);
+  return storedHash.length === suppliedHash.length && crypto.timingSafeEqual(storedHash, suppliedHash);
+}
+
+export function toPublicUser(user: StoredUser): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+// Id of the signed-in user, or null for anonymous requests
+export function getUserId(req: Request): number | null {
+  return req.isAuthenticated() ? req.user.id : null;
+}
+
+// Owner to check stored records against; null for an anonymous visitor who has not created any
+export function getRecordOwner(req: Request): RecordOwner | null {
+  if (req.isAuthenticated()) return { userId: req.user.id };
+  return req.session.recordKey ? { sessionKey: req.session.recordKey } : null;
+}
+
+// Owner to store a new record under; call before the response headers are sent, so the session is kept
+export function claimRecordOwner(req: Request): RecordOwner {
+  if (req.isAuthenticated()) return { userId: req.user.id };
+  req.session.recordKey ??= crypto.randomBytes(24).toString("hex");
+  return { sessionKey: req.session.recordKey };
+}
+
+function createSessionStore(): session.Store {
+  if (process.env.DATABASE_URL) {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({ conString: process.env.DATABASE_URL, createTableIfMissing: true });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+export function setupAuth(app: Express): void {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && process.env.NODE_ENV === "production") {
+    console.warn("SESSION_SECRET is not set; sessions will not survive a restart");
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    // Secure cookies behind the hosting provider's TLS-terminating proxy
+    app.set("trust proxy", 1);
+  }
+  app.use(session({
+    secret: secret || crypto.randomBytes(32).toString("hex"),
+    resave: false,
+    saveUninitialized: false,
+    store: createSessionStore(),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim());
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return done(null, false, { message: "Invalid username or password" });
+      }
+      return done(null, user);
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      // A deleted user simply ends the session
+      done(null, (await storage.getUser(id)) ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/register", async (req: Request, res: Response, next: NextFunction) => {
+    const parsed = credentialsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    let user: StoredUser;
+    try {
+      if (await storage.getUserByUsername(parsed.data.username)) {
+        return res.status(409).json({ message: "That username is already taken" });
+      }
+      user = await storage.createUser({
+        username: parsed.data.username,
+        password: await hashPassword(parsed.data.password),
+      });
+    } catch (error) {
+      // A sign-up racing this one past the check above took the username first
+      if (await storage.getUserByUsername(parsed.data.username).catch(() => undefined)) {
+        return res.status(409).json({ message: "That username is already taken" });
+      }
+      console.error("Error registering user:", error);
+      return res.status(503).json({ message: "Accounts are temporarily unavailable. Please try again later." });
+    }
+
+    // Captured first: the new session replaces it
+    const chatSessionId = req.session.chatStarted ? req.sessionID : null;
+    // New session id on sign-up, like on login, to prevent session fixation
+    req.session.regenerate((regenerateError) => {
+      if (regenerateError) return next(regenerateError);
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        void adoptAnonymousChats(chatSessionId, user).then(() => res.status(201).json(toPublicUser(user)));
+      });
+    });
+  });
+
+  app.post("/api/auth/login", (req: Request, res: Response, next: NextFunction) => {
+    passport.authenticate("local", (error: unknown, user: StoredUser | false, info?: { message?: string }) => {
+      if (error) {
+        console.error("Error logging in:", error);
+        return res.status(503).json({ message: "Accounts are temporarily unavailable. Please try again later." });
+      }
+      if (!user) {
+        return res.status(401).json({ message: info?.message || "Invalid username or password" });
+      }
+      const chatSessionId = req.session.chatStarted ? req.sessionID : null;
+      // New session id on login to prevent session fixation
+      req.session.regenerate((regenerateError) => {
+        if (regenerateError) return next(regenerateError);
+        req.login(user, (loginError) => {
+          if (loginError) return next(loginError);
+          void adoptAnonymousChats(chatSessionId, user).then(() => res.status(200).json(toPublicUser(user)));
+        });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req: Request, res: Response, next: NextFunction) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        return res.sendStatus(204);
+      });
+    });
+  });
+
+  app.get("/api/auth/me", (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not signed in" });
+    }
+    return res.status(200).json(toPublicUser(req.user));
+  });
+}
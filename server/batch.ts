@@ -0,0 +1,255 @@
+import path from "path";
+import type { Request } from "express";
+import type multer from "multer";
+import { storage } from "./storage";
+import {
+  isValidFileType, mimeTypeFromFilename, readZipDirectory, readZipEntry, DocumentError, SUPPORTED_FORMATS_DESCRIPTION,
+} from "./document-parser";
+import { enqueueAnalysisJob } from "./job-queue";
+import { AnalysisError, ownerColumns, type ResumeUpload } from "./analysis-pipeline";
+import type { DocumentClassification } from "./document-classifier";
+import type { LLMProvider } from "./llm";
+import type { AnalysisBatch, AnalysisJob, AnalysisJobStatus, DocumentType, RecordOwner, SkippedFile } from "./schema";
+
+// Bulk analysis: every resume in a multi-file or ZIP upload becomes one queued
+// analysis job tied to a batch, scored against the batch's shared job description.
+
+export const MAX_BATCH_FILES = 100;
+export const MAX_RESUME_SIZE = 5 * 1024 * 1024;
+export const MAX_ZIP_SIZE = 25 * 1024 * 1024;
+// Everything uploaded in one batch request, ZIP archives included
+export const MAX_BATCH_REQUEST_SIZE = 100 * 1024 * 1024;
+
+const ZIP_MIME_TYPES = ["application/zip", "application/x-zip-compressed", "application/x-zip", "multipart/x-zip"];
+
+export interface BatchResultRow {
+  jobId: number;
+  filename: string;
+  status: AnalysisJobStatus;
+  error: string | null;
+  analysisId: number | null;
+  // What the file looked like when it was rejected as not a resume
+  documentType: DocumentType | null;
+  // The resume contains text addressed to AI screeners
+  injectionFlagged: boolean;
+  overallScore: number | null;
+  keywordsScore: number | null;
+  experienceScore: number | null;
+  skillsScore: number | null;
+  educationScore: number | null;
+  formattingScore: number | null;
+}
+
+export interface BatchStatus {
+  batchId: number;
+  createdAt: Date;
+  hasJobDescription: boolean;
+  fileCount: number;
+  completed: number;
+  failed: number;
+  pending: number;
+  done: boolean;
+  skippedFiles: SkippedFile[];
+  results: BatchResultRow[];
+}
+
+export function isZipUpload(file: { mimetype: string; originalname: string }): boolean {
+  return ZIP_MIME_TYPES.includes(file.mimetype) || path.extname(file.originalname).toLowerCase() === ".zip";
+}
+
+// Bytes buffered so far for each batch request
+const requestSizes = new WeakMap<Request, number>();
+
+// Multer storage for batch uploads. Like memoryStorage, but a resume is only buffered up to
+// MAX_RESUME_SIZE (ZIP archives are held to MAX_ZIP_SIZE by multer's own limit); the rest of an
+// oversized resume is drained so expandBatchUploads can report it as skipped. The whole
+// request is rejected once it passes MAX_BATCH_REQUEST_SIZE.
+export const batchUploadStorage: multer.StorageEngine = {
+  _handleFile(req, file, cb) {
+    const limit = isZipUpload(file) ? MAX_ZIP_SIZE : MAX_RESUME_SIZE;
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let failed = false;
+    file.stream.on("data", (chunk: Buffer) => {
+      if (failed) return;
+      size += chunk.length;
+      const total = (requestSizes.get(req) ?? 0) + chunk.length;
+      requestSizes.set(req, total);
+      if (total > MAX_BATCH_REQUEST_SIZE) {
+        failed = true;
+        cb(new AnalysisError(`Batch uploads are limited to ${MAX_BATCH_REQUEST_SIZE / 1024 / 1024}MB in total. Split the files into smaller batches.`, 413, "FILE_TOO_LARGE"));
+        return;
+      }
+      if (size <= limit) chunks.push(chunk);
+    });
+    file.stream.on("error", (error) => {
+      if (!failed) cb(error);
+      failed = true;
+    });
+    file.stream.on("end", () => {
+      if (failed) return;
+      // An oversized resume keeps its size but no content
+      cb(null, { buffer: size <= limit ? Buffer.concat(chunks) : Buffer.alloc(0), size });
+    });
+  },
+  _removeFile(_req, file, cb) {
+    file.buffer = Buffer.alloc(0);
+    cb(null);
+  },
+};
+
+// Resumes in a ZIP upload, unpacked one at a time with the size limit enforced while inflating;
+// entries past `limit` are skipped unread so an archive cannot fan out into unbounded work
+async function extractZipEntries(zipFile: ResumeUpload, skipped: SkippedFile[], limit: number): Promise<ResumeUpload[]> {
+  const directory = readZipDirectory(zipFile.buffer);
+  if (!directory) {
+    skipped.push({ filename: zipFile.originalname, reason: "Could not read the ZIP archive" });
+    return [];
+  }
+
+  const entries: ResumeUpload[] = [];
+  for (const entry of directory) {
+    const basename = path.basename(entry.name);
+    // Skip folders, macOS resource forks and hidden files that archivers add
+    if (entry.name.endsWith("/") || entry.name.startsWith("__MACOSX/") || basename.startsWith(".")) {
+      continue;
+    }
+    // Files inside a ZIP carry no MIME type, so it is inferred from the extension
+    const mimetype = mimeTypeFromFilename(basename);
+    if (!mimetype) {
+      skipped.push({ filename: entry.name, reason: `Unsupported file type. Only ${SUPPORTED_FORMATS_DESCRIPTION} files are analyzed.` });
+      continue;
+    }
+    if (entries.length >= limit) {
+      skipped.push({ filename: entry.name, reason: `Batches are limited to ${MAX_BATCH_FILES} resumes` });
+      continue;
+    }
+    let buffer: Buffer;
+    try {
+      buffer = readZipEntry(zipFile.buffer, entry, MAX_RESUME_SIZE);
+    } catch (error) {
+      const tooLarge = error instanceof DocumentError && error.code === "ARCHIVE_TOO_LARGE";
+      skipped.push({ filename: entry.name, reason: tooLarge ? "File is larger than 5MB" : "Could not read the file from the ZIP archive" });
+      continue;
+    }
+    entries.push({ buffer, mimetype, originalname: basename, size: buffer.length });
+  }
+  return entries;
+}
+
+// Flatten uploaded resumes and ZIP archives into the list of resumes to analyze
+export async function expandBatchUploads(uploads: ResumeUpload[]): Promise<{ files: ResumeUpload[]; skipped: SkippedFile[] }> {
+  const files: ResumeUpload[] = [];
+  const skipped: SkippedFile[] = [];
+
+  for (const upload of uploads) {
+    if (isZipUpload(upload)) {
+      files.push(...await extractZipEntries(upload, skipped, Math.max(0, MAX_BATCH_FILES - files.length)));
+    } else if (!isValidFileType(upload.mimetype, upload.originalname)) {
+      skipped.push({ filename: upload.originalname, reason: `Unsupported file type. Only ${SUPPORTED_FORMATS_DESCRIPTION} files are analyzed.` });
+    } else if (upload.size > MAX_RESUME_SIZE) {
+      skipped.push({ filename: upload.originalname, reason: "File is larger than 5MB" });
+    } else {
+      files.push(upload);
+    }
+  }
+
+  if (files.length > MAX_BATCH_FILES) {
+    files.splice(MAX_BATCH_FILES).forEach((file) => {
+      skipped.push({ filename: file.originalname, reason: `Batches are limited to ${MAX_BATCH_FILES} resumes` });
+    });
+  }
+  return { files, skipped };
+}
+
+export async function createAnalysisBatch(
+  files: ResumeUpload[],
+  skippedFiles: SkippedFile[],
+  jobDescription: string | undefined,
+  provider: LLMProvider,
+  owner: RecordOwner
+): Promise<{ batch: AnalysisBatch; jobs: AnalysisJob[] }> {
+  const batch = await storage.createAnalysisBatch({
+    ...ownerColumns(owner),
+    jobDescription: jobDescription ?? null,
+    fileCount: files.length,
+    skippedFiles,
+  });
+
+  const jobs: AnalysisJob[] = [];
+  for (const file of files) {
+    jobs.push(await enqueueAnalysisJob({ file, jobDescription, provider, owner }, batch.id));
+  }
+  console.log(`Queued batch ${batch.id} with ${jobs.length} resume(s), skipped ${skippedFiles.length}`);
+  return { batch, jobs };
+}
+
+function toResultRow(job: AnalysisJob): BatchResultRow {
+  const result = job.status === "completed" ? (job.result as Record<string, unknown> | null) : null;
+  const rejection = job.status === "failed" ? (job.result as DocumentClassification | null) : null;
+  const score = (key: string) => (result && typeof result[key] === "number" ? (result[key] as number) : null);
+  return {
+    jobId: job.id,
+    filename: job.filename,
+    status: job.status,
+    error: job.error,
+    analysisId: job.analysisId,
+    documentType: rejection?.type ?? null,
+    injectionFlagged: result?.promptInjection != null,
+    overallScore: score("overallScore"),
+    keywordsScore: score("keywordsScore"),
+    experienceScore: score("experienceScore"),
+    skillsScore: score("skillsScore"),
+    educationScore: score("educationScore"),
+    formattingScore: score("formattingScore"),
+  };
+}
+
+export function getBatchStatus(batch: AnalysisBatch, jobs: AnalysisJob[]): BatchStatus {
+  const results = jobs.map(toResultRow);
+  const completed = results.filter((row) => row.status === "completed").length;
+  const failed = results.filter((row) => row.status === "failed").length;
+  return {
+    batchId: batch.id,
+    createdAt: batch.createdAt,
+    hasJobDescription: !!batch.jobDescription,
+    fileCount: batch.fileCount,
+    completed,
+    failed,
+    pending: results.length - completed - failed,
+    done: completed + failed === results.length,
+    skippedFiles: batch.skippedFiles,
+    results,
+  };
+}
+
+// Quote every field, and neutralise values a spreadsheet would run as a formula
+function csvField(value: string | number | null): string {
+  let text = value === null ? "" : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+export function batchToCsv(status: BatchStatus): string {
+  const header = [
+    "Filename", "Status", "Overall", "Keywords", "Experience", "Skills", "Education", "Formatting", "Analysis ID", "Notes",
+  ];
+  const rows = status.results.map((row) => [
+    row.filename,
+    row.status,
+    row.overallScore,
+    row.keywordsScore,
+    row.experienceScore,
+    row.skillsScore,
+    row.educationScore,
+    row.formattingScore,
+    row.analysisId,
+    row.error ?? (row.injectionFlagged ? "Possible prompt injection" : ""),
+  ]);
+  status.skippedFiles.forEach((file) => {
+    rows.push([file.filename, "skipped", null, null, null, null, null, null, null, file.reason]);
+  });
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,114 @@
+import type { LLMProvider, LLMUsage, ProviderName } from "./llm";
+import { stripCodeFences } from "./analyzer";
+import { suggestBulletRewrites, RULES_MODEL } from "./ats-scorer";
+import { llmRewriteOutputSchema } from "./schema";
+
+// Stronger versions of experience bullets. The model is told to use bracketed
+// placeholders for figures it does not know; any number it adds anyway is flagged
+// so the candidate can check it before copying the rewrite into their resume.
+
+const SUGGESTIONS_PER_BULLET = 3;
+const MAX_JOB_DESCRIPTION_LENGTH = 10000;
+
+export interface RewriteSuggestion {
+  text: string;
+  // Numbers in the rewrite that the original bullet does not contain
+  inventedNumbers: string[];
+  // Whether the rewrite has [placeholders] the candidate still needs to fill in
+  hasPlaceholders: boolean;
+}
+
+export interface BulletRewrite {
+  original: string;
+  suggestions: RewriteSuggestion[];
+}
+
+export interface BulletRewriteResult {
+  rewrites: BulletRewrite[];
+  provider: ProviderName;
+  model: string;
+  usage?: LLMUsage;
+}
+
+const REWRITE_PROMPT = `You are an expert resume writer. Rewrite each resume bullet point below into ${SUGGESTIONS_PER_BULLET} stronger alternatives. Each alternative must:
+- start with a strong action verb
+- keep every fact from the original and add no new facts
+- show impact; where a figure would help but is not in the original, write a placeholder in square brackets such as [X]%, [N] users or $[Y] instead of inventing a number
+- stay under 30 words
+
+Return a JSON object with the key "rewrites": an array with exactly one entry per bullet, in the same order, each an object with the key "suggestions" (array of ${SUGGESTIONS_PER_BULLET} strings).`;
+
+function buildRewritePrompt(bullets: string[], jobDescription?: string): string {
+  const numbered = bullets.map((bullet, index) => `${index + 1}. ${bullet}`).join("\n");
+  const jd = jobDescription?.trim();
+  const context = jd
+    ? `\n\nWhere it stays truthful, use the vocabulary of this job description:\n${jd.slice(0, MAX_JOB_DESCRIPTION_LENGTH)}`
+    : "";
+  return `${REWRITE_PROMPT}${context}\n\nBullets:\n${numbered}`;
+}
+
+function numbersIn(text: string): string[] {
+  // Placeholders such as [X]% or [10-20] are for the candidate to fill in, not claims
+  return text.replace(/\[[^\]]*\]/g, " ").match(/\d+(?:[.,]\d+)*(?:[kmb]\b)?/gi) ?? [];
+}
+
+function toSuggestion(original: string, text: string): RewriteSuggestion {
+  const known = new Set(numbersIn(original));
+  return {
+    text,
+    inventedNumbers: Array.from(new Set(numbersIn(text).filter((number) => !known.has(number)))),
+    hasPlaceholders: /\[[^\]]+\]/.test(text),
+  };
+}
+
+function ruleBasedRewrite(bullet: string): BulletRewrite {
+  return { original: bullet, suggestions: suggestBulletRewrites(bullet).map((text) => toSuggestion(bullet, text)) };
+}
+
+export async function rewriteBullets(
+  bullets: string[],
+  provider: LLMProvider,
+  jobDescription?: string
+): Promise<BulletRewriteResult> {
+  // One bullet per line, as the local provider expects
+  const normalized = bullets.map((bullet) => bullet.replace(/\s+/g, " ").trim());
+  const ruleBased = (): BulletRewriteResult => ({
+    rewrites: normalized.map(ruleBasedRewrite),
+    provider: "local",
+    model: RULES_MODEL,
+  });
+
+  if (!provider.isConfigured()) {
+    console.warn(`${provider.name} provider not configured, returning rule-based rewrites`);
+    return ruleBased();
+  }
+
+  try {
+    const response = await provider.complete({
+      task: "rewrite",
+      prompt: buildRewritePrompt(normalized, jobDescription),
+      document: normalized.join("\n"),
+      jobDescription,
+      json: true,
+    });
+    const parsed = llmRewriteOutputSchema.safeParse(JSON.parse(stripCodeFences(response.text)));
+    if (!parsed.success) {
+      throw new Error(parsed.error.issues.map((issue) => issue.message).join("; "));
+    }
+
+    const rewrites = normalized.map((bullet, index) => {
+      const suggestions = (parsed.data.rewrites[index]?.suggestions ?? [])
+        .map((text) => text.trim())
+        .filter(Boolean)
+        .slice(0, SUGGESTIONS_PER_BULLET);
+      // Fill gaps in the model's answer rather than returning a bullet with nothing to offer
+      return suggestions.length > 0
+        ? { original: bullet, suggestions: suggestions.map((text) => toSuggestion(bullet, text)) }
+        : ruleBasedRewrite(bullet);
+    });
+    return { rewrites, provider: response.provider, model: response.model, usage: response.usage };
+  } catch (error) {
+    console.error(`Error rewriting bullets with ${provider.name}, using rule-based rewrites:`, error);
+    return ruleBased();
+  }
+}
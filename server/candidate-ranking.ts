@@ -0,0 +1,179 @@
+import { storage } from "./storage";
+import { matchRequirement } from "./ats-scorer";
+import { AnalysisError, canAccess } from "./analysis-pipeline";
+import type {
+  Opening,
+  OpeningCandidate,
+  InsertOpeningCandidate,
+  RecordOwner,
+  ResumeAnalysis,
+  CandidateRequirementMatches,
+} from "./schema";
+
+// Fit of an analyzed resume against a recruiter's opening. Must-haves weigh more than
+// nice-to-haves, a partial match earns half credit, and the resume's overall ATS score
+// breaks ties between candidates who cover the same requirements.
+
+const MUST_HAVE_WEIGHT = 0.65;
+const NICE_TO_HAVE_WEIGHT = 0.2;
+const RESUME_QUALITY_WEIGHT = 0.15;
+// Each must-have with no evidence at all caps the fit, so a strong resume can't hide a missing essential
+const MISSING_MUST_HAVE_CAP = 15;
+
+const REQUIREMENT_CREDIT = { met: 1, partial: 0.5, missing: 0 } as const;
+
+export interface RankedCandidate {
+  id: number;
+  rank: number;
+  analysisId: number;
+  filename: string;
+  overallScore: number;
+  fitScore: number;
+  overrideScore: number | null;
+  overrideNote: string | null;
+  // Override when a recruiter set one, otherwise the computed fit
+  effectiveScore: number;
+  requirementMatches: CandidateRequirementMatches;
+  explanation: string;
+  // The resume contains text addressed to AI screeners
+  injectionFlagged: boolean;
+  createdAt: Date;
+}
+
+function coverage(matches: CandidateRequirementMatches["mustHave"]): number {
+  if (matches.length === 0) return 1;
+  return matches.reduce((sum, match) => sum + REQUIREMENT_CREDIT[match.status], 0) / matches.length;
+}
+
+function describe(matches: CandidateRequirementMatches["mustHave"], label: string): string | null {
+  if (matches.length === 0) return null;
+  const met = matches.filter((match) => match.status === "met").length;
+  const partial = matches.filter((match) => match.status === "partial").length;
+  return `${met} of ${matches.length} ${label}${partial > 0 ? ` (${partial} more partially)` : ""}`;
+}
+
+function explain(matches: CandidateRequirementMatches, overallScore: number, fitScore: number): string {
+  const parts = [describe(matches.mustHave, "must-haves"), describe(matches.niceToHave, "nice-to-haves")]
+    .filter((part): part is string => part !== null);
+  const summary = parts.length > 0
+    ? `meets ${parts.join(" and ")}`
+    : "no requirements listed, so ranked on resume quality alone";
+  let explanation = `Fit ${fitScore}/100: ${summary}; ATS score ${overallScore}/100.`;
+
+  const missingMustHaves = matches.mustHave.filter((match) => match.status === "missing");
+  if (missingMustHaves.length > 0) {
+    explanation += ` Missing must-haves: ${missingMustHaves.map((match) => match.requirement).join("; ")}.`;
+  }
+  return explanation;
+}
+
+// Score one analyzed resume against the opening, ready to store as an opening candidate
+export function evaluateCandidate(
+  opening: Opening,
+  analysis: ResumeAnalysis & { resumeText: string }
+): Omit<InsertOpeningCandidate, "openingId" | "analysisId" | "overrideScore" | "overrideNote"> {
+  const matches: CandidateRequirementMatches = {
+    mustHave: opening.mustHaveRequirements.map((requirement) => matchRequirement(analysis.resumeText, requirement)),
+    niceToHave: opening.niceToHaveRequirements.map((requirement) => matchRequirement(analysis.resumeText, requirement)),
+  };
+
+  // Spread the weight of an empty requirement list over the rest
+  const weights = [
+    { weight: matches.mustHave.length > 0 ? MUST_HAVE_WEIGHT : 0, value: coverage(matches.mustHave) },
+    { weight: matches.niceToHave.length > 0 ? NICE_TO_HAVE_WEIGHT : 0, value: coverage(matches.niceToHave) },
+    { weight: RESUME_QUALITY_WEIGHT, value: analysis.overallScore / 100 },
+  ];
+  const totalWeight = weights.reduce((sum, part) => sum + part.weight, 0);
+  let fitScore = Math.round((weights.reduce((sum, part) => sum + part.weight * part.value, 0) / totalWeight) * 100);
+
+  const missingMustHaves = matches.mustHave.filter((match) => match.status === "missing").length;
+  if (missingMustHaves > 0) {
+    fitScore = Math.min(fitScore, 100 - missingMustHaves * MISSING_MUST_HAVE_CAP);
+  }
+  fitScore = Math.max(0, Math.min(100, fitScore));
+
+  return {
+    fitScore,
+    requirementMatches: matches,
+    explanation: explain(matches, analysis.overallScore, fitScore),
+  };
+}
+
+// Order candidates by effective score, breaking ties on the resume's ATS score and then on who was added first
+export function rankCandidates(
+  candidates: OpeningCandidate[],
+  analyses: Map<number, ResumeAnalysis>
+): RankedCandidate[] {
+  const ranked = candidates.map((candidate) => {
+    const analysis = analyses.get(candidate.analysisId);
+    return {
+      id: candidate.id,
+      rank: 0,
+      analysisId: candidate.analysisId,
+      filename: analysis?.filename ?? `Analysis #${candidate.analysisId}`,
+      overallScore: analysis?.overallScore ?? 0,
+      fitScore: candidate.fitScore,
+      overrideScore: candidate.overrideScore,
+      overrideNote: candidate.overrideNote,
+      effectiveScore: candidate.overrideScore ?? candidate.fitScore,
+      requirementMatches: candidate.requirementMatches,
+      explanation: candidate.explanation,
+      injectionFlagged: analysis?.promptInjection != null,
+      createdAt: candidate.createdAt,
+    };
+  });
+
+  ranked.sort((a, b) =>
+    b.effectiveScore - a.effectiveScore ||
+    b.overallScore - a.overallScore ||
+    a.createdAt.getTime() - b.createdAt.getTime()
+  );
+  ranked.forEach((candidate, index) => {
+    candidate.rank = index + 1;
+  });
+  return ranked;
+}
+
+export async function getRankedCandidates(openingId: number): Promise<RankedCandidate[]> {
+  const candidates = await storage.getOpeningCandidates(openingId);
+  const analyses = new Map<number, ResumeAnalysis>();
+  for (const candidate of candidates) {
+    const analysis = await storage.getResumeAnalysis(candidate.analysisId);
+    if (analysis) analyses.set(analysis.id, analysis);
+  }
+  return rankCandidates(candidates, analyses);
+}
+
+// Attach a stored analysis to the opening; throws AnalysisError with the status to respond with
+export async function attachCandidate(opening: Opening, analysisId: number, owner: RecordOwner | null): Promise<OpeningCandidate> {
+  const analysis = await storage.getResumeAnalysis(analysisId);
+  if (!analysis || !canAccess(analysis, owner)) {
+    throw new AnalysisError("Analysis not found", 404);
+  }
+  if (!analysis.resumeText) {
+    throw new AnalysisError("This analysis has no stored resume text. Re-analyze the resume to rank it against openings.", 422);
+  }
+  if (await storage.getOpeningCandidateByAnalysis(opening.id, analysisId)) {
+    throw new AnalysisError("This resume is already attached to the opening", 409);
+  }
+
+  return storage.createOpeningCandidate({
+    openingId: opening.id,
+    analysisId,
+    ...evaluateCandidate(opening, { ...analysis, resumeText: analysis.resumeText }),
+  });
+}
+
+// Recompute every candidate's fit after the opening's requirements change; overrides are kept
+export async function reevaluateCandidates(opening: Opening): Promise<void> {
+  const candidates = await storage.getOpeningCandidates(opening.id);
+  for (const candidate of candidates) {
+    const analysis = await storage.getResumeAnalysis(candidate.analysisId);
+    if (analysis?.resumeText) {
+      await storage.updateOpeningCandidate(
+        candidate.id,
+        evaluateCandidate(opening, { ...analysis, resumeText: analysis.resumeText })
+      );
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import type { ChatConversation, ChatMessage, ChatOwner, PublicChatConversation, User } from "./schema";
+
+// Stored career assistant conversations. They belong to the signed-in user or, for
+// anonymous visitors, to the browser session, and are deleted once they have been
+// inactive for longer than the owner's retention period.
+
+declare module "express-session" {
+  interface SessionData {
+    // Set once an anonymous visitor starts a conversation, so the session is kept
+    chatStarted?: boolean;
+  }
+}
+
+// Anonymous sessions last 30 days, after which their conversations cannot be reached anyway
+const ANONYMOUS_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const MAX_TITLE_LENGTH = 60;
+
+let sweepTimer: NodeJS.Timeout | null = null;
+
+export function getChatOwner(req: Request): ChatOwner {
+  return req.isAuthenticated() ? { userId: req.user.id } : { sessionId: req.sessionID };
+}
+
+// Sessions are only stored once they hold something; call before the response headers are sent
+export function keepChatSession(req: Request): void {
+  if (!req.isAuthenticated()) {
+    req.session.chatStarted = true;
+  }
+}
+
+// Days of inactivity before a conversation is deleted; null keeps it until the user deletes it
+export function getChatRetentionDays(req: Request): number | null {
+  return req.isAuthenticated() ? req.user.chatRetentionDays : ANONYMOUS_RETENTION_DAYS;
+}
+
+export function chatExpiry(retentionDays: number | null, from = new Date()): Date | null {
+  return retentionDays === null ? null : new Date(from.getTime() + retentionDays * DAY_MS);
+}
+
+// Expired conversations count as gone even before the sweep deletes them
+export function ownsConversation(owner: ChatOwner, conversation: ChatConversation, now = new Date()): boolean {
+  if (conversation.expiresAt && conversation.expiresAt < now) return false;
+  return "userId" in owner ? conversation.userId === owner.userId : conversation.sessionId === owner.sessionId;
+}
+
+// Without the owner, since the session id is what authenticates an anonymous visitor
+export function toPublicConversation(conversation: ChatConversation): PublicChatConversation {
+  const { userId: _userId, sessionId: _sessionId, ...publicConversation } = conversation;
+  return publicConversation;
+}
+
+export function conversationTitle(firstMessage: string): string {
+  const text = firstMessage.replace(/\s+/g, " ").trim();
+  return text.length <= MAX_TITLE_LENGTH ? text : `${text.slice(0, MAX_TITLE_LENGTH - 3).trimEnd()}...`;
+}
+
+function formatTimestamp(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+export function conversationToMarkdown(conversation: ChatConversation, messages: ChatMessage[]): string {
+  const lines = [
+    `# ${conversation.title}`,
+    "",
+    `Career assistant conversation from HireIndex, started ${formatTimestamp(conversation.createdAt)}.`,
+  ];
+  messages.forEach((message) => {
+    lines.push("", `**${message.role === "user" ? "You" : "Assistant"}** (${formatTimestamp(message.createdAt)}):`, "", message.content);
+    if (message.actions && message.actions.length > 0) {
+      lines.push("", `_Suggested: ${message.actions.map((action) => action.label).join(", ")}_`);
+    }
+  });
+  return `${lines.join("\n")}\n`;
+}
+
+// Conversations started before signing in move to the account, under its retention setting
+export async function adoptAnonymousChats(sessionId: string | null, user: User): Promise<void> {
+  if (!sessionId) return;
+  try {
+    const claimed = await storage.claimChatConversations(sessionId, user.id);
+    if (claimed > 0) {
+      await storage.setChatConversationsExpiry({ userId: user.id }, user.chatRetentionDays);
+    }
+  } catch (error) {
+    // Signing in still works; the conversations stay with the old session until they expire
+    console.error("Error moving chat conversations to the signed-in user:", error);
+  }
+}
+
+async function deleteExpiredChats(): Promise<void> {
+  try {
+    const deleted = await storage.deleteExpiredChatConversations(new Date());
+    if (deleted > 0) {
+      console.log(`Deleted ${deleted} expired chat conversation(s)`);
+    }
+  } catch (error) {
+    console.error("Error deleting expired chat conversations:", error);
+  }
+}
+
+export function startChatRetentionSweep(): void {
+  if (sweepTimer) return;
+  sweepTimer = setInterval(() => void deleteExpiredChats(), SWEEP_INTERVAL_MS);
+  sweepTimer.unref();
+  void deleteExpiredChats();
+}
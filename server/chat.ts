@@ -0,0 +1,152 @@
+import type { LLMProvider, LLMUsage, ProviderName } from "./llm";
+import { RULES_MODEL } from "./ats-scorer";
+import { UNTRUSTED_CONTENT_RULES, delimitUntrusted } from "./prompt-injection";
+import type { ChatAction, ChatMessage, ResumeAnalysis } from "./schema";
+
+// Career assistant behind the chat widget. The model sees the recent conversation
+// and, when there is one, the user's latest resume analysis, so it can answer
+// questions such as "why is my formatting score low?" from the actual results.
+
+// Messages of the conversation sent to the model; older ones are dropped
+const MAX_HISTORY_MESSAGES = 20;
+const MAX_RESUME_CONTEXT_LENGTH = 6000;
+
+// Only the parts of a stored message the assistant reads
+export type ChatTurn = Pick<ChatMessage, "role" | "content">;
+
+export interface ChatReply {
+  reply: string;
+  actions: ChatAction[];
+  provider: ProviderName;
+  model: string;
+  usage?: LLMUsage;
+}
+
+const CHAT_PROMPT = `You are the career assistant of HireIndex, a resume ATS checker. Help the candidate with their resume, ATS compatibility, job search and interviews.
+- Be concise: at most 150 words unless the candidate asks for more detail
+- When the candidate's latest resume analysis is provided, ground your answers in its scores, feedback and suggestions and refer to them specifically
+- Never invent facts about the candidate's experience; if you need details, ask
+- If there is no analysis and the question is about their resume, suggest uploading it to the HireIndex analyzer
+- Answer in plain text without Markdown headings`;
+
+function formatAnalysisContext(analysis: ResumeAnalysis): string {
+  const feedback = analysis.feedback as Record<string, string>;
+  const suggestions = analysis.improvementSuggestions as string[];
+  const lines = [
+    `File: ${analysis.filename} (analyzed ${analysis.createdAt.toISOString().slice(0, 10)})`,
+    `Overall score: ${analysis.overallScore}/100`,
+    `Keywords: ${analysis.keywordsScore}/100 - ${feedback.keywords ?? ""}`,
+    `Experience: ${analysis.experienceScore}/100 - ${feedback.experience ?? ""}`,
+    `Skills: ${analysis.skillsScore}/100 - ${feedback.skills ?? ""}`,
+    `Education: ${analysis.educationScore}/100 - ${feedback.education ?? ""}`,
+    `Formatting: ${analysis.formattingScore}/100 - ${feedback.formatting ?? ""}`,
+    `Suggestions: ${suggestions.join(" | ")}`,
+  ];
+  if (analysis.resumeText) {
+    lines.push(`Resume text:\n${delimitUntrusted("resume", analysis.resumeText.slice(0, MAX_RESUME_CONTEXT_LENGTH))}`);
+  }
+  return lines.join("\n");
+}
+
+function buildChatPrompt(messages: ChatTurn[], analysis: ResumeAnalysis | null): string {
+  const context = analysis
+    ? `${UNTRUSTED_CONTENT_RULES}\n\nThe candidate's latest resume analysis:\n${formatAnalysisContext(analysis)}`
+    : "The candidate has not analyzed a resume yet.";
+  const transcript = messages
+    .map((message) => `${message.role === "user" ? "Candidate" : "Assistant"}: ${message.content}`)
+    .join("\n\n");
+  return `${CHAT_PROMPT}\n\n${context}\n\nConversation:\n${transcript}\n\nAssistant:`;
+}
+
+// Canned answers for when no model is available, chosen by what the message is about
+export function ruleBasedChatReply(message: string, analysis: ResumeAnalysis | null = null): string {
+  const input = message.toLowerCase();
+  if (analysis && /\b(score|scores|analysis|result|results|feedback|improve|fix|why)\b/.test(input)) {
+    const categories: [string, number][] = [
+      ["keywords", analysis.keywordsScore],
+      ["experience", analysis.experienceScore],
+      ["skills", analysis.skillsScore],
+      ["education", analysis.educationScore],
+      ["formatting", analysis.formattingScore],
+    ];
+    const [weakest, weakestScore] = categories.reduce((lowest, category) => (category[1] < lowest[1] ? category : lowest));
+    const suggestion = (analysis.improvementSuggestions as string[])[0];
+    return `Your latest resume, ${analysis.filename}, scored ${analysis.overallScore}/100. The weakest area is ${weakest} at ${weakestScore}/100.${suggestion ? ` The first thing to change: ${suggestion}` : ""}`;
+  }
+  if (/\b(resume|cv|upload|analy[sz]e)\b/.test(input)) {
+    return "Upload your resume to the analyzer and I'll be able to talk through its scores with you. It checks keywords, experience, skills, education and formatting the way an ATS would, and you can add a job description to score against a specific posting.";
+  }
+  if (/\b(ats|tracking|keyword|keywords|format|formatting)\b/.test(input)) {
+    return "To get through an ATS: use the exact keywords from the job description, keep standard section headings such as Experience, Education and Skills, stick to a single-column layout without tables or text in images, and put your contact details in the body rather than the header.";
+  }
+  if (/\b(interview|interviews)\b/.test(input)) {
+    return "Prepare three or four stories about your strongest results using the STAR format (situation, task, action, result), research the company's products and recent news, and have two or three questions ready about the team and how success is measured.";
+  }
+  if (/\b(job|jobs|search|apply|application|applications)\b/.test(input)) {
+    return "Tailor your resume to each posting rather than sending one version everywhere: mirror the posting's keywords, lead with the experience it asks for, and keep a list of where you applied so you can follow up after a week.";
+  }
+  return "I can help with your resume, ATS compatibility, job search strategy and interview preparation. What would you like to work on?";
+}
+
+// Follow-up actions offered under the reply
+function suggestActions(message: string, analysis: ResumeAnalysis | null): ChatAction[] {
+  const input = message.toLowerCase();
+  if (!analysis) {
+    return [
+      { type: "upload_resume", label: "Analyze my resume" },
+      { type: "ask", label: "ATS tips", message: "What are the most important ATS tips?" },
+    ];
+  }
+  const actions: ChatAction[] = [
+    { type: "open_analysis", label: "Open my latest analysis", analysisId: analysis.id },
+  ];
+  if (/\b(upload|new|another|updated|again)\b/.test(input)) {
+    actions.push({ type: "upload_resume", label: "Analyze a new version" });
+  } else {
+    actions.push({ type: "ask", label: "What should I fix first?", message: "What should I fix first on my resume?" });
+  }
+  actions.push({ type: "open_dashboard", label: "Score history" });
+  return actions;
+}
+
+export async function answerChat(
+  messages: ChatTurn[],
+  analysis: ResumeAnalysis | null,
+  provider: LLMProvider,
+  onText: (delta: string) => void
+): Promise<ChatReply> {
+  const history = messages.slice(-MAX_HISTORY_MESSAGES);
+  const lastMessage = history[history.length - 1].content;
+  const actions = suggestActions(lastMessage, analysis);
+  const ruleBased = (): ChatReply => {
+    const reply = ruleBasedChatReply(lastMessage, analysis);
+    onText(reply);
+    return { reply, actions, provider: "local", model: RULES_MODEL };
+  };
+
+  if (!provider.isConfigured()) {
+    console.warn(`${provider.name} provider not configured, returning a rule-based chat reply`);
+    return ruleBased();
+  }
+  // The local provider only sees the last message, while the canned reply here can also read the analysis
+  if (provider.name === "local") {
+    return ruleBased();
+  }
+
+  let streamed = false;
+  try {
+    const response = await provider.stream(
+      { task: "chat", prompt: buildChatPrompt(history, analysis), document: lastMessage },
+      (delta) => {
+        streamed = true;
+        onText(delta);
+      }
+    );
+    return { reply: response.text.trim(), actions, provider: response.provider, model: response.model, usage: response.usage };
+  } catch (error) {
+    // Text already sent cannot be taken back, so only a reply that never started falls back
+    if (streamed) throw error;
+    console.error(`Error answering chat with ${provider.name}, using a rule-based reply:`, error);
+    return ruleBased();
+  }
+}
@@ -0,0 +1,477 @@
+import type { LLMProvider, LLMUsage, ProviderName } from "./llm";
+import { stripCodeFences } from "./analyzer";
+import { matchJobDescription, RULES_MODEL } from "./ats-scorer";
+import { parseResume } from "./resume-parser";
+import { UNTRUSTED_CONTENT_RULES, delimitUntrusted } from "./prompt-injection";
+import { llmCoverLetterOutputSchema, type CoverLetterFeedback, type LlmCoverLetterOutput, type ResumeProfile } from "./schema";
+
+// Cover letter analysis and drafting. A letter is scored for personalization,
+// structure and length, and for alignment when a job description is supplied.
+// Drafts are written from the candidate's parsed resume and the posting, with
+// [placeholders] wherever the resume does not say what belongs there.
+
+export interface CoverLetterScores {
+  overallScore: number;
+  personalizationScore: number;
+  structureScore: number;
+  lengthScore: number;
+  // Null without a job description to align with
+  alignmentScore: number | null;
+}
+
+export interface CoverLetterAnalysisResult extends CoverLetterScores {
+  wordCount: number;
+  feedback: CoverLetterFeedback;
+  improvementSuggestions: string[];
+  provider?: ProviderName;
+  model?: string;
+  usage?: LLMUsage;
+}
+
+export interface CoverLetterDraft {
+  draft: string;
+  // Whether the draft has [placeholders] the candidate still needs to fill in
+  hasPlaceholders: boolean;
+  provider: ProviderName;
+  model: string;
+  usage?: LLMUsage;
+}
+
+// Weights of the categories in the overall score; without a job description alignment is left out
+const CATEGORY_WEIGHTS = {
+  personalization: 0.3,
+  structure: 0.25,
+  length: 0.15,
+  alignment: 0.3,
+};
+
+// Most hiring managers expect a letter that fits on one page
+const IDEAL_MIN_WORDS = 250;
+const IDEAL_MAX_WORDS = 400;
+const MAX_PARAGRAPH_WORDS = 150;
+const MAX_JOB_DESCRIPTION_LENGTH = 10000;
+const MAX_RESUME_LENGTH = 8000;
+const MAX_SUGGESTIONS = 5;
+
+const GREETING = /^(dear|hello|hi|greetings|to whom it may concern)\b/i;
+const GENERIC_GREETING = /^(to whom it may concern|dear\s+(sir|madam|sir or madam|sir\/madam|hiring manager|hiring team|recruiter|recruiting team|recruitment team|team|applicant|colleague)s?\b)/i;
+const SIGN_OFF = /^(sincerely|best regards|kind regards|warm regards|regards|best|respectfully|thank you|thanks|yours (truly|sincerely|faithfully)|with appreciation)[,.!]?$/i;
+const CALL_TO_ACTION = /\b(interview|discuss|conversation|speak with you|talk with you|hear from you|look forward|welcome the (chance|opportunity)|available to)\b/i;
+const QUANTIFIED = /\$\s?\d|\d+(?:\.\d+)?\s?(?:%|percent\b|x\b|k\b|million\b)|\b\d+\+?\s+(?:users|customers|clients|people|engineers|developers|projects|members|reports|accounts|stores|countries|hours|days|weeks|months)\b/i;
+const BULLET = /^\s*[-•*▪●◦‣–]\s+/;
+const ROLE_WORDS = /\b(engineer|developer|manager|analyst|designer|scientist|specialist|coordinator|consultant|director|lead|architect|administrator|associate|representative|accountant|nurse|teacher|writer|intern|officer|assistant|technician|researcher|recruiter)\b/i;
+const NOT_COMPANY = new Set(["us", "you", "we", "our", "the", "this", "the role", "the team", "the company", "the position", "our team", "our company"]);
+
+// Stock phrases that make a letter read like every other one
+const GENERIC_PHRASES: Array<[RegExp, string]> = [
+  [/\bI am writing to (apply|express)/i, "I am writing to apply"],
+  [/\bto whom it may concern\b/i, "To whom it may concern"],
+  [/\b(perfect|ideal|great) (fit|candidate)\b/i, "perfect fit"],
+  [/\bteam player\b/i, "team player"],
+  [/\bhard[- ]?working\b/i, "hard-working"],
+  [/\bdetail[- ]oriented\b/i, "detail-oriented"],
+  [/\bself[- ]starter\b/i, "self-starter"],
+  [/\bresults[- ]driven\b/i, "results-driven"],
+  [/\bthink outside the box\b/i, "think outside the box"],
+  [/\bgo[- ]getter\b/i, "go-getter"],
+];
+
+const COVER_LETTER_PROMPT = `You are an experienced recruiter reviewing a cover letter. Score it realistically: most decent letters score between 55 and 85.
+
+Score each category out of 100:
+- personalization: addressed to a person, names the company and the role, says why this company, backs claims with specific achievements instead of stock phrases
+- structure: greeting, an opening that states the role, 2-3 body paragraphs with evidence, a closing with a call to action, a sign-off
+- length: ${IDEAL_MIN_WORDS}-${IDEAL_MAX_WORDS} words is ideal; penalize letters much shorter or longer and paragraphs that run on
+- alignment: only when a job description is provided, how directly the letter addresses the posting's requirements and uses its vocabulary; otherwise null
+
+Return a JSON object with these keys:
+- overallScore
+- personalizationScore
+- structureScore
+- lengthScore
+- alignmentScore (null without a job description)
+- feedback (object with keys: personalization, structure, length, alignment; 1-2 sentences each, alignment null without a job description)
+- improvementSuggestions (array of 3-5 actionable suggestions)`;
+
+const DRAFT_PROMPT = `You are an expert career writer. Write a cover letter for the candidate whose resume is below, applying to the job description below.
+- ${IDEAL_MIN_WORDS}-${IDEAL_MAX_WORDS} words: a greeting, an opening that names the role and company, two body paragraphs connecting the candidate's real experience to the posting's main requirements, a closing that asks for an interview, and a sign-off with the candidate's name
+- Use only facts from the resume; never invent employers, titles, numbers or skills
+- Where something is not known, such as the hiring manager's name or why the candidate wants this company, write a placeholder in square brackets such as [Hiring Manager] or [what draws you to the company]
+- Avoid stock phrases such as "I am writing to apply", "team player" or "perfect fit"
+- Return only the letter as plain text`;
+
+function clampScore(score: number): number {
+  return Math.max(0, Math.min(100, Math.round(score)));
+}
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter((word) => /[a-z0-9]/i.test(word)).length;
+}
+
+export function computeCoverLetterOverall(scores: Omit<CoverLetterScores, "overallScore">): number {
+  const parts: Array<[number, number]> = [
+    [scores.personalizationScore, CATEGORY_WEIGHTS.personalization],
+    [scores.structureScore, CATEGORY_WEIGHTS.structure],
+    [scores.lengthScore, CATEGORY_WEIGHTS.length],
+  ];
+  if (scores.alignmentScore !== null) {
+    parts.push([scores.alignmentScore, CATEGORY_WEIGHTS.alignment]);
+  }
+  const totalWeight = parts.reduce((sum, [, weight]) => sum + weight, 0);
+  return clampScore(parts.reduce((sum, [score, weight]) => sum + score * weight, 0) / totalWeight);
+}
+
+function paragraphsOf(text: string): string[] {
+  const blocks = text.split(/\n\s*\n/).map((block) => block.replace(/\s+/g, " ").trim()).filter(Boolean);
+  if (blocks.length > 1) return blocks;
+  // Extracted text often loses the blank lines between paragraphs
+  return text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+}
+
+// Employer named in a posting, e.g. "About Acme:", "join Acme" or "Acme is hiring"
+export function companyFromJobDescription(jobDescription: string): string | null {
+  const name = "([A-Z][\\w&.'-]*(?:\\s+[A-Z][\\w&.'-]*){0,2})";
+  const patterns = [
+    new RegExp(`\\bAbout\\s+${name}\\s*[:\\n]`),
+    new RegExp(`\\b(?:[Aa]t|[Jj]oin)\\s+${name}`),
+    new RegExp(`^${name}\\s+is\\s+(?:a|an|the|hiring|looking|seeking)\\b`, "m"),
+  ];
+  for (let i = 0; i < patterns.length; i++) {
+    const match = jobDescription.match(patterns[i]);
+    const candidate = match?.[1].replace(/[.,']+$/, "");
+    if (candidate && !NOT_COMPANY.has(candidate.toLowerCase())) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+// The position a posting is for: a "Job Title:" line, or a short line near the top naming a role
+export function roleFromJobDescription(jobDescription: string): string | null {
+  const lines = jobDescription.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  const labelled = lines.find((line) => /^(job title|title|position|role)\s*:/i.test(line));
+  if (labelled) {
+    return labelled.replace(/^[^:]*:\s*/, "").trim() || null;
+  }
+  const heading = lines.slice(0, 5).find((line) => line.split(/\s+/).length <= 8 && ROLE_WORDS.test(line));
+  return heading?.replace(/^(we are hiring|hiring|now hiring)\s*(an?\s+)?:?\s*/i, "").replace(/[.!:]+$/, "") ?? null;
+}
+
+function mentions(text: string, phrase: string): boolean {
+  const core = phrase.replace(/^(senior|junior|sr\.?|jr\.?|lead|principal|staff)\s+/i, "").toLowerCase();
+  return text.toLowerCase().includes(core);
+}
+
+export function scoreCoverLetter(text: string, jobDescription?: string): CoverLetterAnalysisResult {
+  const jd = jobDescription?.trim();
+  const wordCount = countWords(text);
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  const paragraphs = paragraphsOf(text);
+  const suggestions: string[] = [];
+
+  const greeting = lines.slice(0, 6).find((line) => GREETING.test(line));
+  const genericGreeting = greeting ? GENERIC_GREETING.test(greeting) : false;
+  const signOffIndex = lines.findIndex((line, index) => index >= lines.length - 6 && SIGN_OFF.test(line));
+  // Body paragraphs: everything between the greeting and the sign-off that reads as prose
+  const body = paragraphs.filter((paragraph) =>
+    !GREETING.test(paragraph) && !SIGN_OFF.test(paragraph) && countWords(paragraph) >= 8
+  );
+
+  // Personalization: a named reader, the company and role, specific evidence, no stock phrases
+  const company = jd ? companyFromJobDescription(jd) : null;
+  const role = jd ? roleFromJobDescription(jd) : null;
+  const mentionsCompany = company
+    ? mentions(text, company)
+    : /\b(?:at|join|joining)\s+(?!the\b|a\b|an\b|this\b|your\b)[A-Z][\w&.'-]+/.test(text);
+  const mentionsRole = role
+    ? mentions(text, role)
+    : /\b(the|this|your)\s+(?:[A-Za-z/&-]+\s+){1,4}(position|role|opening)\b/i.test(text);
+  const quantified = QUANTIFIED.test(text);
+  const readerFocused = (text.match(/\b(you|your)\b/gi) ?? []).length >= 2;
+  const stockPhrases = GENERIC_PHRASES.filter(([pattern]) => pattern.test(text)).map(([, phrase]) => phrase);
+  const sentences = body.join(" ").split(/(?<=[.!?])\s+/).filter((sentence) => countWords(sentence) >= 3);
+  const iSentences = sentences.filter((sentence) => /^I\b/.test(sentence)).length;
+  const selfFocused = sentences.length >= 4 && iSentences / sentences.length > 0.5;
+
+  const personalizationScore = clampScore(
+    30 +
+    (greeting && !genericGreeting ? 15 : 0) +
+    (mentionsCompany ? 20 : 0) +
+    (mentionsRole ? 15 : 0) +
+    (quantified ? 15 : 0) +
+    (readerFocused ? 5 : 0) -
+    Math.min(stockPhrases.length, 3) * 8 -
+    (selfFocused ? 10 : 0)
+  );
+  const personalizationFeedback = [
+    greeting
+      ? genericGreeting ? `The greeting "${greeting}" is generic.` : "The letter is addressed to a person."
+      : "There is no greeting.",
+    `It ${mentionsCompany ? "names" : "does not name"} the company${company ? ` (${company})` : ""} and ${mentionsRole ? "names" : "does not name"} the role${role ? ` (${role})` : ""}.`,
+    quantified ? "It backs claims with specific results." : "No quantified achievement was found.",
+    stockPhrases.length ? `Stock phrases: ${stockPhrases.map((phrase) => `"${phrase}"`).join(", ")}.` : "",
+    selfFocused ? `${iSentences} of ${pluralize(sentences.length, "sentence")} start with "I".` : "",
+  ].filter(Boolean).join(" ");
+  if (!greeting || genericGreeting) {
+    suggestions.push("Address the letter to the hiring manager by name; the posting or the company's LinkedIn page usually says who leads the team.");
+  }
+  if (!mentionsCompany || !mentionsRole) {
+    suggestions.push(`Name the ${!mentionsRole ? "role" : "company"}${!mentionsRole && !mentionsCompany ? " and the company" : ""} in the opening paragraph and say what draws you to them.`);
+  }
+  if (!quantified) {
+    suggestions.push("Back up your strongest claim with a specific, quantified result from your resume.");
+  }
+  if (stockPhrases.length) {
+    suggestions.push(`Replace stock phrases such as "${stockPhrases[0]}" with a concrete example of what you did.`);
+  }
+  if (selfFocused) {
+    suggestions.push("Vary sentence openings and talk about what you can do for the team, not only about yourself.");
+  }
+
+  // Structure: greeting, an opening, body paragraphs, a call to action and a sign-off
+  const closing = body.slice(-2).join(" ");
+  const hasCallToAction = CALL_TO_ACTION.test(closing);
+  const bulletLines = lines.filter((line) => BULLET.test(line)).length;
+  const mostlyProse = bulletLines <= lines.length * 0.4;
+  const paragraphPoints = body.length >= 3 && body.length <= 5 ? 25 : body.length === 2 || body.length === 6 || body.length === 7 ? 12 : 0;
+  const structureScore = clampScore(
+    (greeting ? 20 : 0) +
+    (signOffIndex >= 0 ? 20 : 0) +
+    paragraphPoints +
+    (hasCallToAction ? 20 : 0) +
+    (mostlyProse ? 15 : 0)
+  );
+  const missingParts = [
+    !greeting && "a greeting",
+    signOffIndex < 0 && "a sign-off",
+    !hasCallToAction && "a closing call to action",
+  ].filter(Boolean);
+  const structureFeedback = [
+    `Found ${pluralize(body.length, "body paragraph")}${paragraphPoints === 25 ? "" : body.length < 3 ? ", fewer than the usual three to five" : ", more than the usual three to five"}.`,
+    missingParts.length ? `Missing ${missingParts.join(", ")}.` : "It has a greeting, a call to action and a sign-off.",
+    mostlyProse ? "" : "Most of the letter is bullet points rather than prose.",
+  ].filter(Boolean).join(" ");
+  if (!hasCallToAction) {
+    suggestions.push("Close by asking for the next step, e.g. \"I would welcome the chance to discuss how I can help your team.\"");
+  }
+  if (paragraphPoints < 25) {
+    suggestions.push("Organize the letter as an opening, two or three body paragraphs with evidence, and a short closing.");
+  }
+  if (!mostlyProse) {
+    suggestions.push("Write the letter as paragraphs; keep bullet points for your resume.");
+  }
+
+  // Length: one page, in paragraphs short enough to skim
+  const longParagraphs = body.filter((paragraph) => countWords(paragraph) > MAX_PARAGRAPH_WORDS).length;
+  const lengthBase = wordCount < 100 ? 15
+    : wordCount < 150 ? 35
+    : wordCount < 200 ? 60
+    : wordCount < IDEAL_MIN_WORDS ? 85
+    : wordCount <= IDEAL_MAX_WORDS ? 100
+    : wordCount <= 500 ? 85
+    : wordCount <= 650 ? 60
+    : 35;
+  const lengthScore = clampScore(lengthBase - Math.min(longParagraphs, 2) * 10);
+  const lengthFeedback = [
+    `${wordCount} words; ${IDEAL_MIN_WORDS}-${IDEAL_MAX_WORDS} is ideal.`,
+    longParagraphs ? `${pluralize(longParagraphs, "paragraph")} run${longParagraphs === 1 ? "s" : ""} over ${MAX_PARAGRAPH_WORDS} words.` : "",
+  ].filter(Boolean).join(" ");
+  if (wordCount < IDEAL_MIN_WORDS) {
+    suggestions.push(`Expand the letter to at least ${IDEAL_MIN_WORDS} words with one more example of relevant work.`);
+  } else if (wordCount > IDEAL_MAX_WORDS) {
+    suggestions.push(`Cut the letter to under ${IDEAL_MAX_WORDS} words; keep the two most relevant examples.`);
+  }
+
+  // Alignment: how much of the posting's vocabulary and requirements the letter addresses
+  let alignmentScore: number | null = null;
+  let alignmentFeedback: string | null = null;
+  if (jd) {
+    const match = matchJobDescription(text, jd);
+    const addressed = match.requirements.filter((requirement) => requirement.status !== "missing").length;
+    const addressedShare = match.requirements.length ? addressed / match.requirements.length : match.coverage;
+    alignmentScore = clampScore(10 + match.coverage * 60 + addressedShare * 40);
+    const keywordCount = match.matchedKeywords.length + match.missingKeywords.length;
+    alignmentFeedback = [
+      `The letter uses ${match.matchedKeywords.length} of ${keywordCount} key terms from the job description${match.missingKeywords.length ? `; missing: ${match.missingKeywords.slice(0, 5).join(", ")}` : ""}.`,
+      match.requirements.length ? `It touches on ${addressed} of ${pluralize(match.requirements.length, "requirement")}.` : "",
+    ].filter(Boolean).join(" ");
+    if (match.missingKeywords.length) {
+      suggestions.push(`Connect your experience to what the posting asks for, e.g. ${match.missingKeywords.slice(0, 3).join(", ")}.`);
+    }
+  }
+
+  const scores = { personalizationScore, structureScore, lengthScore, alignmentScore };
+  return {
+    ...scores,
+    overallScore: computeCoverLetterOverall(scores),
+    wordCount,
+    feedback: {
+      personalization: personalizationFeedback,
+      structure: structureFeedback,
+      length: lengthFeedback,
+      alignment: alignmentFeedback,
+    },
+    improvementSuggestions: suggestions.length ? suggestions.slice(0, MAX_SUGGESTIONS) : ["Tailor the opening paragraph to each company you apply to."],
+    provider: "local",
+    model: RULES_MODEL,
+  };
+}
+
+// Allowed gap between the model's overall score and the weighted category scores
+const OVERALL_SCORE_TOLERANCE = 10;
+
+function fromModelOutput(output: LlmCoverLetterOutput, text: string, hasJobDescription: boolean): CoverLetterAnalysisResult {
+  const scores = {
+    personalizationScore: output.personalizationScore,
+    structureScore: output.structureScore,
+    lengthScore: output.lengthScore,
+    alignmentScore: hasJobDescription ? output.alignmentScore ?? null : null,
+  };
+  const weighted = computeCoverLetterOverall(scores);
+  const overallScore = output.overallScore !== undefined && Math.abs(output.overallScore - weighted) <= OVERALL_SCORE_TOLERANCE
+    ? output.overallScore
+    : weighted;
+  return {
+    ...scores,
+    overallScore,
+    wordCount: countWords(text),
+    feedback: {
+      personalization: output.feedback.personalization || "No feedback provided.",
+      structure: output.feedback.structure || "No feedback provided.",
+      length: output.feedback.length || "No feedback provided.",
+      alignment: scores.alignmentScore !== null ? output.feedback.alignment || "No feedback provided." : null,
+    },
+    improvementSuggestions: output.improvementSuggestions.length > 0
+      ? output.improvementSuggestions.slice(0, MAX_SUGGESTIONS)
+      : ["No suggestions provided."],
+  };
+}
+
+export async function analyzeCoverLetter(
+  text: string,
+  jobDescription: string | undefined,
+  provider: LLMProvider
+): Promise<CoverLetterAnalysisResult> {
+  if (!text.trim()) {
+    throw new Error("Cover letter text is empty. Cannot analyze an empty document.");
+  }
+  const jd = jobDescription?.trim() || undefined;
+  if (!provider.isConfigured()) {
+    console.warn(`${provider.name} provider not configured, returning rule-based cover letter analysis`);
+    return scoreCoverLetter(text, jd);
+  }
+
+  const letter = delimitUntrusted("cover_letter", text);
+  const prompt = jd
+    ? `${COVER_LETTER_PROMPT}\n${UNTRUSTED_CONTENT_RULES}\n\n${letter}\n\n${delimitUntrusted("job_description", jd.slice(0, MAX_JOB_DESCRIPTION_LENGTH))}`
+    : `${COVER_LETTER_PROMPT}\n${UNTRUSTED_CONTENT_RULES}\n\nNo job description was provided.\n\n${letter}`;
+  try {
+    const response = await provider.complete({ task: "cover_letter", prompt, document: text, jobDescription: jd, json: true });
+    const parsed = llmCoverLetterOutputSchema.safeParse(JSON.parse(stripCodeFences(response.text)));
+    if (!parsed.success) {
+      throw new Error(parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join("; "));
+    }
+    return {
+      ...fromModelOutput(parsed.data, text, Boolean(jd)),
+      provider: response.provider,
+      model: response.model,
+      usage: response.usage,
+    };
+  } catch (error) {
+    console.error(`Error analyzing cover letter with ${provider.name}, using rule-based analysis:`, error);
+    return scoreCoverLetter(text, jd);
+  }
+}
+
+function lowerFirst(text: string): string {
+  return /^[A-Z][a-z]/.test(text) ? text[0].toLowerCase() + text.slice(1) : text;
+}
+
+function asClause(bullet: string): string {
+  return lowerFirst(bullet.replace(/[.;]+$/, "").trim());
+}
+
+function joinList(items: string[]): string {
+  return items.length <= 1 ? items.join("") : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+// Template letter from the parsed resume, used offline and when the provider fails
+export function draftCoverLetter(profile: ResumeProfile, resumeText: string, jobDescription: string): string {
+  const company = companyFromJobDescription(jobDescription) ?? "[Company]";
+  const role = roleFromJobDescription(jobDescription) ?? "[Role]";
+  const match = matchJobDescription(resumeText, jobDescription);
+  const [latest] = profile.experience;
+  const current = latest?.title
+    ? `${latest.current ? "As" : "Most recently, as"} ${latest.title}${latest.company ? ` at ${latest.company}` : ""}`
+    : "In my recent work";
+
+  // Lead with bullets that carry numbers and share the posting's vocabulary
+  const bullets = profile.experience.flatMap((entry) => entry.bullets);
+  const relevance = (bullet: string) =>
+    (QUANTIFIED.test(bullet) || /\d/.test(bullet) ? 2 : 0) +
+    match.matchedKeywords.filter((keyword) => bullet.toLowerCase().includes(keyword)).length;
+  const highlights = bullets
+    .map((bullet, index) => ({ bullet, index, score: relevance(bullet) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, 2)
+    .map(({ bullet }) => asClause(bullet));
+  // Skills from the resume that the posting asks for; words of the company name and title say nothing
+  const postingSkills = profile.skills.filter((skill) => jobDescription.toLowerCase().includes(skill.toLowerCase()));
+  const ownWords = `${company} ${role}`.toLowerCase();
+  const sharedKeywords = match.matchedKeywords.filter((keyword) => !ownWords.includes(keyword));
+  const strengths = (postingSkills.length ? postingSkills : sharedKeywords.length ? sharedKeywords : profile.skills).slice(0, 3);
+
+  const opening = `I am excited to apply for the ${role} position at ${company}. [What draws you to ${company === "[Company]" ? "the company" : company} and its work.]${strengths.length ? ` My background in ${joinList(strengths)} matches what your team is looking for.` : ""}`;
+  const evidence = highlights.length
+    ? `${current}, I ${highlights[0]}.${highlights[1] ? ` I also ${highlights[1]}.` : ""} [One sentence on the result you are proudest of and why it matters for this role.]`
+    : `${current}, I [describe your most relevant achievement, with a number that shows the result].`;
+  const requirement = match.requirements.find((item) => item.status === "met")?.requirement;
+  const fit = requirement
+    ? `Your posting asks for ${asClause(requirement)}. [How your experience covers it, with a concrete example.]`
+    : "[How your experience covers the posting's most important requirement, with a concrete example.]";
+  const closing = `I would welcome the chance to discuss how I can contribute to ${company === "[Company]" ? "your team" : company}. Thank you for your time and consideration.`;
+
+  return [
+    "Dear [Hiring Manager],",
+    opening,
+    evidence,
+    fit,
+    closing,
+    `Sincerely,\n${profile.contact.name ?? "[Your Name]"}`,
+  ].join("\n\n");
+}
+
+export async function generateCoverLetter(
+  resumeText: string,
+  jobDescription: string,
+  provider: LLMProvider
+): Promise<CoverLetterDraft> {
+  const ruleBased = (): CoverLetterDraft => {
+    const draft = draftCoverLetter(parseResume(resumeText), resumeText, jobDescription);
+    return { draft, hasPlaceholders: /\[[^\]]+\]/.test(draft), provider: "local", model: RULES_MODEL };
+  };
+
+  if (!provider.isConfigured()) {
+    console.warn(`${provider.name} provider not configured, returning a template cover letter`);
+    return ruleBased();
+  }
+
+  const resume = delimitUntrusted("resume", resumeText.slice(0, MAX_RESUME_LENGTH));
+  const posting = delimitUntrusted("job_description", jobDescription.slice(0, MAX_JOB_DESCRIPTION_LENGTH));
+  const prompt = `${DRAFT_PROMPT}\n${UNTRUSTED_CONTENT_RULES}\n\n${resume}\n\n${posting}`;
+  try {
+    const response = await provider.complete({ task: "cover_letter_draft", prompt, document: resumeText, jobDescription });
+    const draft = stripCodeFences(response.text);
+    if (countWords(draft) < 50) {
+      throw new Error(`Draft is only ${countWords(draft)} words`);
+    }
+    return { draft, hasPlaceholders: /\[[^\]]+\]/.test(draft), provider: response.provider, model: response.model, usage: response.usage };
+  } catch (error) {
+    console.error(`Error drafting cover letter with ${provider.name}, using the template:`, error);
+    return ruleBased();
+  }
+}
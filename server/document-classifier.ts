@@ -0,0 +1,156 @@
+import type { LLMProvider } from "./llm";
+import { stripCodeFences } from "./analyzer";
+import { UNTRUSTED_CONTENT_RULES, delimitUntrusted } from "./prompt-injection";
+import { llmClassificationOutputSchema, type DocumentType } from "./schema";
+
+// Works out what kind of document an upload is before it is analyzed. Local
+// heuristics always run; when a model is available its answer is combined with
+// them, so a flaky provider no longer lets any document through as a resume.
+
+export interface DocumentClassification {
+  type: DocumentType;
+  // 0 to 1
+  confidence: number;
+  source: "rules" | "llm" | "combined";
+}
+
+// Below this confidence a document is analyzed as a resume rather than rejected
+export const MIN_REJECTION_CONFIDENCE = 0.6;
+// Share of the combined decision given to the model when it disagrees with the heuristics
+const LLM_WEIGHT = 0.6;
+const MAX_CLASSIFY_LENGTH = 8000;
+// Heuristic points needed before a document counts as anything but "other"
+const MIN_TYPE_POINTS = 2;
+// Recognizing nothing is no evidence against a resume, so the heuristics alone never reject such a document
+const NO_SIGNAL_CONFIDENCE = 0.3;
+// Less text than this says nothing about what the document is, as with scanned or image-only PDFs
+export const MIN_CLASSIFIABLE_LENGTH = 100;
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  resume: "a resume",
+  cv: "a CV",
+  cover_letter: "a cover letter",
+  job_description: "a job description",
+  transcript: "an academic transcript",
+  other: "something other than a resume",
+};
+
+const CLASSIFY_PROMPT = `Classify the document below as one of: resume, cv (an academic curriculum vitae with publications, research or teaching), cover_letter, job_description, transcript (an academic record of courses and grades), other.
+Return a JSON object with the keys "type" (one of the values above) and "confidence" (a number from 0 to 1).`;
+
+// Headers that show up in nearly every resume, alone on their line or followed by a colon and their content
+const RESUME_SECTION_PATTERN = /^\s*(work experience|professional experience|relevant experience|experience|employment( history)?|work history|career history|education|academic background|educational background|skills|technical skills|key skills|core competencies|projects|certifications|licenses and certifications|awards|volunteer experience|languages|summary|professional summary|career summary|profile|objective|career objective)\s*(:.*)?$/gim;
+const CV_SECTION_PATTERN = /^\s*(publications|selected publications|research( experience| interests)?|teaching( experience)?|grants( and awards)?|conference presentations|presentations|academic appointments)\s*:?\s*$/gim;
+const JOB_DESCRIPTION_SECTION_PATTERN = /^\s*(responsibilities|key responsibilities|what you'll do|what you will do|requirements|qualifications|preferred qualifications|nice to have|what we offer|benefits|who you are|about (?!me\b)[\w&.' -]{2,40})\s*:?\s*$/gim;
+const JOB_DESCRIPTION_PHRASES = [/\bwe are looking for\b/i, /\bthe ideal candidate\b/i, /\byou will\b/i, /\bequal opportunity employer\b/i, /\bjoin our team\b/i, /\bapply now\b/i, /\b\d+\+ years\b/i, /\bfamiliarity with\b/i];
+const LETTER_PHRASES = [/\bI am writing to\b/i, /\bapply for the\b/i, /\bthank you for your (time|consideration)\b/i, /\bI look forward to\b/i, /\bI am excited\b/i];
+const DATE_RANGE_PATTERN = /\b(19|20)\d{2}\s*[-–—]+\s*((19|20)\d{2}|present|current)\b/gi;
+const COURSE_CODE_PATTERN = /^\s*[A-Z]{2,4}\s?\d{3}[A-Z]?\b/gm;
+
+function countDistinct(text: string, pattern: RegExp): number {
+  return new Set(Array.from(text.matchAll(pattern), (match) => match[1].toLowerCase())).size;
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  return (text.match(pattern) ?? []).length;
+}
+
+function countPhrases(text: string, phrases: RegExp[]): number {
+  return phrases.filter((phrase) => phrase.test(text)).length;
+}
+
+function roundConfidence(value: number): number {
+  return Math.round(Math.min(0.99, Math.max(0, value)) * 100) / 100;
+}
+
+export function isResumeType(type: DocumentType): boolean {
+  return type === "resume" || type === "cv";
+}
+
+// Points for each kind of document from section headings and telltale phrases
+function scoreDocumentTypes(text: string): Record<Exclude<DocumentType, "cv" | "other">, number> & { cvSections: number } {
+  const resumeSections = countDistinct(text, RESUME_SECTION_PATTERN);
+  const hasEmail = /[\w.+-]+@[\w-]+\.[\w.]+/.test(text);
+  const hasPhone = /\+?\d[\d\s().-]{8,}\d/.test(text);
+  const bulletLines = countMatches(text, /^\s*[•▪●◦*-]\s+\S/gm);
+  const resume = Math.min(resumeSections, 4)
+    + (hasEmail ? 0.5 : 0)
+    + (hasPhone ? 0.5 : 0)
+    + (countMatches(text, DATE_RANGE_PATTERN) >= 2 ? 1 : 0)
+    + (bulletLines >= 3 ? 0.5 : 0);
+
+  const coverLetter = (/^\s*dear\b/im.test(text) ? 2 : 0)
+    + (/^\s*(sincerely|best regards|kind regards|regards|yours sincerely|yours faithfully|respectfully),?\s*$/im.test(text) ? 2 : 0)
+    + Math.min(countPhrases(text, LETTER_PHRASES), 2)
+    + (resumeSections < 2 ? 0.5 : 0);
+
+  const jobDescription = Math.min(countDistinct(text, JOB_DESCRIPTION_SECTION_PATTERN), 4)
+    + Math.min(countPhrases(text, JOB_DESCRIPTION_PHRASES), 4) * 0.5;
+
+  const transcript = (/\b(official |unofficial )?(academic )?transcript\b|\bacademic record\b/i.test(text) ? 2 : 0)
+    + (/\b(gpa|grade point average)\b/i.test(text) ? 1 : 0)
+    + (/\b(credits?|credit hours|units)\b/i.test(text) ? 1 : 0)
+    + (/\b(semester|term|(fall|spring|summer|winter) (19|20)\d{2})\b/i.test(text) ? 1 : 0)
+    + (countMatches(text, COURSE_CODE_PATTERN) >= 3 ? 2 : 0);
+
+  return {
+    resume,
+    cover_letter: coverLetter,
+    job_description: jobDescription,
+    transcript,
+    cvSections: countDistinct(text, CV_SECTION_PATTERN) + (/\bcurriculum vitae\b/i.test(text) ? 2 : 0),
+  };
+}
+
+export function classifyByRules(text: string): DocumentClassification {
+  const { cvSections, ...points } = scoreDocumentTypes(text);
+  // Academic sections also count towards the resume family
+  points.resume += Math.min(cvSections, 3);
+
+  const ranked = (Object.keys(points) as (keyof typeof points)[]).sort((a, b) => points[b] - points[a]);
+  const best = points[ranked[0]];
+  const total = ranked.reduce((sum, type) => sum + points[type], 0);
+
+  if (best < MIN_TYPE_POINTS) {
+    return { type: "other", confidence: NO_SIGNAL_CONFIDENCE, source: "rules" };
+  }
+  const type: DocumentType = ranked[0] === "resume" && cvSections >= 2 ? "cv" : ranked[0];
+  return { type, confidence: roundConfidence(best / (total + 1)), source: "rules" };
+}
+
+function combineClassifications(rules: DocumentClassification, llm: DocumentClassification): DocumentClassification {
+  // Agreement, including resume against CV, makes either answer more certain
+  if (rules.type === llm.type || (isResumeType(rules.type) && isResumeType(llm.type))) {
+    const confidence = 1 - (1 - rules.confidence) * (1 - llm.confidence);
+    return { type: llm.type, confidence: roundConfidence(confidence), source: "combined" };
+  }
+  const llmScore = llm.confidence * LLM_WEIGHT;
+  const rulesScore = rules.confidence * (1 - LLM_WEIGHT);
+  const [winner, winnerScore] = llmScore >= rulesScore ? [llm, llmScore] : [rules, rulesScore];
+  // Disagreement leaves the winner less certain than it claimed
+  const confidence = (winnerScore / (llmScore + rulesScore || 1)) * winner.confidence;
+  return { type: winner.type, confidence: roundConfidence(confidence), source: "combined" };
+}
+
+export async function classifyDocument(text: string, provider: LLMProvider): Promise<DocumentClassification> {
+  const rules = classifyByRules(text);
+  // The local provider answers with these same rules, so asking it adds nothing
+  if (!provider.isConfigured() || provider.name === "local") {
+    return rules;
+  }
+
+  const document = text.slice(0, MAX_CLASSIFY_LENGTH);
+  try {
+    const prompt = `${CLASSIFY_PROMPT}\n${UNTRUSTED_CONTENT_RULES}\n\n${delimitUntrusted("document", document)}`;
+    const response = await provider.complete({ task: "classify", prompt, document, json: true });
+    const parsed = llmClassificationOutputSchema.safeParse(JSON.parse(stripCodeFences(response.text)));
+    if (!parsed.success) {
+      console.warn(`${provider.name} returned an invalid document classification, using heuristics only`);
+      return rules;
+    }
+    return combineClassifications(rules, { ...parsed.data, source: "llm" });
+  } catch (error) {
+    console.error(`Error classifying document with ${provider.name}, using heuristics only:`, error);
+    return rules;
+  }
+}
@@ -1,48 +1,552 @@
 import pdfParse from 'pdf-parse';
 import * as mammoth from 'mammoth';
+import JSZip from 'jszip';
+import WordExtractor from 'word-extractor';
+import { convert as htmlToText } from 'html-to-text';
+import path from 'path';
+import zlib from 'zlib';
+import { analyzePdfLayout, type PdfPage } from './pdf-layout';
+import type { PdfLayout } from './schema';
+
+const PDF = 'application/pdf';
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const DOC = 'application/msword';
+const ODT = 'application/vnd.oasis.opendocument.text';
+const RTF = 'application/rtf';
+const HTML = 'text/html';
+const MARKDOWN = 'text/markdown';
+const TEXT = 'text/plain';
+
+export const SUPPORTED_FORMATS_DESCRIPTION = 'PDF, DOCX, DOC, ODT, RTF, TXT, Markdown or HTML';
+
+// Longer extracted text is cut off; no resume comes close, and it bounds the work done on it later
+export const MAX_TEXT_LENGTH = 100_000;
+
+// Limits on the ZIP container of DOCX and ODT files, checked before any library unpacks it
+const MAX_ZIP_ENTRIES = 1000;
+const MAX_ZIP_UNCOMPRESSED_SIZE = 100 * 1024 * 1024;
+const MAX_XML_PART_SIZE = 10 * 1024 * 1024;
+
+// Text files must not contain NUL bytes in this much of their start
+const TEXT_SNIFF_LENGTH = 8192;
+
+export type DocumentErrorCode =
+  | 'UNSUPPORTED_FILE_TYPE'
+  | 'FILE_TYPE_MISMATCH'
+  | 'ENCRYPTED_PDF'
+  | 'CORRUPT_FILE'
+  | 'ARCHIVE_TOO_LARGE';
+
+// A file that cannot be read, with a stable code for clients to branch on
+export class DocumentError extends Error {
+  constructor(message: string, readonly code: DocumentErrorCode) {
+    super(message);
+    this.name = 'DocumentError';
+  }
+}
+
+// Other names browsers and operating systems use for the supported types
+const MIME_TYPE_ALIASES: Record<string, string> = {
+  'text/rtf': RTF,
+  'application/x-rtf': RTF,
+  'text/richtext': RTF,
+  'text/x-markdown': MARKDOWN,
+  'application/x-markdown': MARKDOWN,
+  'application/xhtml+xml': HTML,
+};
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.pdf': PDF,
+  '.docx': DOCX,
+  '.doc': DOC,
+  '.odt': ODT,
+  '.rtf': RTF,
+  '.html': HTML,
+  '.htm': HTML,
+  '.md': MARKDOWN,
+  '.markdown': MARKDOWN,
+  '.txt': TEXT,
+};
+
+const FORMAT_NAMES: Record<string, string> = {
+  [PDF]: 'PDF', [DOCX]: 'DOCX', [DOC]: 'DOC', [ODT]: 'ODT', [RTF]: 'RTF', [HTML]: 'HTML', [MARKDOWN]: 'Markdown', [TEXT]: 'text',
+};
+
+// Sent when the browser does not know the type, which is common for Markdown and ODT
+const GENERIC_MIME_TYPES = ['', 'application/octet-stream'];
+
+export function mimeTypeFromFilename(filename: string): string | undefined {
+  return MIME_TYPES_BY_EXTENSION[path.extname(filename).toLowerCase()];
+}
+
+// The supported type a file is, from its reported MIME type or, when that is generic, its extension
+function resolveMimeType(mimeType: string, filename?: string): string {
+  const canonical = MIME_TYPE_ALIASES[mimeType] ?? mimeType;
+  if (GENERIC_MIME_TYPES.includes(canonical) && filename) {
+    return mimeTypeFromFilename(filename) ?? canonical;
+  }
+  return canonical;
+}
+
+export interface ExtractedDocument {
+  text: string;
+  // Only PDFs keep the page layout an ATS has to read through
+  layout: PdfLayout | null;
+}
 
 export async function extractTextFromDocument(
   fileBuffer: Buffer,
-  mimeType: string
+  mimeType: string,
+  filename?: string
 ): Promise<string> {
-  if (mimeType === 'application/pdf') {
-    return extractTextFromPdf(fileBuffer);
-  } else if (
-    mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
-    mimeType === 'application/msword'
-  ) {
-    return extractTextFromDocx(fileBuffer);
+  return (await extractDocument(fileBuffer, mimeType, filename)).text;
+}
+
+export async function extractDocument(
+  fileBuffer: Buffer,
+  mimeType: string,
+  filename?: string
+): Promise<ExtractedDocument> {
+  const type = resolveMimeType(mimeType, filename);
+  if (!FORMAT_NAMES[type]) {
+    throw new DocumentError(`Unsupported file format. Please upload a ${SUPPORTED_FORMATS_DESCRIPTION} file.`, 'UNSUPPORTED_FILE_TYPE');
+  }
+  // The reported type comes from the client, so the contents must agree with it
+  const detected = detectFileType(fileBuffer);
+  if (!matchesDetectedType(type, detected)) {
+    throw new DocumentError(
+      `This file is not a valid ${FORMAT_NAMES[type]} file. Check that it was saved in the format its name says.`,
+      'FILE_TYPE_MISMATCH'
+    );
+  }
+
+  const extracted = type === PDF
+    ? await extractPdf(fileBuffer)
+    : { text: await extractText(fileBuffer, type), layout: null };
+  if (extracted.text.length > MAX_TEXT_LENGTH) {
+    console.warn(`Extracted text of ${extracted.text.length} characters truncated to ${MAX_TEXT_LENGTH}`);
+    return { ...extracted, text: extracted.text.slice(0, MAX_TEXT_LENGTH) };
+  }
+  return extracted;
+}
+
+async function extractText(fileBuffer: Buffer, type: string): Promise<string> {
+  switch (type) {
+    case DOCX:
+      return extractTextFromDocx(fileBuffer);
+    case DOC:
+      return extractTextFromDoc(fileBuffer);
+    case ODT:
+      return extractTextFromOdt(fileBuffer);
+    case RTF:
+      return extractTextFromRtf(fileBuffer);
+    case HTML:
+      return extractTextFromHtml(fileBuffer);
+    case MARKDOWN:
+      return markdownToText(decodeText(fileBuffer));
+    default:
+      return decodeText(fileBuffer);
+  }
+}
+
+// What the file's leading bytes say it is; 'zip' covers DOCX and ODT until their parts are checked
+type DetectedType = typeof PDF | typeof DOC | typeof RTF | 'zip' | 'text' | 'unknown';
+
+function detectFileType(buffer: Buffer): DetectedType {
+  const head = buffer.subarray(0, 1024).toString('latin1');
+  // PDF readers accept the header anywhere in the first kilobyte
+  if (head.includes('%PDF-')) return PDF;
+  if (head.startsWith('PK\x03\x04')) return 'zip';
+  if (head.startsWith('\xD0\xCF\x11\xE0\xA1\xB1\x1A\xE1')) return DOC;
+  if (head.startsWith('{\\rtf')) return RTF;
+  const start = buffer.subarray(0, TEXT_SNIFF_LENGTH);
+  const utf16 = (start[0] === 0xff && start[1] === 0xfe) || (start[0] === 0xfe && start[1] === 0xff);
+  return utf16 || !start.includes(0) ? 'text' : 'unknown';
+}
+
+function matchesDetectedType(type: string, detected: DetectedType): boolean {
+  switch (type) {
+    case PDF:
+    case RTF:
+      return detected === type;
+    case DOCX:
+    case ODT:
+      return detected === 'zip';
+    case DOC:
+      // Word also saves RTF and DOCX files under a .doc name
+      return detected === DOC || detected === RTF || detected === 'zip';
+    default:
+      return detected === 'text';
+  }
+}
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+// Entries listed in a ZIP's central directory, read without unpacking anything; null when
+// the buffer is not a readable ZIP
+export function readZipDirectory(buffer: Buffer): ZipEntry[] | null {
+  // The end of central directory record is 22 bytes, followed by a comment of up to 64KB
+  let end = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+    if (buffer.readUInt32LE(offset) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) return null;
+
+  const entries: ZipEntry[] = [];
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  for (let index = 0; index < count; index++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) return null;
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    entries.push({
+      name: buffer.toString('utf8', offset + 46, offset + 46 + nameLength),
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      uncompressedSize: buffer.readUInt32LE(offset + 24),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + buffer.readUInt16LE(offset + 30) + buffer.readUInt16LE(offset + 32);
+  }
+  return entries;
+}
+
+// The entry's unpacked bytes. The sizes in the directory are whatever the file's author wrote
+// there, so inflation itself stops at `limit` bytes and an entry past it is ARCHIVE_TOO_LARGE.
+export function readZipEntry(buffer: Buffer, entry: ZipEntry, limit: number): Buffer {
+  const damaged = new DocumentError('The file is damaged and could not be read.', 'CORRUPT_FILE');
+  const tooLarge = new DocumentError('The file unpacks to more data than a resume can contain.', 'ARCHIVE_TOO_LARGE');
+  const header = entry.localHeaderOffset;
+  if (header + 30 > buffer.length || buffer.readUInt32LE(header) !== 0x04034b50) throw damaged;
+  const dataStart = header + 30 + buffer.readUInt16LE(header + 26) + buffer.readUInt16LE(header + 28);
+  const data = buffer.subarray(dataStart, dataStart + entry.compressedSize);
+
+  let unpacked: Buffer;
+  if (entry.method === 0) {
+    unpacked = data;
+  } else if (entry.method === 8) {
+    try {
+      unpacked = zlib.inflateRawSync(data, { maxOutputLength: limit + 1 });
+    } catch (error) {
+      // Inflation stops with a RangeError once the output passes maxOutputLength
+      throw error instanceof RangeError ? tooLarge : damaged;
+    }
   } else {
-    throw new Error('Unsupported file format. Please upload a PDF or DOCX file.');
+    throw damaged;
   }
+  if (unpacked.length > limit) throw tooLarge;
+  return unpacked;
 }
 
-async function extractTextFromPdf(pdfBuffer: Buffer): Promise<string> {
+// Reject ZIP containers that would unpack to far more than any real document, before
+// mammoth or JSZip inflate them; returns the entry names
+function checkZipContainer(buffer: Buffer, format: string): string[] {
+  const entries = readZipDirectory(buffer);
+  if (!entries) {
+    throw new DocumentError(`The ${format} file is damaged and could not be read.`, 'CORRUPT_FILE');
+  }
+  const tooLarge = new DocumentError(`The ${format} file unpacks to more data than a resume can contain.`, 'ARCHIVE_TOO_LARGE');
+  if (entries.length > MAX_ZIP_ENTRIES) throw tooLarge;
+
+  let total = 0;
+  entries.forEach((entry) => {
+    // XML parts are what the extractors unpack, so those are counted by the bytes they really
+    // inflate to, and never inflated past what is left of the limit
+    total += /\.(xml|rels)$/i.test(entry.name)
+      ? readZipEntry(buffer, entry, Math.min(MAX_XML_PART_SIZE, MAX_ZIP_UNCOMPRESSED_SIZE - total)).length
+      : entry.uncompressedSize;
+    if (total > MAX_ZIP_UNCOMPRESSED_SIZE) throw tooLarge;
+  });
+  return entries.map((entry) => entry.name);
+}
+
+async function extractPdf(pdfBuffer: Buffer): Promise<ExtractedDocument> {
+  const pages: PdfPage[] = [];
+  // Builds each page's text the way pdf-parse does, keeping where every piece of text sits
+  const pagerender = async (page: pdfParse.PageProxy): Promise<string> => {
+    const content = await page.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+    pages.push({
+      width: page.view[2] - page.view[0],
+      height: page.view[3] - page.view[1],
+      items: content.items.map((item) => ({
+        text: item.str,
+        x: item.transform[4],
+        y: item.transform[5],
+        width: item.width,
+        height: item.height,
+      })),
+    });
+    let lastY: number | undefined;
+    let text = '';
+    content.items.forEach((item) => {
+      text += lastY === undefined || lastY === item.transform[5] ? item.str : '\n' + item.str;
+      lastY = item.transform[5];
+    });
+    return text;
+  };
+
   try {
-    const data = await pdfParse(pdfBuffer);
-    return data.text;
+    // pdf.js misreads Buffers that are views into Node's shared pool, so it gets a copy
+    const data = await pdfParse(new Uint8Array(pdfBuffer), { pagerender });
+    return { text: data.text, layout: analyzePdfLayout(pages, pdfBuffer) };
   } catch (error) {
     console.error('Error extracting text from PDF:', error);
-    throw new Error('Failed to extract text from PDF file.');
+    // pdf.js opens many PDFs that are encrypted with only an owner password, so the
+    // encryption is only blamed once reading has failed
+    if ((error instanceof Error && error.name === 'PasswordException') || pdfBuffer.includes('/Encrypt')) {
+      throw new DocumentError(
+        'This PDF is encrypted or password-protected. Export an unprotected copy and upload that instead.',
+        'ENCRYPTED_PDF'
+      );
+    }
+    throw new DocumentError('Failed to extract text from PDF file. The file may be damaged.', 'CORRUPT_FILE');
   }
 }
 
 async function extractTextFromDocx(docxBuffer: Buffer): Promise<string> {
+  const entries = checkZipContainer(docxBuffer, 'DOCX');
+  if (!entries.includes('word/document.xml')) {
+    throw new DocumentError('This file is not a valid DOCX file.', 'FILE_TYPE_MISMATCH');
+  }
   try {
     const result = await mammoth.extractRawText({ buffer: docxBuffer });
     return result.value;
   } catch (error) {
     console.error('Error extracting text from DOCX:', error);
-    throw new Error('Failed to extract text from DOCX file.');
+    throw new DocumentError('Failed to extract text from DOCX file. The file may be damaged.', 'CORRUPT_FILE');
+  }
+}
+
+async function extractTextFromDoc(docBuffer: Buffer): Promise<string> {
+  // Word saves RTF and DOCX files under a .doc name too; only the rest is the binary format
+  const detected = detectFileType(docBuffer);
+  if (detected === RTF) {
+    return extractTextFromRtf(docBuffer);
+  }
+  if (detected === 'zip') {
+    return extractTextFromDocx(docBuffer);
+  }
+
+  try {
+    const document = await new WordExtractor().extract(docBuffer);
+    // Resumes often keep the name and contact details in the page header
+    const headers = document.getHeaders({ includeFooters: false }).trim();
+    const body = document.getBody();
+    return headers ? `${headers}\n\n${body}` : body;
+  } catch (error) {
+    console.error('Error extracting text from DOC:', error);
+    throw new DocumentError('Failed to extract text from DOC file. The file may be damaged.', 'CORRUPT_FILE');
+  }
+}
+
+async function extractTextFromOdt(odtBuffer: Buffer): Promise<string> {
+  const entries = checkZipContainer(odtBuffer, 'ODT');
+  if (!entries.includes('content.xml')) {
+    throw new DocumentError('This file is not a valid ODT file.', 'FILE_TYPE_MISMATCH');
+  }
+  let content: string | undefined;
+  try {
+    const zip = await JSZip.loadAsync(odtBuffer);
+    content = await zip.file('content.xml')?.async('string');
+  } catch (error) {
+    console.error('Error extracting text from ODT:', error);
+  }
+  if (content === undefined) {
+    throw new DocumentError('Failed to extract text from ODT file. The file may be damaged.', 'CORRUPT_FILE');
+  }
+  return odfXmlToText(content);
+}
+
+async function extractTextFromRtf(rtfBuffer: Buffer): Promise<string> {
+  // RTF is 7-bit ASCII; characters outside it are escaped
+  return rtfToText(rtfBuffer.toString('latin1'));
+}
+
+async function extractTextFromHtml(htmlBuffer: Buffer): Promise<string> {
+  const headings = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'].map((selector) => ({ selector, options: { uppercase: false } }));
+  return htmlToText(decodeText(htmlBuffer), {
+    wordwrap: false,
+    selectors: [
+      ...headings,
+      { selector: 'a', options: { ignoreHref: true } },
+      { selector: 'img', format: 'skip' },
+      { selector: 'table', format: 'dataTable', options: { uppercaseHeaderCells: false } },
+    ],
+  });
+}
+
+// Text files arrive as UTF-8, UTF-16 with a byte order mark, or a legacy Windows code page
+function decodeText(buffer: Buffer): string {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return new TextDecoder('utf-16le').decode(buffer.subarray(2));
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(buffer.subarray(2));
   }
+  try {
+    return new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+}
+
+// Markdown syntax removed, leaving the text a reader would see
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/^ {0,3}(```|~~~).*$/gm, '')
+    .replace(/^ {0,3}#{1,6}[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/gm, '$1')
+    .replace(/^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/gm, '')
+    .replace(/^ {0,3}(?:=+|-+)[ \t]*$/gm, '')
+    .replace(/^ {0,3}>[ \t]?/gm, '')
+    .replace(/^[ \t]*\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)+\|?[ \t]*\n?/gm, '')
+    .replace(/^[ \t]*\|(.*?)\|?[ \t]*$/gm, (_row, cells: string) => cells.split('|').map((cell) => cell.trim()).join('\t'))
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/<(https?:\/\/[^>\s]+|[^@>\s]+@[^>\s]+)>/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '$2')
+    .replace(/(^|[^*\w])\*(?=\S)([^*\n]*?\S)\*(?!\*)/g, '$1$2')
+    .replace(/(^|\W)_(?=\S)([^_\n]*?\S)_(?=\W|$)/g, '$1$2')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '$1')
+    .replace(/\\([\\`*_{}[\]()#+\-.!|])/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(?:#(\d+)|#x([0-9a-f]+)|(lt|gt|amp|quot|apos));/gi, (_entity, decimal, hex, name: string) => {
+    if (decimal) return String.fromCodePoint(parseInt(decimal, 10));
+    if (hex) return String.fromCodePoint(parseInt(hex, 16));
+    return ({ lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" } as Record<string, string>)[name.toLowerCase()];
+  });
+}
+
+// The text of an OpenDocument content.xml, one paragraph or heading per line
+function odfXmlToText(xml: string): string {
+  const body = xml.replace(/^[\s\S]*?<office:body>/, '').replace(/<\/office:body>[\s\S]*$/, '');
+  return decodeXmlEntities(
+    body
+      // Whitespace in ODF text collapses like in HTML; real spaces, tabs and breaks are elements
+      .replace(/\s+/g, ' ')
+      .replace(/<text:(note|tracked-changes|sequence-decls)\b[\s\S]*?<\/text:\1>/g, '')
+      .replace(/<text:s\s*\/>/g, ' ')
+      .replace(/<text:s\s+text:c="(\d+)"\s*\/>/g, (_space, count) => ' '.repeat(parseInt(count, 10)))
+      .replace(/<text:tab\s*\/>/g, '\t')
+      .replace(/<text:line-break\s*\/>/g, '\n')
+      .replace(/<\/table:table-cell>/g, '\t')
+      .replace(/<\/(text:p|text:h)>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/ *\n */g, '\n')
+    .trim();
+}
+
+// Groups whose content is not document text. Headers and footers are kept: resumes often put
+// the name and contact details there
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'listtable', 'listoverridetable', 'rsidtbl',
+  'themedata', 'colorschememapping', 'latentstyles', 'datastore', 'xmlnstbl', 'generator', 'filetbl', 'revtbl',
+]);
+
+const RTF_SYMBOLS: Record<string, string> = {
+  par: '\n', line: '\n', sect: '\n', page: '\n', row: '\n', tab: '\t', cell: '\t',
+  emdash: '—', endash: '–', bullet: '•',
+  lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”',
+};
+
+function rtfToText(rtf: string): string {
+  const output: string[] = [];
+  const stack: Array<{ skip: boolean; unicodeSkip: number }> = [];
+  let skip = false;
+  // Fallback characters written after each \uN escape, to be dropped
+  let unicodeSkip = 1;
+  let pendingSkip = 0;
+  let codePage = 'windows-1252';
+  let bytes: number[] = [];
+
+  const flushBytes = () => {
+    if (bytes.length === 0) return;
+    let decoder: TextDecoder;
+    try {
+      decoder = new TextDecoder(codePage);
+    } catch {
+      decoder = new TextDecoder('windows-1252');
+    }
+    output.push(decoder.decode(Uint8Array.from(bytes)));
+    bytes = [];
+  };
+  const emit = (text: string) => {
+    if (skip) return;
+    flushBytes();
+    output.push(text);
+  };
+
+  const token = /\\([a-z]{1,32})(-?\d{1,10})? ?|\\'([0-9a-f]{2})|\\([^a-z])|([{}])|[\r\n]+|([^\\{}\r\n]+)/gi;
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(rtf)) !== null) {
+    const [, word, arg, hex, symbol, brace, text] = match;
+
+    if (brace === '{') {
+      stack.push({ skip, unicodeSkip });
+    } else if (brace === '}') {
+      const outer = stack.pop();
+      if (outer) {
+        skip = outer.skip;
+        unicodeSkip = outer.unicodeSkip;
+      }
+      pendingSkip = 0;
+    } else if (hex !== undefined) {
+      if (pendingSkip > 0) {
+        pendingSkip--;
+      } else if (!skip) {
+        bytes.push(parseInt(hex, 16));
+      }
+    } else if (text !== undefined) {
+      const dropped = Math.min(pendingSkip, text.length);
+      pendingSkip -= dropped;
+      if (text.length > dropped) emit(text.slice(dropped));
+    } else if (symbol !== undefined) {
+      if (symbol === '*') {
+        skip = true;
+      } else if (symbol === '\n' || symbol === '\r') {
+        emit('\n');
+      } else if (symbol === '~') {
+        emit(' ');
+      } else if (symbol === '_') {
+        emit('-');
+      } else if (symbol !== '-') {
+        emit(symbol);
+      }
+    } else if (word !== undefined) {
+      const value = arg === undefined ? undefined : parseInt(arg, 10);
+      if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+        skip = true;
+      } else if (word === 'ansicpg' && value !== undefined) {
+        codePage = `windows-${value}`;
+      } else if (word === 'uc' && value !== undefined) {
+        unicodeSkip = value;
+      } else if (word === 'u' && value !== undefined) {
+        emit(String.fromCharCode(value < 0 ? value + 65536 : value));
+        pendingSkip = unicodeSkip;
+      } else if (RTF_SYMBOLS[word]) {
+        emit(RTF_SYMBOLS[word]);
+      }
+    }
+  }
+  flushBytes();
+
+  return output.join('').replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
 }
 
-export function isValidFileType(mimeType: string): boolean {
-  const validMimeTypes = [
-    'application/pdf',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'application/msword'
-  ];
-  
-  return validMimeTypes.includes(mimeType);
+export function isValidFileType(mimeType: string, filename?: string): boolean {
+  return Object.values(MIME_TYPES_BY_EXTENSION).includes(resolveMimeType(mimeType, filename));
 }
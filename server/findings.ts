@@ -0,0 +1,50 @@
+import type { Finding } from "./schema";
+
+// Findings cite the resume by quoting it. Models paraphrase whitespace, punctuation
+// and case, so a quote is located exactly first and then by its words in order.
+
+const MAX_FINDINGS = 15;
+
+export type QuotedFinding = Pick<Finding, "category" | "quote" | "message">;
+
+// Letters (including accented Latin) and digits; everything else counts as a separator
+const WORD = "A-Za-z0-9\\u00C0-\\u024F";
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Character range of the quote in the text, or null when it does not appear there
+export function locateQuote(text: string, quote: string): { start: number; end: number } | null {
+  // Drop wrapping quote marks and the ellipsis of a shortened quote
+  const cleaned = quote.trim().replace(/^["'“‘]+|["'”’]+$/g, "").replace(/(\.\.\.|…)$/, "").trim();
+  if (!cleaned) return null;
+
+  const exact = text.indexOf(cleaned);
+  if (exact !== -1) {
+    return { start: exact, end: exact + cleaned.length };
+  }
+
+  const words = cleaned.match(new RegExp(`[${WORD}]+`, "g"));
+  if (!words || words.length === 0) return null;
+  const pattern = new RegExp(words.map(escapeRegExp).join(`[^${WORD}]+`), "i");
+  const match = pattern.exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+}
+
+// Attach text offsets to quoted findings, dropping duplicates
+export function locateFindings(text: string, findings: QuotedFinding[]): Finding[] {
+  const seen = new Set<string>();
+  return findings
+    .filter((finding) => {
+      const key = `${finding.category}\n${finding.quote}\n${finding.message}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_FINDINGS)
+    .map((finding) => {
+      const span = locateQuote(text, finding.quote);
+      return { ...finding, start: span?.start ?? null, end: span?.end ?? null };
+    });
+}
@@ -1,218 +1,128 @@
-// Define ResumeAnalysisResult interface directly here, matching the previous structure
-export interface ResumeAnalysisResult {
-  overallScore: number;
-  keywordsScore: number;
-  experienceScore: number;
-  skillsScore: number;
-  educationScore: number;
-  formattingScore: number;
-  feedback: {
-    keywords: string;
-    experience: string;
-    skills: string;
-    education: string;
-    formatting: string;
-  };
-  improvementSuggestions: string[];
-}
-
-import fetch from "node-fetch";
+import fetch, { type Response } from "node-fetch";
+import { LLM_TIMEOUT_MS, type LLMProvider, type LLMRequest, type LLMResponse, type LLMUsage } from "./llm";
 
-// Get API key from environment variable with fallback
+// Get API key and model from environment variables with fallback
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY || "your-gemini-api-key-here";
-const GEMINI_API_URL = "https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-pro:generateContent?key=" + GEMINI_API_KEY;
-const GEMINI_TIMEOUT_MS = 30000; // 30 seconds
-
-const SYSTEM_PROMPT = `You are an expert ATS (Applicant Tracking System) resume analyzer. Score the resume realistically, not overly strict. Most good resumes should score between 60 and 85. Be encouraging and provide actionable feedback for each section.
-
-Strictly evaluate the following resume as a real ATS would, using these criteria:
-- Keyword & phrase match for the target job
-- Work experience relevance and quantification
-- Skills match (technical and soft)
-- Education completeness
-- Formatting & structure (ATS-friendly, no images, simple layout, clear sections)
-
-For each category, give a score out of 100.
-For each section, provide 1-2 sentences of feedback.
-Return your response as a JSON object with these keys:
-- overallScore
-- keywordsScore
-- experienceScore
-- skillsScore
-- educationScore
-- formattingScore
-- feedback (object with keys: keywords, experience, skills, education, formatting)
-- improvementSuggestions (array of 3-5 actionable suggestions)
-`;
-
-// Function to check if the document is a resume using Gemini
-export async function isResumeDocument(text: string): Promise<boolean> {
-  // Check if API key is valid
-  if (!GEMINI_API_KEY || GEMINI_API_KEY === "your-gemini-api-key-here") {
-    console.warn("Gemini API key not configured, assuming document is a resume");
-    return true;
-  }
+const GEMINI_MODEL = process.env.GEMINI_MODEL || "gemini-1.5-pro";
 
-  const prompt = `Is the following document a resume or CV? Reply only with 'yes' or 'no'.\n\nDocument:\n${text}`;
-  const body = {
-    contents: [
-      {
-        parts: [
-          { text: prompt }
-        ]
+function toUsage(data: any): LLMUsage | undefined {
+  return data?.usageMetadata
+    ? {
+        inputTokens: data.usageMetadata.promptTokenCount ?? 0,
+        outputTokens: data.usageMetadata.candidatesTokenCount ?? 0
       }
-    ]
-  };
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), GEMINI_TIMEOUT_MS);
-  let response;
-  try {
-    response = await fetch(GEMINI_API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify(body),
-      signal: controller.signal
-    });
-  } catch (error) {
-    console.error("Network error calling Gemini API:", error);
-    return true; // Assume it's a resume if API call fails
-  } finally {
-    clearTimeout(timeout);
-  }
-  
-  if (!response.ok) {
-    console.error(`Gemini API error: ${response.status} ${response.statusText}`);
-    return true; // Assume it's a resume if API call fails
-  }
-  
-  try {
-    const data: any = await response.json();
-    let resultText = data?.candidates?.[0]?.content?.parts?.[0]?.text || "";
-    resultText = resultText.trim().toLowerCase();
-    return resultText.startsWith('yes');
-  } catch (error) {
-    console.error("Error parsing Gemini response:", error);
-    return true; // Assume it's a resume if parsing fails
-  }
+    : undefined;
 }
 
-// Helper to ensure all sections are present
-function fillSectionDefaults(result: ResumeAnalysisResult): ResumeAnalysisResult {
-  return {
-    ...result,
-    feedback: {
-      keywords: result.feedback?.keywords || "No feedback provided.",
-      experience: result.feedback?.experience || "No feedback provided.",
-      skills: result.feedback?.skills || "No feedback provided.",
-      education: result.feedback?.education || "No feedback provided.",
-      formatting: result.feedback?.formatting || "No feedback provided.",
-    },
-    improvementSuggestions: Array.isArray(result.improvementSuggestions) && result.improvementSuggestions.length > 0
-      ? result.improvementSuggestions
-      : ["No suggestions provided."]
-  };
+// Gemini returns the text in data.candidates[0].content.parts[0].text
+function toText(data: any): string {
+  return data?.candidates?.[0]?.content?.parts?.[0]?.text || "";
 }
 
-export async function analyzeResumeWithGemini(text: string): Promise<ResumeAnalysisResult> {
-  if (!text || !text.trim()) {
-    throw new Error("Resume text is empty. Cannot analyze an empty document.");
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini" as const;
+  readonly model = GEMINI_MODEL;
+
+  isConfigured(): boolean {
+    return !!GEMINI_API_KEY && GEMINI_API_KEY !== "your-gemini-api-key-here";
   }
-  console.log("Extracted resume text:", text.slice(0, 500)); // Log first 500 chars
-
-  // Check if API key is valid
-  if (!GEMINI_API_KEY || GEMINI_API_KEY === "your-gemini-api-key-here") {
-    console.warn("Gemini API key not configured, returning fallback analysis");
-    return {
-      overallScore: 75,
-      keywordsScore: 75,
-      experienceScore: 75,
-      skillsScore: 75,
-      educationScore: 75,
-      formattingScore: 75,
-      feedback: {
-        keywords: "API not configured. Please configure Gemini API key for detailed analysis.",
-        experience: "API not configured. Please configure Gemini API key for detailed analysis.",
-        skills: "API not configured. Please configure Gemini API key for detailed analysis.",
-        education: "API not configured. Please configure Gemini API key for detailed analysis.",
-        formatting: "API not configured. Please configure Gemini API key for detailed analysis."
-      },
-      improvementSuggestions: [
-        "Configure your Gemini API key for detailed resume analysis.",
-        "Ensure your resume is in PDF or DOCX format.",
-        "Make sure your resume contains clear sections for experience, skills, and education."
-      ]
-    };
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.post("generateContent", request);
+
+    let data: any;
+    try {
+      data = await response.json();
+    } catch (error) {
+      console.error("Error parsing Gemini response:", error);
+      throw new Error("Failed to parse analysis response. Please try again later.");
+    }
+
+    return { text: toText(data), provider: this.name, model: this.model, usage: toUsage(data) };
   }
 
-  const prompt = `${SYSTEM_PROMPT}\n\nResume:\n${text}`;
+  async stream(request: LLMRequest, onText: (delta: string) => void): Promise<LLMResponse> {
+    const response = await this.post("streamGenerateContent", request, "&alt=sse");
+    if (!response.body) {
+      throw new Error("Failed to parse analysis response. Please try again later.");
+    }
 
-  const body = {
-    contents: [
-      {
-        parts: [
-          { text: prompt }
-        ]
+    // Server-sent events: each "data:" line carries a partial GenerateContentResponse
+    let text = "";
+    let usage: LLMUsage | undefined;
+    let buffered = "";
+    const handleLine = (line: string) => {
+      if (!line.startsWith("data:")) return;
+      try {
+        const data = JSON.parse(line.slice(5).trim());
+        const delta = toText(data);
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+        usage = toUsage(data) ?? usage;
+      } catch (error) {
+        console.error("Error parsing Gemini stream chunk:", error);
       }
-    ],
-    generationConfig: {
-      temperature: 0,
-      topP: 1,
-      topK: 1
+    };
+    for await (const chunk of response.body) {
+      buffered += chunk.toString();
+      const lines = buffered.split(/\r?\n/);
+      buffered = lines.pop() ?? "";
+      lines.forEach(handleLine);
     }
-  };
-
-  console.log("Gemini request body:", JSON.stringify(body, null, 2));
-
-  // Timeout logic
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), GEMINI_TIMEOUT_MS);
-
-  let response;
-  try {
-    response = await fetch(GEMINI_API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify(body),
-      signal: controller.signal
-    });
-  } catch (error) {
-    console.error("Network error calling Gemini API:", error);
-    throw new Error("Failed to connect to analysis service. Please try again later.");
-  } finally {
-    clearTimeout(timeout);
-  }
+    handleLine(buffered);
 
-  if (!response.ok) {
-    console.error(`Gemini API error: ${response.status} ${response.statusText}`);
-    throw new Error(`Analysis service error: ${response.status}. Please try again later.`);
+    return { text, provider: this.name, model: this.model, usage };
   }
 
-  let data: any;
-  try {
-    data = await response.json();
-  } catch (error) {
-    console.error("Error parsing Gemini response:", error);
-    throw new Error("Failed to parse analysis response. Please try again later.");
-  }
+  private async post(method: string, request: LLMRequest, query = ""): Promise<Response> {
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:${method}?key=${GEMINI_API_KEY}${query}`;
+    const body = {
+      contents: [
+        {
+          parts: [
+            { text: request.prompt }
+          ]
+        }
+      ],
+      generationConfig: {
+        temperature: 0,
+        topP: 1,
+        topK: 1,
+        ...(request.json ? { responseMimeType: "application/json" } : {})
+      }
+    };
 
-  // Gemini returns the text in data.candidates[0].content.parts[0].text
-  let resultText = data?.candidates?.[0]?.content?.parts?.[0]?.text || "";
+    // Timeout logic
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), LLM_TIMEOUT_MS);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal
+      });
+    } catch (error) {
+      clearTimeout(timeout);
+      console.error("Network error calling Gemini API:", error);
+      throw new Error("Failed to connect to analysis service. Please try again later.");
+    }
 
-  // Remove code block markers if present
-  resultText = resultText.trim().replace(/^```json\s*/i, '').replace(/^```/, '').replace(/```$/, '').trim();
+    if (!response.ok) {
+      clearTimeout(timeout);
+      console.error(`Gemini API error: ${response.status} ${response.statusText}`);
+      throw new Error(`Analysis service error: ${response.status}. Please try again later.`);
+    }
 
-  let result: ResumeAnalysisResult;
-  try {
-    result = JSON.parse(resultText);
-  } catch (e) {
-    console.error("Failed to parse Gemini response as JSON:", resultText);
-    throw new Error("Failed to parse analysis results. Please try again later.");
+    // Keep the timeout running while the body is read, so a stalled stream is aborted too
+    response.body?.on("end", () => clearTimeout(timeout));
+    response.body?.on("error", () => clearTimeout(timeout));
+    return response;
   }
-
-  // After parsing resultText, call fillSectionDefaults before returning
-  return fillSectionDefaults(result);
-} 
\ No newline at end of file
+}
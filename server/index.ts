@@ -2,7 +2,11 @@ import express, { type Request, Response, NextFunction } from "express";
 import { createServer } from "http";
 import path from "path";
 import fs from "fs";
+import multer from "multer";
 import { registerRoutes } from "./routes";
+import { startAnalysisWorker } from "./job-queue";
+import { startChatRetentionSweep } from "./chat-history";
+import { AnalysisError } from "./analysis-pipeline";
 
 // Simple logging function to avoid vite import in production
 const log = (message: string, source = "express") => {
@@ -37,9 +41,20 @@ app.use((req, res, next) => {
 (async () => {
   try {
     await registerRoutes(app);
+    await startAnalysisWorker();
+    startChatRetentionSweep();
 
     // Error handling middleware
     app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+      // Rejected uploads: the file filter throws AnalysisError, multer's own limits throw MulterError
+      if (err instanceof AnalysisError) {
+        return res.status(err.status).json(err.toResponse());
+      }
+      if (err instanceof multer.MulterError) {
+        return err.code === "LIMIT_FILE_SIZE"
+          ? res.status(413).json({ message: "File is too large. Resumes can be up to 5MB and ZIP archives up to 25MB.", code: "FILE_TOO_LARGE" })
+          : res.status(400).json({ message: err.message, code: err.code });
+      }
       const status = err.status || err.statusCode || 500;
       const message = err.message || "Internal Server Error";
       res.status(status).json({ message });
@@ -0,0 +1,217 @@
+import { storage } from "./storage";
+import { getProvider, isProviderName } from "./llm";
+import {
+  runResumeAnalysis, AnalysisError, DocumentTypeError, ownerColumns, recordOwner, type AnalysisRequest,
+} from "./analysis-pipeline";
+import type { AnalysisJob, AnalysisJobStatus } from "./schema";
+
+// Background processing for /api/resume/jobs: submissions are stored as queued jobs
+// and a worker in this process claims them through IStorage, so the HTTP request
+// returns immediately and queued work survives a restart.
+
+const JOB_CONCURRENCY = Math.max(1, parseInt(process.env.ANALYSIS_JOB_CONCURRENCY || "") || 2);
+const MAX_JOB_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 5000;
+const POLL_INTERVAL_MS = 1000;
+// A running job not updated for this long is assumed to belong to a process that died;
+// jobs this process is still working on renew their lease well before it runs out
+const JOB_LEASE_MS = Math.max(60_000, parseInt(process.env.ANALYSIS_JOB_LEASE_MS || "") || 10 * 60_000);
+// Expired leases are looked for this many polls apart
+const REQUEUE_EVERY_POLLS = 30;
+
+export interface WorkerOptions {
+  leaseMs?: number;
+  pollIntervalMs?: number;
+}
+
+// What GET /api/resume/jobs/:id returns; the uploaded file itself is never sent back
+export interface JobStatus {
+  jobId: number;
+  status: AnalysisJobStatus;
+  filename: string;
+  attempts: number;
+  maxAttempts: number;
+  error: string | null;
+  analysisId: number | null;
+  result: unknown;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+}
+
+let activeJobs = 0;
+let pollTimer: NodeJS.Timeout | undefined;
+let claiming = false;
+let leaseMs = JOB_LEASE_MS;
+
+export function toJobStatus(job: AnalysisJob): JobStatus {
+  return {
+    jobId: job.id,
+    status: job.status,
+    filename: job.filename,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    error: job.error,
+    analysisId: job.analysisId,
+    result: job.result,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    completedAt: job.completedAt,
+  };
+}
+
+export async function enqueueAnalysisJob(
+  { file, jobDescription, provider, owner }: AnalysisRequest,
+  batchId?: number
+): Promise<AnalysisJob> {
+  const job = await storage.createAnalysisJob({
+    filename: file.originalname,
+    fileType: file.mimetype,
+    fileSize: file.size,
+    fileData: file.buffer.toString("base64"),
+    jobDescription: jobDescription ?? null,
+    provider: provider.name,
+    ...ownerColumns(owner),
+    batchId: batchId ?? null,
+    maxAttempts: MAX_JOB_ATTEMPTS,
+  });
+  console.log(`Queued analysis job ${job.id} for ${job.filename}`);
+  void fillWorkerSlots();
+  return job;
+}
+
+// Exponential backoff: 5s, 10s, 20s, ...
+function retryDelay(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1));
+}
+
+async function failUnrunnableJob(job: AnalysisJob, reason: string, error: string): Promise<void> {
+  console.error(`Analysis job ${job.id} ${reason}`);
+  await storage.updateAnalysisJob(job.id, { status: "failed", error, fileData: null, completedAt: new Date() });
+}
+
+async function processJob(job: AnalysisJob): Promise<void> {
+  if (job.fileData === null) {
+    return failUnrunnableJob(job, "has no uploaded file left to analyze", "The uploaded file is no longer available. Upload it again.");
+  }
+  const owner = recordOwner(job);
+  if (!owner) {
+    // Queued anonymously before uploads were tied to a session; its result could never be read
+    return failUnrunnableJob(job, "has no owner to store the analysis under", "The upload has expired. Upload it again.");
+  }
+
+  const request: AnalysisRequest = {
+    file: {
+      buffer: Buffer.from(job.fileData, "base64"),
+      mimetype: job.fileType,
+      originalname: job.filename,
+      size: job.fileSize,
+    },
+    jobDescription: job.jobDescription ?? undefined,
+    provider: getProvider(isProviderName(job.provider) ? job.provider : undefined),
+    owner,
+  };
+
+  const heartbeat = setInterval(() => {
+    storage.updateAnalysisJob(job.id, {})
+      .catch((error) => console.error(`Error renewing the lease of analysis job ${job.id}:`, error));
+  }, leaseMs / 3);
+  heartbeat.unref();
+  try {
+    const result = await runResumeAnalysis(request);
+    await storage.updateAnalysisJob(job.id, {
+      status: "completed",
+      error: null,
+      analysisId: result.id,
+      result,
+      // The analysis keeps the extracted text; the upload itself is not needed any more
+      fileData: null,
+      completedAt: new Date(),
+    });
+    console.log(`Analysis job ${job.id} completed`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "An error occurred while analyzing the resume";
+    // Client errors such as an unreadable file fail the same way every time, so only retry the rest
+    const retryable = !(error instanceof AnalysisError && error.status < 500);
+    if (retryable && job.attempts < job.maxAttempts) {
+      const delay = retryDelay(job.attempts);
+      console.error(`Analysis job ${job.id} attempt ${job.attempts} failed, retrying in ${delay}ms:`, error);
+      await storage.updateAnalysisJob(job.id, {
+        status: "queued",
+        error: message,
+        runAfter: new Date(Date.now() + delay),
+      });
+    } else {
+      console.error(`Analysis job ${job.id} failed:`, error);
+      await storage.updateAnalysisJob(job.id, {
+        status: "failed",
+        error: message,
+        // Keeps what a rejected upload looked like, for the batch results
+        result: error instanceof DocumentTypeError ? error.classification : null,
+        fileData: null,
+        completedAt: new Date(),
+      });
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// Claim due jobs until every worker slot is busy or the queue is empty
+async function fillWorkerSlots(): Promise<void> {
+  if (claiming) return;
+  claiming = true;
+  try {
+    while (activeJobs < JOB_CONCURRENCY) {
+      const job = await storage.claimNextAnalysisJob();
+      if (!job) break;
+      activeJobs++;
+      processJob(job)
+        .catch((error) => console.error(`Error updating analysis job ${job.id}:`, error))
+        .finally(() => {
+          activeJobs--;
+          void fillWorkerSlots();
+        });
+    }
+  } catch (error) {
+    console.error("Error claiming analysis jobs:", error);
+  } finally {
+    claiming = false;
+  }
+}
+
+// Put jobs whose process died, here or elsewhere, back in the queue once their lease has run out
+async function requeueExpiredJobs(): Promise<void> {
+  try {
+    const requeued = await storage.requeueRunningAnalysisJobs(leaseMs);
+    if (requeued > 0) {
+      console.log(`Requeued ${requeued} interrupted analysis job(s)`);
+    }
+  } catch (error) {
+    console.error("Error requeueing analysis jobs:", error);
+  }
+}
+
+// Poll for due jobs (retries wait for their backoff), requeueing interrupted jobs at startup and
+// every few polls after, since jobs from a crash shortly before a restart are still inside their lease
+export async function startAnalysisWorker(options: WorkerOptions = {}): Promise<void> {
+  if (pollTimer) return;
+  leaseMs = options.leaseMs ?? JOB_LEASE_MS;
+  await requeueExpiredJobs();
+  let polls = 0;
+  pollTimer = setInterval(() => {
+    polls = (polls + 1) % REQUEUE_EVERY_POLLS;
+    if (polls === 0) {
+      void requeueExpiredJobs().then(fillWorkerSlots);
+    } else {
+      void fillWorkerSlots();
+    }
+  }, options.pollIntervalMs ?? POLL_INTERVAL_MS);
+  pollTimer.unref();
+  void fillWorkerSlots();
+}
+
+export function stopAnalysisWorker(): void {
+  clearInterval(pollTimer);
+  pollTimer = undefined;
+}
@@ -0,0 +1,69 @@
+import { GeminiProvider } from "./gemini";
+import { OpenAIProvider } from "./openai";
+import { AnthropicProvider } from "./anthropic";
+import { LocalProvider } from "./local-provider";
+
+// What the provider is being asked to do. Hosted models only need the prompt,
+// the local provider works directly on the document text.
+export type LLMTask = "classify" | "analyze" | "rewrite" | "chat" | "cover_letter" | "cover_letter_draft";
+
+export interface LLMRequest {
+  task: LLMTask;
+  prompt: string;
+  document: string;
+  jobDescription?: string;
+  // Ask for a JSON object back, for providers that support a JSON response mode
+  json?: boolean;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  provider: ProviderName;
+  model: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  // Whether credentials are present; unconfigured providers are never called
+  isConfigured(): boolean;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  // Same as complete, but reports text to onText as it is generated
+  stream(request: LLMRequest, onText: (delta: string) => void): Promise<LLMResponse>;
+}
+
+export const PROVIDER_NAMES = ["gemini", "openai", "anthropic", "local"] as const;
+export type ProviderName = typeof PROVIDER_NAMES[number];
+
+export function isProviderName(value: unknown): value is ProviderName {
+  return typeof value === "string" && (PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+// Shared request timeout for all hosted providers
+export const LLM_TIMEOUT_MS = 30000; // 30 seconds
+
+const providers: Record<ProviderName, LLMProvider> = {
+  gemini: new GeminiProvider(),
+  openai: new OpenAIProvider(),
+  anthropic: new AnthropicProvider(),
+  local: new LocalProvider(),
+};
+
+// Provider used when the request does not ask for one, set with LLM_PROVIDER
+export function getDefaultProviderName(): ProviderName {
+  const configured = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  if (configured && !isProviderName(configured)) {
+    console.warn(`Unknown LLM_PROVIDER "${configured}", falling back to gemini`);
+  }
+  return isProviderName(configured) ? configured : "gemini";
+}
+
+export function getProvider(name: ProviderName = getDefaultProviderName()): LLMProvider {
+  return providers[name];
+}
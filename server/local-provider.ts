@@ -0,0 +1,67 @@
+import type { LLMProvider, LLMRequest, LLMResponse } from "./llm";
+import { scoreResume, suggestBulletRewrites, RULES_MODEL } from "./ats-scorer";
+import { ruleBasedChatReply } from "./chat";
+import { scoreCoverLetter, draftCoverLetter } from "./cover-letter";
+import { parseResume } from "./resume-parser";
+import { classifyByRules } from "./document-classifier";
+
+// LocalProvider answers without any network call. Output depends only on the
+// document text, which makes it suitable for tests and offline development.
+export class LocalProvider implements LLMProvider {
+  readonly name = "local" as const;
+  readonly model = RULES_MODEL;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    return { text: this.answer(request), provider: this.name, model: this.model };
+  }
+
+  async stream(request: LLMRequest, onText: (delta: string) => void): Promise<LLMResponse> {
+    const response = await this.complete(request);
+    onText(response.text);
+    return response;
+  }
+
+  private answer({ task, document, jobDescription }: LLMRequest): string {
+    switch (task) {
+      case "classify":
+        return this.classify(document);
+      case "rewrite":
+        return this.rewrite(document);
+      case "chat":
+        return ruleBasedChatReply(document);
+      case "cover_letter":
+        return this.analyzeCoverLetter(document, jobDescription);
+      case "cover_letter_draft":
+        // The document is the resume; drafts are always written for a posting
+        return draftCoverLetter(parseResume(document), document, jobDescription ?? "");
+      case "analyze":
+        return this.analyze(document, jobDescription);
+    }
+  }
+
+  private classify(document: string): string {
+    const { type, confidence } = classifyByRules(document);
+    return JSON.stringify({ type, confidence });
+  }
+
+  // Same engine as the offline fallback, returned as the JSON a hosted model would produce
+  private analyze(document: string, jobDescription?: string): string {
+    const { provider, model, ...result } = scoreResume(document, jobDescription);
+    return JSON.stringify(result);
+  }
+
+  private analyzeCoverLetter(document: string, jobDescription?: string): string {
+    const { provider, model, wordCount, ...result } = scoreCoverLetter(document, jobDescription);
+    return JSON.stringify(result);
+  }
+
+  // For rewrites the document holds one bullet per line
+  private rewrite(document: string): string {
+    const bullets = document.split("\n").filter((line) => line.trim());
+    return JSON.stringify({ rewrites: bullets.map((bullet) => ({ suggestions: suggestBulletRewrites(bullet) })) });
+  }
+}
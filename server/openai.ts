@@ -1,93 +1,81 @@
 import OpenAI from "openai";
+import { LLM_TIMEOUT_MS, type LLMProvider, type LLMRequest, type LLMResponse, type LLMUsage } from "./llm";
 
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY || "sk-dummy-key-for-development" });
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-4o";
 
-export interface ResumeAnalysisResult {
-  overallScore: number;
-  keywordsScore: number;
-  experienceScore: number;
-  skillsScore: number;
-  educationScore: number;
-  formattingScore: number;
-  feedback: {
-    keywords: string;
-    experience: string;
-    skills: string;
-    education: string;
-    formatting: string;
-  };
-  improvementSuggestions: string[];
-}
+export class OpenAIProvider implements LLMProvider {
+  readonly name = "openai" as const;
+  readonly model = OPENAI_MODEL;
+  private client: OpenAI | undefined;
+
+  isConfigured(): boolean {
+    return !!OPENAI_API_KEY;
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: OPENAI_API_KEY, timeout: LLM_TIMEOUT_MS, maxRetries: 0 });
+    }
+    return this.client;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    let completion: OpenAI.Chat.Completions.ChatCompletion;
+    try {
+      completion = await this.getClient().chat.completions.create({
+        model: this.model,
+        temperature: 0,
+        messages: [{ role: "user", content: request.prompt }],
+        ...(request.json ? { response_format: { type: "json_object" as const } } : {})
+      });
+    } catch (error) {
+      console.error("Error calling OpenAI API:", error);
+      throw new Error("Failed to connect to analysis service. Please try again later.");
+    }
 
-export async function analyzeResume(text: string): Promise<ResumeAnalysisResult> {
-  try {
-    // For demo purposes, always use mock data if no API key or fails
-    console.log("Using demo resume analysis data");
-    
-    // Generate varied scores for realistic demonstration
-    const keywordsScore = Math.floor(Math.random() * 20) + 70; // 70-90
-    const experienceScore = Math.floor(Math.random() * 15) + 75; // 75-90
-    const skillsScore = Math.floor(Math.random() * 25) + 65; // 65-90
-    const educationScore = Math.floor(Math.random() * 20) + 70; // 70-90
-    const formattingScore = Math.floor(Math.random() * 30) + 60; // 60-90
-    
-    // Calculate weighted average for overall score
-    const overallScore = Math.floor(
-      (keywordsScore * 0.25) + 
-      (experienceScore * 0.3) + 
-      (skillsScore * 0.2) + 
-      (educationScore * 0.15) + 
-      (formattingScore * 0.1)
-    );
-    
-    return {
-      overallScore,
-      keywordsScore,
-      experienceScore,
-      skillsScore,
-      educationScore,
-      formattingScore,
-      feedback: {
-        keywords: "Your resume includes some relevant keywords, but could benefit from more industry-specific terminology. Consider researching job descriptions in your target field for frequently mentioned terms.",
-        experience: "Your work experience is presented chronologically, which is good. Try to quantify achievements with more specific metrics and results where possible.",
-        skills: "Your skills section covers many technical abilities but could be better organized. Consider grouping similar skills and highlighting the ones most relevant to your target position.",
-        education: "Education details are clearly presented. Consider adding relevant coursework or academic achievements if they strengthen your candidacy.",
-        formatting: "The resume has a clean structure but could be more ATS-friendly. Ensure consistent formatting of dates, job titles, and section headers."
-      },
-      improvementSuggestions: [
-        "Add more industry-specific keywords and phrases throughout your resume, especially in the summary and skills sections.",
-        "Quantify your achievements with specific metrics, percentages, or dollar amounts to demonstrate impact.",
-        "Ensure consistent formatting of dates, job titles, and headers for better ATS readability.",
-        "Tailor your resume for each application by highlighting experiences most relevant to the specific job.",
-        "Consider using a simpler format with standard section headers that are easily recognized by ATS systems."
-      ]
-    };
-  } catch (error) {
-    console.error("Error analyzing resume:", error);
-    
-    // If anything fails, return demo data
     return {
-      overallScore: 78,
-      keywordsScore: 75,
-      experienceScore: 82,
-      skillsScore: 80,
-      educationScore: 85,
-      formattingScore: 70,
-      feedback: {
-        keywords: "Your resume contains good keywords, but could benefit from more industry-specific terminology. Consider researching job descriptions in your target field.",
-        experience: "Your work experience is well presented. Consider quantifying achievements with specific metrics and results where possible.",
-        skills: "Your skills section is comprehensive. Consider highlighting the skills most relevant to your target position.",
-        education: "Education details are clearly presented. Consider adding relevant coursework if applicable.",
-        formatting: "The resume has a good structure but could be more ATS-friendly. Ensure consistent formatting throughout."
-      },
-      improvementSuggestions: [
-        "Add more industry-specific keywords throughout your resume, especially in the summary section.",
-        "Quantify your achievements with specific metrics to demonstrate impact.",
-        "Ensure consistent formatting of dates and headers for better ATS readability.",
-        "Tailor your resume for each application by highlighting relevant experiences.",
-        "Use standard section headers that are easily recognized by ATS systems."
-      ]
+      text: completion.choices[0]?.message?.content || "",
+      provider: this.name,
+      model: completion.model || this.model,
+      usage: completion.usage
+        ? {
+            inputTokens: completion.usage.prompt_tokens,
+            outputTokens: completion.usage.completion_tokens
+          }
+        : undefined
     };
   }
+
+  async stream(request: LLMRequest, onText: (delta: string) => void): Promise<LLMResponse> {
+    let text = "";
+    let model = this.model;
+    let usage: LLMUsage | undefined;
+    try {
+      const stream = await this.getClient().chat.completions.create({
+        model: this.model,
+        temperature: 0,
+        messages: [{ role: "user", content: request.prompt }],
+        stream: true,
+        stream_options: { include_usage: true },
+        ...(request.json ? { response_format: { type: "json_object" as const } } : {})
+      });
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+        model = chunk.model || model;
+        if (chunk.usage) {
+          usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+        }
+      }
+    } catch (error) {
+      console.error("Error calling OpenAI API:", error);
+      throw new Error("Failed to connect to analysis service. Please try again later.");
+    }
+
+    return { text, provider: this.name, model, usage };
+  }
 }
@@ -0,0 +1,309 @@
+import type { ResumeAnalysisResult } from "./analyzer";
+import { CATEGORY_WEIGHTS, EMAIL, PHONE } from "./ats-scorer";
+import type { LayoutWarning, PdfLayout } from "./schema";
+
+// Layout checks on an uploaded PDF. The analyzers only see the flattened text, so
+// problems an ATS has with the page itself (columns read across, text that is
+// really an image, tables, contact details in a footer) are found here from the
+// positioned text pdf.js reports, and taken off the formatting score.
+
+export interface PdfTextItem {
+  text: string;
+  // Left edge and baseline in points, with y measured up from the bottom of the page
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  items: PdfTextItem[];
+}
+
+// Pages with fewer characters than this have no real text layer
+const MIN_PAGE_CHARACTERS = 30;
+// Narrowest blank strip between two columns, in points
+const MIN_GUTTER_WIDTH = 12;
+// Gap in points that separates two cells of a table row
+const MIN_CELL_GAP = 15;
+// How closely the cell edges of different table rows must line up, in points
+const CELL_ALIGNMENT = 4;
+// Share of the page height at the top and bottom treated as header and footer
+const MARGIN_BAND = 0.07;
+const MAX_RESUME_PAGES = 2;
+// Most that layout problems take off the formatting score
+const MAX_LAYOUT_PENALTY = 50;
+
+const UNUSUAL_FONT = /symbol|dingbat|wingding|webding|fontawesome|icon/i;
+// Private use area glyphs and replacement characters come from fonts without a usable text mapping
+const UNREADABLE_CHARACTER = /[\uE000-\uF8FF\uFFFD]/g;
+
+// A line of text: the items sharing a baseline
+interface Row {
+  y: number;
+  items: PdfTextItem[];
+  text: string;
+}
+
+function toRows(page: PdfPage): Row[] {
+  const rows: Row[] = [];
+  page.items
+    .filter((item) => item.text.trim())
+    .sort((a, b) => b.y - a.y || a.x - b.x)
+    .forEach((item) => {
+      const last = rows[rows.length - 1];
+      if (last && Math.abs(last.y - item.y) < 2) {
+        last.items.push(item);
+      } else {
+        rows.push({ y: item.y, items: [item], text: "" });
+      }
+    });
+  rows.forEach((row) => {
+    row.items.sort((a, b) => a.x - b.x);
+    row.text = row.items.map((item) => item.text).join(" ");
+  });
+  return rows;
+}
+
+function characterCount(page: PdfPage): number {
+  return page.items.reduce((total, item) => total + item.text.replace(/\s/g, "").length, 0);
+}
+
+// Whether the page has a blank vertical strip near its middle with a sizeable block of text on both sides
+function hasColumns(rows: Row[]): boolean {
+  const items = rows.flatMap((row) => row.items);
+  if (rows.length < 10 || items.length === 0) return false;
+  const left = Math.min(...items.map((item) => item.x));
+  const right = Math.max(...items.map((item) => item.x + item.width));
+  const span = right - left;
+  const allowedCrossings = Math.max(1, Math.floor(rows.length * 0.05));
+
+  // Rows that run across each 2pt strip of the text span
+  const step = 2;
+  const crossings: number[] = [];
+  for (let x = left; x < right; x += step) {
+    crossings.push(rows.filter((row) => row.items.some((item) => item.x < x + step && item.x + item.width > x)).length);
+  }
+
+  let runStart = -1;
+  for (let index = 0; index <= crossings.length; index++) {
+    const open = index < crossings.length && crossings[index] <= allowedCrossings;
+    if (open && runStart < 0) runStart = index;
+    if (open || runStart < 0) continue;
+
+    const gutterStart = left + runStart * step;
+    const gutterEnd = left + index * step;
+    runStart = -1;
+    const middle = (gutterStart + gutterEnd) / 2;
+    if (gutterEnd - gutterStart < MIN_GUTTER_WIDTH) continue;
+    if (middle < left + span * 0.25 || middle > left + span * 0.75) continue;
+
+    const leftItems = items.filter((item) => item.x + item.width <= gutterStart + step);
+    const rightItems = items.filter((item) => item.x >= gutterEnd - step);
+    const characters = (list: PdfTextItem[]) => list.reduce((total, item) => total + item.text.length, 0);
+    const total = characters(items);
+    const rowsWith = (list: PdfTextItem[]) => new Set(list.map((item) => Math.round(item.y))).size;
+    if (
+      characters(leftItems) >= total * 0.2 &&
+      characters(rightItems) >= total * 0.2 &&
+      rowsWith(leftItems) >= 5 &&
+      rowsWith(rightItems) >= 5
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Left edges of the row's cells, where a cell is text separated from the next by a wide gap
+function cellStarts(row: Row): number[] {
+  const starts: number[] = [];
+  let end = -Infinity;
+  row.items.forEach((item) => {
+    if (item.x - end >= MIN_CELL_GAP) starts.push(item.x);
+    end = Math.max(end, item.x + item.width);
+  });
+  return starts;
+}
+
+// Whether at least three rows split into three or more cells at the same positions
+function hasTable(rows: Row[]): boolean {
+  const gridRows = rows.map(cellStarts).filter((starts) => starts.length >= 3);
+  return gridRows.some((reference) =>
+    gridRows.filter((starts) =>
+      reference.slice(0, 3).every((x, index) => Math.abs(starts[index] - x) <= CELL_ALIGNMENT)
+    ).length >= 3
+  );
+}
+
+function hasContactDetails(text: string): boolean {
+  return EMAIL.test(text) || PHONE.test(text);
+}
+
+// Distinct font names in the file, without the subset prefix embedded fonts carry
+function fontNames(pdfBuffer: Buffer): string[] {
+  const names = new Set<string>();
+  const content = pdfBuffer.toString("latin1");
+  const pattern = /\/BaseFont\s*\/([^\s/<>\[\]()]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) {
+    names.add(match[1].replace(/^[A-Z]{6}\+/, ""));
+  }
+  return Array.from(names).sort();
+}
+
+function pageList(pages: number[]): string {
+  if (pages.length === 1) return `page ${pages[0]}`;
+  return `pages ${pages.slice(0, -1).join(", ")} and ${pages[pages.length - 1]}`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export function analyzePdfLayout(pages: PdfPage[], pdfBuffer: Buffer): PdfLayout {
+  const content = pdfBuffer.toString("latin1");
+  const imageCount = (content.match(/\/Subtype\s*\/Image\b/g) ?? []).length;
+  const fonts = fontNames(pdfBuffer);
+  const hasType3Fonts = /\/Subtype\s*\/Type3\b/.test(content);
+  const charactersPerPage = pages.map(characterCount);
+  const pageRows = pages.map(toRows);
+  const pageNumbers = (test: (index: number) => boolean) =>
+    pages.map((_, index) => index + 1).filter((_, index) => test(index));
+
+  const warnings: LayoutWarning[] = [];
+
+  const imageOnlyPages = imageCount > 0 ? pageNumbers((index) => charactersPerPage[index] < MIN_PAGE_CHARACTERS) : [];
+  if (imageOnlyPages.length > 0) {
+    const allPages = imageOnlyPages.length === pages.length;
+    warnings.push({
+      kind: "image_only_pages",
+      message: allPages
+        ? "The resume is an image with no selectable text, so an ATS reads it as blank."
+        : `${capitalize(pageList(imageOnlyPages))} ${imageOnlyPages.length === 1 ? "is an image" : "are images"} with no selectable text, so an ATS skips ${imageOnlyPages.length === 1 ? "it" : "them"}.`,
+      suggestion: "Export the resume from your word processor as a text PDF instead of scanning it or saving it as a picture.",
+      pages: imageOnlyPages,
+      penalty: allPages ? 30 : 15,
+    });
+  }
+
+  const columnPages = pageNumbers((index) => hasColumns(pageRows[index]));
+  if (columnPages.length > 0) {
+    warnings.push({
+      kind: "multi_column",
+      message: `Text on ${pageList(columnPages)} is laid out in columns, which many ATS read straight across, mixing lines from both.`,
+      suggestion: "Use a single-column layout so sections are read in the order you wrote them.",
+      pages: columnPages,
+      penalty: 15,
+    });
+  }
+
+  const tablePages = pageNumbers((index) => hasTable(pageRows[index]));
+  if (tablePages.length > 0) {
+    warnings.push({
+      kind: "tables",
+      message: `${capitalize(pageList(tablePages))} ${tablePages.length === 1 ? "has" : "have"} text arranged in a table, which ATS often flatten or drop.`,
+      suggestion: "Replace tables with plain lines of text, such as \"Company – Role – Dates\".",
+      pages: tablePages,
+      penalty: 10,
+    });
+  }
+
+  // Contact details in the footer band, or in a header repeated on several pages, sit in
+  // parts of the page many ATS ignore
+  const headerCounts = new Map<string, number>();
+  pageRows.forEach((rows, index) => {
+    const seen = new Set<string>();
+    rows
+      .filter((row) => row.y > pages[index].height * (1 - MARGIN_BAND))
+      .forEach((row) => seen.add(row.text.trim()));
+    seen.forEach((text) => headerCounts.set(text, (headerCounts.get(text) ?? 0) + 1));
+  });
+  const marginContactPages = pageNumbers((index) =>
+    pageRows[index].some((row) => {
+      if (!hasContactDetails(row.text)) return false;
+      if (row.y < pages[index].height * MARGIN_BAND) return true;
+      return row.y > pages[index].height * (1 - MARGIN_BAND) && (headerCounts.get(row.text.trim()) ?? 0) >= 2;
+    })
+  );
+  if (marginContactPages.length > 0) {
+    warnings.push({
+      kind: "header_footer_contact",
+      message: `Contact details on ${pageList(marginContactPages)} are in the page header or footer, which many ATS do not read.`,
+      suggestion: "Put your email and phone number in the body of the first page, under your name.",
+      pages: marginContactPages,
+      penalty: 10,
+    });
+  }
+
+  const unusualFonts = fonts.filter((font) => UNUSUAL_FONT.test(font));
+  if (unusualFonts.length > 0 || hasType3Fonts) {
+    const names = unusualFonts.length > 0 ? unusualFonts.join(", ") : "Type 3 fonts";
+    warnings.push({
+      kind: "unusual_fonts",
+      message: `The PDF uses ${names}, whose characters ATS cannot reliably turn back into text.`,
+      suggestion: "Use a standard font such as Arial, Calibri or Georgia and replace icon glyphs with words.",
+      pages: [],
+      penalty: 5,
+    });
+  }
+
+  const unreadablePages = pageNumbers((index) => {
+    const text = pages[index].items.map((item) => item.text).join("");
+    const unreadable = (text.match(UNREADABLE_CHARACTER) ?? []).length;
+    return unreadable >= 10 && unreadable > text.length * 0.02;
+  });
+  if (unreadablePages.length > 0) {
+    warnings.push({
+      kind: "unreadable_characters",
+      message: `Text on ${pageList(unreadablePages)} comes out as unreadable symbols, so an ATS will see gibberish there.`,
+      suggestion: "Re-export the PDF with fonts embedded, or switch to a standard font.",
+      pages: unreadablePages,
+      penalty: 10,
+    });
+  }
+
+  if (pages.length > MAX_RESUME_PAGES) {
+    warnings.push({
+      kind: "long_document",
+      message: `The resume runs to ${pages.length} pages; recruiters and some ATS expect ${MAX_RESUME_PAGES} at most.`,
+      suggestion: "Trim older or less relevant experience to fit two pages.",
+      pages: [],
+      penalty: 5,
+    });
+  }
+
+  return { pageCount: pages.length, charactersPerPage, imageCount, fonts, warnings };
+}
+
+// Takes layout problems off the formatting score and adds them to the feedback and suggestions
+export function applyLayoutWarnings(result: ResumeAnalysisResult, layout: PdfLayout): ResumeAnalysisResult {
+  if (layout.warnings.length === 0) return result;
+
+  const penalty = Math.min(
+    MAX_LAYOUT_PENALTY,
+    layout.warnings.reduce((total, warning) => total + warning.penalty, 0)
+  );
+  const formattingScore = Math.max(0, result.formattingScore - penalty);
+  const overallScore = Math.max(
+    0,
+    Math.round(result.overallScore - (result.formattingScore - formattingScore) * CATEGORY_WEIGHTS.formatting)
+  );
+  const layoutFeedback = layout.warnings.map((warning) => warning.message).join(" ");
+  const suggestions = layout.warnings
+    .map((warning) => warning.suggestion)
+    .filter((suggestion) => !result.improvementSuggestions.includes(suggestion));
+
+  return {
+    ...result,
+    overallScore,
+    formattingScore,
+    feedback: {
+      ...result.feedback,
+      formatting: `${result.feedback.formatting} PDF layout: ${layoutFeedback}`.trim(),
+    },
+    improvementSuggestions: [...suggestions, ...result.improvementSuggestions],
+  };
+}
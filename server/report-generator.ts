@@ -0,0 +1,426 @@
+import PDFDocument from "pdfkit";
+import {
+  AlignmentType, BorderStyle, Document, HeadingLevel, Packer, Paragraph, ShadingType, Table, TableCell, TableRow,
+  TextRun, WidthType,
+} from "docx";
+import { findingSchema, jobMatchSchema, type Finding, type JobMatchResponse, type ResumeAnalysis } from "./schema";
+
+// Downloadable reports of a stored analysis: a branded PDF and DOCX with score gauges,
+// plus Markdown and JSON for pasting into other tools.
+
+export const REPORT_FORMATS = ["pdf", "docx", "md", "json"] as const;
+
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+export function isReportFormat(value: string): value is ReportFormat {
+  return (REPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export interface AnalysisReport {
+  content: Buffer | string;
+  contentType: string;
+  filename: string;
+}
+
+const BRAND = "HireIndex";
+const BRAND_COLOR = "#3B82F6";
+const MUTED_COLOR = "#6B7280";
+const TRACK_COLOR = "#E5E7EB";
+// Width of the text gauges in the DOCX and Markdown reports
+const GAUGE_CELLS = 20;
+
+const CATEGORIES = [
+  { key: "keywords", label: "Keywords & Phrases", score: "keywordsScore" },
+  { key: "experience", label: "Work Experience", score: "experienceScore" },
+  { key: "skills", label: "Skills Match", score: "skillsScore" },
+  { key: "education", label: "Education", score: "educationScore" },
+  { key: "formatting", label: "Formatting & Structure", score: "formattingScore" },
+] as const;
+
+const CATEGORY_LABELS: Record<Finding["category"], string> = {
+  keywords: "Keywords & Phrases",
+  experience: "Work Experience",
+  skills: "Skills Match",
+  education: "Education",
+  formatting: "Formatting & Structure",
+};
+
+const REQUIREMENT_STATUS_LABELS = { met: "Met", partial: "Partially met", missing: "Missing" } as const;
+
+interface ReportCategory {
+  label: string;
+  score: number;
+  feedback: string;
+}
+
+// The stored analysis with its jsonb columns validated, which is all the renderers see
+interface ReportModel {
+  id: number;
+  filename: string;
+  analyzedAt: Date;
+  overallScore: number;
+  categories: ReportCategory[];
+  suggestions: string[];
+  findings: Finding[];
+  jobMatch: JobMatchResponse | null;
+  provider: string | null;
+  model: string | null;
+}
+
+// Same bands the analyzer uses to colour scores
+function scoreRating(score: number): { label: string; color: string } {
+  if (score >= 85) return { label: "Excellent", color: "#22C55E" };
+  if (score >= 70) return { label: "Good", color: "#F59E0B" };
+  return { label: "Needs Improvement", color: "#EF4444" };
+}
+
+function clampScore(score: number): number {
+  return Math.max(0, Math.min(100, score));
+}
+
+function textGauge(score: number): string {
+  const filled = Math.round((clampScore(score) / 100) * GAUGE_CELLS);
+  return "█".repeat(filled) + "░".repeat(GAUGE_CELLS - filled);
+}
+
+function toReportModel(analysis: ResumeAnalysis): ReportModel {
+  const feedback = (analysis.feedback ?? {}) as Record<string, unknown>;
+  const findings = findingSchema.array().safeParse(analysis.findings);
+  const jobMatch = jobMatchSchema.safeParse(analysis.jobMatch);
+
+  return {
+    id: analysis.id,
+    filename: analysis.filename,
+    analyzedAt: new Date(analysis.createdAt),
+    overallScore: analysis.overallScore,
+    categories: CATEGORIES.map((category) => ({
+      label: category.label,
+      score: analysis[category.score],
+      feedback: typeof feedback[category.key] === "string" ? (feedback[category.key] as string) : "",
+    })),
+    suggestions: Array.isArray(analysis.improvementSuggestions)
+      ? analysis.improvementSuggestions.filter((item): item is string => typeof item === "string")
+      : [],
+    findings: findings.success ? findings.data : [],
+    jobMatch: jobMatch.success ? jobMatch.data : null,
+    provider: analysis.provider,
+    model: analysis.model,
+  };
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function analyzedBy(report: ReportModel): string {
+  return report.provider ? ` by ${report.provider}${report.model ? ` (${report.model})` : ""}` : "";
+}
+
+// Attachment name built from the uploaded file's name without its extension
+function reportFilename(report: ReportModel, format: ReportFormat): string {
+  const base = report.filename.replace(/\.[^.]+$/, "").replace(/[^A-Za-z0-9_-]+/g, "-").replace(/^-+|-+$/g, "");
+  return `${base || "resume"}-ats-report.${format}`;
+}
+
+function renderMarkdown(report: ReportModel): string {
+  const lines: string[] = [
+    `# ${BRAND} Resume Report: ${report.filename}`,
+    "",
+    `Analyzed on ${formatDate(report.analyzedAt)}${analyzedBy(report)}.`,
+    "",
+    `## Overall Score: ${report.overallScore}/100 (${scoreRating(report.overallScore).label})`,
+    "",
+    "| Category | Score | Rating |",
+    "| --- | ---: | --- |",
+    ...report.categories.map((category) => `| ${category.label} | ${category.score} | ${scoreRating(category.score).label} |`),
+    "",
+    "## Detailed Feedback",
+  ];
+  report.categories.forEach((category) => {
+    lines.push("", `### ${category.label} (${category.score}/100)`, "", category.feedback || "No feedback.");
+  });
+
+  if (report.jobMatch) {
+    const { matchedKeywords, missingKeywords, requirements } = report.jobMatch;
+    lines.push("", "## Job Match", "");
+    lines.push(`**Matched keywords:** ${matchedKeywords.join(", ") || "none"}`, "");
+    lines.push(`**Missing keywords:** ${missingKeywords.join(", ") || "none"}`);
+    if (requirements.length > 0) {
+      lines.push("", "| Requirement | Status | Evidence |", "| --- | --- | --- |");
+      requirements.forEach((item) => {
+        const cells = [item.requirement, REQUIREMENT_STATUS_LABELS[item.status], item.evidence]
+          .map((cell) => cell.replace(/\|/g, "\\|").replace(/\s+/g, " "));
+        lines.push(`| ${cells.join(" | ")} |`);
+      });
+    }
+  }
+
+  if (report.findings.length > 0) {
+    lines.push("", "## Specific Issues", "");
+    report.findings.forEach((finding) => {
+      lines.push(`- **${CATEGORY_LABELS[finding.category]}:** "${finding.quote}" – ${finding.message}`);
+    });
+  }
+
+  lines.push("", "## Improvement Suggestions", "");
+  if (report.suggestions.length === 0) {
+    lines.push("No suggestions.");
+  }
+  report.suggestions.forEach((suggestion, index) => lines.push(`${index + 1}. ${suggestion}`));
+
+  return lines.join("\n") + "\n";
+}
+
+// The analysis as the API returns it, minus the resume text and internal bookkeeping
+function renderJson(analysis: ResumeAnalysis): string {
+  const { resumeText, textHash, jobDescriptionHash, userId, ...rest } = analysis;
+  return JSON.stringify(rest, null, 2) + "\n";
+}
+
+function renderPdf(report: ReportModel): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 50, bufferPages: true, info: { Title: `${BRAND} Resume Report` } });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+
+    const heading = (text: string) => {
+      if (doc.y > doc.page.height - 150) doc.addPage();
+      doc.moveDown(1).font("Helvetica-Bold").fontSize(14).fillColor("#111827").text(text, left, doc.y, { width });
+      doc.moveDown(0.4);
+    };
+    const body = (text: string, color = "#374151") => {
+      doc.font("Helvetica").fontSize(10).fillColor(color).text(text, left, doc.y, { width });
+    };
+
+    // Brand bar
+    doc.rect(0, 0, doc.page.width, 80).fill(BRAND_COLOR);
+    doc.font("Helvetica-Bold").fontSize(24).fillColor("#FFFFFF").text(BRAND, left, 24);
+    doc.font("Helvetica").fontSize(11).text("Resume ATS Analysis Report", left, 52);
+
+    doc.font("Helvetica-Bold").fontSize(16).fillColor("#111827").text(report.filename, left, 105, { width });
+    doc.moveDown(0.2);
+    body(`Analyzed on ${formatDate(report.analyzedAt)}${analyzedBy(report)}`, MUTED_COLOR);
+
+    // Overall score as a half-circle gauge
+    const rating = scoreRating(report.overallScore);
+    const radius = 70;
+    const centerX = left + width / 2;
+    const centerY = doc.y + 30 + radius;
+    const angle = Math.PI * (1 - clampScore(report.overallScore) / 100);
+    doc.lineWidth(14).lineCap("butt");
+    doc.path(`M ${centerX - radius} ${centerY} A ${radius} ${radius} 0 0 1 ${centerX + radius} ${centerY}`)
+      .stroke(TRACK_COLOR);
+    if (report.overallScore > 0) {
+      const endX = centerX + radius * Math.cos(angle);
+      const endY = centerY - radius * Math.sin(angle);
+      doc.path(`M ${centerX - radius} ${centerY} A ${radius} ${radius} 0 0 1 ${endX} ${endY}`).stroke(rating.color);
+    }
+    doc.font("Helvetica-Bold").fontSize(30).fillColor("#111827")
+      .text(String(report.overallScore), centerX - radius, centerY - 34, { width: radius * 2, align: "center" });
+    doc.font("Helvetica").fontSize(10).fillColor(rating.color)
+      .text(rating.label, centerX - radius, centerY + 2, { width: radius * 2, align: "center" });
+    doc.y = centerY + 30;
+
+    // Category scores as bars
+    heading("Category Scores");
+    const labelWidth = 150;
+    const barWidth = width - labelWidth - 50;
+    report.categories.forEach((category) => {
+      const y = doc.y;
+      const categoryRating = scoreRating(category.score);
+      doc.font("Helvetica").fontSize(10).fillColor("#374151").text(category.label, left, y, { width: labelWidth });
+      doc.rect(left + labelWidth, y + 1, barWidth, 9).fill(TRACK_COLOR);
+      doc.rect(left + labelWidth, y + 1, (barWidth * clampScore(category.score)) / 100, 9).fill(categoryRating.color);
+      doc.font("Helvetica-Bold").fillColor("#111827")
+        .text(String(category.score), left + labelWidth + barWidth + 10, y, { width: 40, align: "right" });
+      doc.x = left;
+      doc.y = y + 20;
+    });
+
+    heading("Detailed Feedback");
+    report.categories.forEach((category) => {
+      doc.font("Helvetica-Bold").fontSize(11).fillColor("#111827")
+        .text(`${category.label} (${category.score}/100)`, left, doc.y, { width });
+      body(category.feedback || "No feedback.");
+      doc.moveDown(0.6);
+    });
+
+    if (report.jobMatch) {
+      const { matchedKeywords, missingKeywords, requirements } = report.jobMatch;
+      heading("Job Match");
+      body(`Matched keywords: ${matchedKeywords.join(", ") || "none"}`);
+      doc.moveDown(0.3);
+      body(`Missing keywords: ${missingKeywords.join(", ") || "none"}`);
+      requirements.forEach((item) => {
+        doc.moveDown(0.4);
+        doc.font("Helvetica-Bold").fontSize(10).fillColor("#111827")
+          .text(`${REQUIREMENT_STATUS_LABELS[item.status]}: `, left, doc.y, { width, continued: true })
+          .font("Helvetica").fillColor("#374151").text(item.requirement);
+        if (item.evidence) body(item.evidence, MUTED_COLOR);
+      });
+    }
+
+    if (report.findings.length > 0) {
+      heading("Specific Issues");
+      report.findings.forEach((finding) => {
+        doc.font("Helvetica-Bold").fontSize(10).fillColor("#111827")
+          .text(`${CATEGORY_LABELS[finding.category]}: `, left, doc.y, { width, continued: true })
+          .font("Helvetica-Oblique").fillColor("#374151").text(`"${finding.quote}"`);
+        body(finding.message);
+        doc.moveDown(0.4);
+      });
+    }
+
+    heading("Improvement Suggestions");
+    if (report.suggestions.length === 0) {
+      body("No suggestions.");
+    } else {
+      doc.font("Helvetica").fontSize(10).fillColor("#374151").list(report.suggestions, left, doc.y, { width, bulletRadius: 2 });
+    }
+
+    // Footer on every page, written last so the page count is known
+    const range = doc.bufferedPageRange();
+    for (let index = range.start; index < range.start + range.count; index++) {
+      doc.switchToPage(index);
+      const bottom = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+      doc.font("Helvetica").fontSize(8).fillColor(MUTED_COLOR).text(
+        `${BRAND} report for analysis #${report.id} · Page ${index - range.start + 1} of ${range.count}`,
+        left,
+        doc.page.height - 35,
+        { width, align: "center" }
+      );
+      doc.page.margins.bottom = bottom;
+    }
+    doc.end();
+  });
+}
+
+function docxColor(color: string): string {
+  return color.replace("#", "");
+}
+
+function scoreRow(label: string, score: number, bold = false): TableRow {
+  const rating = scoreRating(score);
+  const cell = (children: TextRun[], shading?: string) => new TableCell({
+    children: [new Paragraph({ children })],
+    shading: shading ? { type: ShadingType.CLEAR, color: "auto", fill: shading } : undefined,
+    margins: { top: 60, bottom: 60, left: 100, right: 100 },
+  });
+  return new TableRow({
+    children: [
+      cell([new TextRun({ text: label, bold })]),
+      cell([new TextRun({ text: String(score), bold: true, color: "FFFFFF" })], docxColor(rating.color)),
+      cell([new TextRun({ text: textGauge(score), color: docxColor(rating.color), font: "Consolas" })]),
+      cell([new TextRun({ text: rating.label })]),
+    ],
+  });
+}
+
+function renderDocx(report: ReportModel): Promise<Buffer> {
+  const heading = (text: string) => new Paragraph({ text, heading: HeadingLevel.HEADING_2, spacing: { before: 300, after: 120 } });
+  const paragraph = (text: string, color?: string) => new Paragraph({ children: [new TextRun({ text, color })], spacing: { after: 120 } });
+  const bullet = (runs: TextRun[]) => new Paragraph({ children: runs, bullet: { level: 0 } });
+  const rating = scoreRating(report.overallScore);
+
+  const children: Array<Paragraph | Table> = [
+    new Paragraph({
+      children: [new TextRun({ text: BRAND, bold: true, size: 40, color: docxColor(BRAND_COLOR) })],
+      border: { bottom: { style: BorderStyle.SINGLE, size: 12, color: docxColor(BRAND_COLOR), space: 4 } },
+    }),
+    new Paragraph({ text: "Resume ATS Analysis Report", heading: HeadingLevel.TITLE, spacing: { before: 200 } }),
+    paragraph(report.filename),
+    paragraph(`Analyzed on ${formatDate(report.analyzedAt)}${analyzedBy(report)}`, docxColor(MUTED_COLOR)),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { before: 300 },
+      children: [new TextRun({ text: `${report.overallScore}/100`, bold: true, size: 56, color: docxColor(rating.color) })],
+    }),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [new TextRun({ text: textGauge(report.overallScore), size: 32, color: docxColor(rating.color), font: "Consolas" })],
+    }),
+    new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: rating.label, bold: true })] }),
+    heading("Category Scores"),
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [
+        scoreRow("Overall", report.overallScore, true),
+        ...report.categories.map((category) => scoreRow(category.label, category.score)),
+      ],
+    }),
+    heading("Detailed Feedback"),
+  ];
+
+  report.categories.forEach((category) => {
+    children.push(new Paragraph({ text: `${category.label} (${category.score}/100)`, heading: HeadingLevel.HEADING_3 }));
+    children.push(paragraph(category.feedback || "No feedback."));
+  });
+
+  if (report.jobMatch) {
+    const { matchedKeywords, missingKeywords, requirements } = report.jobMatch;
+    children.push(heading("Job Match"));
+    children.push(new Paragraph({
+      children: [new TextRun({ text: "Matched keywords: ", bold: true }), new TextRun(matchedKeywords.join(", ") || "none")],
+    }));
+    children.push(new Paragraph({
+      children: [new TextRun({ text: "Missing keywords: ", bold: true }), new TextRun(missingKeywords.join(", ") || "none")],
+      spacing: { after: 120 },
+    }));
+    requirements.forEach((item) => {
+      children.push(bullet([
+        new TextRun({ text: `${REQUIREMENT_STATUS_LABELS[item.status]}: `, bold: true }),
+        new TextRun(item.requirement),
+        ...(item.evidence ? [new TextRun({ text: ` (${item.evidence})`, color: docxColor(MUTED_COLOR) })] : []),
+      ]));
+    });
+  }
+
+  if (report.findings.length > 0) {
+    children.push(heading("Specific Issues"));
+    report.findings.forEach((finding) => {
+      children.push(bullet([
+        new TextRun({ text: `${CATEGORY_LABELS[finding.category]}: `, bold: true }),
+        new TextRun({ text: `"${finding.quote}"`, italics: true }),
+        new TextRun(` – ${finding.message}`),
+      ]));
+    });
+  }
+
+  children.push(heading("Improvement Suggestions"));
+  if (report.suggestions.length === 0) {
+    children.push(paragraph("No suggestions."));
+  }
+  report.suggestions.forEach((suggestion) => children.push(bullet([new TextRun(suggestion)])));
+
+  const document = new Document({
+    creator: BRAND,
+    title: `${BRAND} Resume Report`,
+    sections: [{ children }],
+  });
+  return Packer.toBuffer(document);
+}
+
+export async function generateAnalysisReport(analysis: ResumeAnalysis, format: ReportFormat): Promise<AnalysisReport> {
+  const report = toReportModel(analysis);
+  const filename = reportFilename(report, format);
+  switch (format) {
+    case "pdf":
+      return { content: await renderPdf(report), contentType: "application/pdf", filename };
+    case "docx":
+      return {
+        content: await renderDocx(report),
+        contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        filename,
+      };
+    case "md":
+      return { content: renderMarkdown(report), contentType: "text/markdown; charset=utf-8", filename };
+    case "json":
+      return { content: renderJson(analysis), contentType: "application/json; charset=utf-8", filename };
+  }
+}
@@ -0,0 +1,274 @@
+import type {
+  ResumeProfile,
+  ResumeContact,
+  ExperienceEntry,
+  EducationEntry,
+  CertificationEntry,
+  ProjectEntry,
+} from "./schema";
+
+// Segments the flat text from extractTextFromDocument into a typed ResumeProfile.
+// Everything here is heuristic: fields the parser cannot find are null or empty.
+
+export type SectionName = "summary" | "experience" | "education" | "skills" | "projects" | "certifications";
+
+const SECTION_PATTERNS: Record<SectionName, RegExp> = {
+  summary: /^(professional\s+)?(summary|profile|objective|about me)$/i,
+  experience: /^((work|professional|relevant)\s+)?(experience|employment(\s+history)?|work\s+history|career\s+history)$/i,
+  education: /^(education|academic\s+background|qualifications|education\s+and\s+training)$/i,
+  skills: /^((technical|core|key)\s+)?(skills|competencies|technologies|skills\s+(&|and)\s+\w+)$/i,
+  projects: /^((personal|selected|key)\s+)?projects$/i,
+  certifications: /^(certifications?|licenses(\s+(&|and)\s+certifications)?|courses)$/i,
+};
+
+const BULLET_MARKER = /^\s*[-•*▪●◦‣–]\s+/;
+
+const MONTHS = "jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec";
+const DATE = `(?:(?:${MONTHS})[a-z]*\\.?\\s+\\d{4}|\\d{1,2}\\/\\d{4}|\\d{4}-\\d{2}|\\d{4})`;
+const DATE_RANGE = new RegExp(`(${DATE})\\s*(?:-|–|—|to)\\s*(${DATE}|present|current|now)`, "i");
+const SINGLE_DATE = new RegExp(`\\b(${DATE})\\b`, "i");
+
+const EMAIL = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i;
+const PHONE = /(\+?\d{1,3}[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/;
+const LINK = /\b(?:https?:\/\/)?(?:www\.)?(?:linkedin\.com\/in\/[\w-]+|github\.com\/[\w-]+|[\w-]+\.(?:dev|io|me)(?:\/[\w-]*)?)\/?/gi;
+const LOCATION = /\b([A-Z][a-zA-Z.]+(?:\s[A-Z][a-zA-Z.]+)*,\s*(?:[A-Z]{2}|[A-Z][a-z]+(?:\s[A-Z][a-z]+)*))\b|\bRemote\b/;
+
+const TITLE_WORDS = /\b(engineer|developer|manager|analyst|designer|intern|lead|director|consultant|specialist|scientist|architect|coordinator|assistant|officer|administrator|associate|president|head|executive|technician|representative|programmer|researcher|teacher|accountant|nurse|founder|owner|vp)\b/i;
+const DEGREE = /\b(bachelor|master|ph\.?d|doctorate|mba|associate|diploma|b\.?\s?s\.?c?|m\.?\s?s\.?c?|b\.?\s?a\.?|m\.?\s?a\.?|b\.?\s?tech|m\.?\s?tech|b\.?\s?e\.?|m\.?\s?e\.?)(?=[\s,.]|$)/i;
+const INSTITUTION = /\b(university|college|institute|school|academy)\b/i;
+
+function isBullet(line: string): boolean {
+  return BULLET_MARKER.test(line);
+}
+
+function stripBullet(line: string): string {
+  return line.replace(BULLET_MARKER, "").trim();
+}
+
+function headerOf(line: string): SectionName | undefined {
+  const candidate = line.trim().replace(/[:\s]+$/, "");
+  if (!candidate || candidate.length > 40) {
+    return undefined;
+  }
+  return (Object.keys(SECTION_PATTERNS) as SectionName[]).find((name) => SECTION_PATTERNS[name].test(candidate));
+}
+
+// Split the text into sections keyed by the standard header each one starts with.
+// Lines before the first header are returned under "header".
+export function detectSections(text: string): { header: string[]; sections: Map<SectionName, string[]> } {
+  const header: string[] = [];
+  const sections = new Map<SectionName, string[]>();
+  let current: string[] = header;
+  text.split(/\r?\n/).forEach((line) => {
+    const name = headerOf(line);
+    if (name) {
+      current = sections.get(name) ?? [];
+      sections.set(name, current);
+    } else if (line.trim()) {
+      current.push(line.trimEnd());
+    }
+  });
+  return { header, sections };
+}
+
+export function splitSkillItems(skillLines: string[]): string[] {
+  return skillLines
+    .flatMap((line) => line.replace(/^[^:]{1,30}:\s*/, "").split(/[,|•;·\/]|\s{2,}/))
+    .map((item) => item.replace(/^\s*[-*▪●]\s*/, "").trim())
+    .filter((item) => item.length > 1 && item.length <= 40);
+}
+
+interface DateInfo {
+  startDate: string | null;
+  endDate: string | null;
+  current: boolean;
+  rest: string;
+}
+
+function extractDates(line: string): DateInfo {
+  const range = line.match(DATE_RANGE);
+  if (range) {
+    const current = /present|current|now/i.test(range[2]);
+    return {
+      startDate: range[1],
+      endDate: current ? null : range[2],
+      current,
+      rest: line.replace(range[0], " ").trim(),
+    };
+  }
+  const single = line.match(SINGLE_DATE);
+  if (single) {
+    return { startDate: null, endDate: single[1], current: false, rest: line.replace(single[0], " ").trim() };
+  }
+  return { startDate: null, endDate: null, current: false, rest: line };
+}
+
+function splitParts(line: string, splitOnAt = true): string[] {
+  const separators = splitOnAt ? /\s+(?:\||–|—|-|@|at)\s+|,\s+|\t+/ : /\s+(?:\||–|—|-)\s+|,\s+|\t+/;
+  const parts = line
+    .split(separators)
+    .map((part) => part.replace(/^[\s,|–—-]+|[\s,|–—-]+$/g, "").trim())
+    .filter(Boolean);
+  // Re-join "Austin, TX" style locations that the comma split apart
+  return parts.reduce<string[]>((joined, part) => {
+    if (/^[A-Z]{2}$/.test(part) && joined.length > 0) {
+      joined[joined.length - 1] = `${joined[joined.length - 1]}, ${part}`;
+    } else {
+      joined.push(part);
+    }
+    return joined;
+  }, []);
+}
+
+// Group section lines into entries: a run of non-bullet header lines followed by bullets
+function groupEntries(lines: string[], startsEntry: (line: string, entry: string[]) => boolean): { headers: string[]; bullets: string[] }[] {
+  const entries: { headers: string[]; bullets: string[] }[] = [];
+  lines.forEach((line) => {
+    let entry = entries[entries.length - 1];
+    if (isBullet(line)) {
+      if (!entry) {
+        entry = { headers: [], bullets: [] };
+        entries.push(entry);
+      }
+      entry.bullets.push(stripBullet(line));
+    } else if (!entry || entry.bullets.length > 0 || startsEntry(line, entry.headers)) {
+      entries.push({ headers: [line.trim()], bullets: [] });
+    } else {
+      entry.headers.push(line.trim());
+    }
+  });
+  return entries;
+}
+
+function parseContact(headerLines: string[], text: string): ResumeContact {
+  const top = headerLines.length > 0 ? headerLines : text.split(/\r?\n/).slice(0, 6);
+  const topText = top.join("\n");
+  const name = top
+    .map((line) => line.trim())
+    .find((line) => line && !EMAIL.test(line) && !PHONE.test(line) && !/\d|https?:|www\./i.test(line) && line.split(/\s+/).length <= 5);
+  const withoutEmails = (value: string) => value.replace(new RegExp(EMAIL.source, "gi"), " ");
+  const links = Array.from(new Set(withoutEmails(topText).match(LINK) ?? withoutEmails(text).match(LINK) ?? []));
+  const location = top
+    .flatMap((line) => line.split(/\s*[|•·]\s*/))
+    .find((part) => !EMAIL.test(part) && !PHONE.test(part) && LOCATION.test(part));
+  return {
+    name: name ?? null,
+    email: (topText.match(EMAIL) ?? text.match(EMAIL))?.[0] ?? null,
+    phone: (topText.match(PHONE) ?? text.match(PHONE))?.[0].trim() ?? null,
+    location: location?.match(LOCATION)?.[0] ?? null,
+    links,
+  };
+}
+
+function parseExperience(lines: string[]): ExperienceEntry[] {
+  // A new role starts when a title-looking line follows header lines that already have one
+  const entries = groupEntries(lines, (line, headers) => TITLE_WORDS.test(line) && headers.some((h) => TITLE_WORDS.test(h)) && !DATE_RANGE.test(line));
+  return entries.map(({ headers, bullets }) => {
+    let dates: DateInfo = { startDate: null, endDate: null, current: false, rest: "" };
+    const parts: string[] = [];
+    headers.forEach((line) => {
+      const found = extractDates(line);
+      if (found.startDate || found.endDate) {
+        if (!dates.startDate && !dates.endDate) dates = found;
+        parts.push(...splitParts(found.rest));
+      } else {
+        parts.push(...splitParts(line));
+      }
+    });
+    const location = parts.find((part) => LOCATION.test(part) && !TITLE_WORDS.test(part)) ?? null;
+    const remaining = parts.filter((part) => part !== location);
+    const title = remaining.find((part) => TITLE_WORDS.test(part)) ?? null;
+    const company = remaining.find((part) => part !== title) ?? null;
+    return {
+      company,
+      title: title ?? (company ? null : remaining[0] ?? null),
+      location,
+      startDate: dates.startDate,
+      endDate: dates.endDate,
+      current: dates.current,
+      bullets,
+    };
+  }).filter((entry) => entry.company || entry.title || entry.bullets.length > 0);
+}
+
+function parseEducation(lines: string[]): EducationEntry[] {
+  // A new entry starts at a line naming an institution or degree when the current one already has it
+  const entries = groupEntries(lines, (line, headers) =>
+    (INSTITUTION.test(line) && headers.some((h) => INSTITUTION.test(h))) ||
+    (DEGREE.test(line) && headers.some((h) => DEGREE.test(h)))
+  );
+  return entries.map(({ headers, bullets }) => {
+    let dates: DateInfo = { startDate: null, endDate: null, current: false, rest: "" };
+    const parts: string[] = [];
+    headers.forEach((line) => {
+      const found = extractDates(line);
+      if ((found.startDate || found.endDate) && !dates.startDate && !dates.endDate) dates = found;
+      parts.push(...splitParts(found.rest, false).filter((part) => !/^(19|20)\d{2}$/.test(part)));
+    });
+    const institution = parts.find((part) => INSTITUTION.test(part)) ?? null;
+    const degreePart = parts.find((part) => part !== institution && DEGREE.test(part)) ?? null;
+    // "B.S. in Computer Science" or "B.S. Computer Science": everything after the degree is the field
+    let degree = degreePart;
+    let fieldOfStudy: string | null = null;
+    if (degreePart) {
+      const inMatch = degreePart.match(/^(.*?)\s+in\s+(.+)$/i);
+      const degreeMatch = degreePart.match(DEGREE);
+      if (inMatch) {
+        degree = inMatch[1].trim();
+        fieldOfStudy = inMatch[2].trim();
+      } else if (degreeMatch && degreeMatch.index === 0 && degreePart.length > degreeMatch[0].length + 2) {
+        const afterDegree = degreePart.slice(degreeMatch[0].length).replace(/^[\s.,]+/, "");
+        if (/^[A-Z]/.test(afterDegree) && !/^(of|degree)\b/i.test(afterDegree)) {
+          degree = degreePart.slice(0, degreeMatch[0].length).trim();
+          fieldOfStudy = afterDegree;
+        }
+      }
+    }
+    const details = [...parts.filter((part) => part !== institution && part !== degreePart), ...bullets];
+    return {
+      institution,
+      degree,
+      fieldOfStudy,
+      startDate: dates.startDate,
+      endDate: dates.endDate,
+      details,
+    };
+  }).filter((entry) => entry.institution || entry.degree);
+}
+
+function parseCertifications(lines: string[]): CertificationEntry[] {
+  return lines.map((line) => {
+    const { endDate, startDate, rest } = extractDates(stripBullet(line));
+    const [name, ...others] = splitParts(rest.replace(/\bby\s+/i, ", "));
+    return { name: name ?? rest, issuer: others[0] ?? null, date: endDate ?? startDate };
+  }).filter((cert) => cert.name);
+}
+
+function parseProjects(lines: string[]): ProjectEntry[] {
+  return groupEntries(lines, () => false).map(({ headers, bullets }) => {
+    const headerText = headers.join(" ");
+    // Technologies are usually listed after "|" or "Tech:" or inside parentheses
+    const techMatch = headerText.match(/(?:\||tech(?:nologies)?(?: stack)?:|built with:?)\s*(.+)$/i) ?? headerText.match(/\(([^)]+)\)/);
+    const name = (techMatch ? headerText.slice(0, techMatch.index) : headerText).replace(/[\s|:(–—-]+$/, "").trim();
+    return {
+      name: name || bullets[0] || "Untitled project",
+      technologies: techMatch ? splitSkillItems([techMatch[1]]) : [],
+      bullets: name ? bullets : bullets.slice(1),
+    };
+  });
+}
+
+export function parseResume(text: string): ResumeProfile {
+  const { header, sections } = detectSections(text);
+  const summary = sections.get("summary")?.map((line) => line.trim()).join(" ") || null;
+
+  return {
+    contact: parseContact(header, text),
+    summary,
+    experience: parseExperience(sections.get("experience") ?? []),
+    education: parseEducation(sections.get("education") ?? []),
+    skills: Array.from(new Set(splitSkillItems(sections.get("skills") ?? []))),
+    certifications: parseCertifications(sections.get("certifications") ?? []),
+    projects: parseProjects(sections.get("projects") ?? []),
+  };
+}
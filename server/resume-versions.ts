@@ -0,0 +1,254 @@
+import { storage } from "./storage";
+import { AnalysisError, canAccess } from "./analysis-pipeline";
+import type { RecordOwner, ResumeAnalysis, ResumeDocument } from "./schema";
+
+// Resume versions: uploads grouped under a resume document, and a comparison of any
+// two analyses covering the extracted text, the category scores and the suggestions.
+
+// Longer texts are compared on their first lines only, to bound the diff's memory use
+const MAX_DIFF_LINES = 2000;
+// Share of significant words two suggestions need in common to count as the same advice
+const SUGGESTION_SIMILARITY = 0.5;
+
+const SCORE_CATEGORIES = [
+  "overallScore", "keywordsScore", "experienceScore", "skillsScore", "educationScore", "formattingScore",
+] as const;
+
+type ScoreCategory = typeof SCORE_CATEGORIES[number];
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "your", "you", "with", "that", "this", "are", "from", "into", "more", "such", "each",
+  "add", "use", "make", "include", "consider", "ensure",
+]);
+
+export interface ResumeVersion {
+  analysisId: number;
+  // Null when the analysis is not a version of any document
+  version: number | null;
+  filename: string;
+  createdAt: Date;
+  overallScore: number;
+  keywordsScore: number;
+  experienceScore: number;
+  skillsScore: number;
+  educationScore: number;
+  formattingScore: number;
+}
+
+export interface ResumeDocumentDetail extends ResumeDocument {
+  versions: ResumeVersion[];
+}
+
+export interface DiffLine {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+export interface ScoreDelta {
+  category: ScoreCategory;
+  from: number;
+  to: number;
+  delta: number;
+}
+
+export interface ResumeComparison {
+  from: ResumeVersion;
+  to: ResumeVersion;
+  textDiff: DiffLine[];
+  // True when either text was longer than MAX_DIFF_LINES and the diff covers only the start
+  truncated: boolean;
+  scoreDeltas: ScoreDelta[];
+  suggestions: {
+    // Raised for the older analysis but no longer for the newer one
+    resolved: string[];
+    // Only raised for the newer analysis
+    introduced: string[];
+    // Raised for both, as worded for the newer analysis
+    remaining: string[];
+  };
+}
+
+function toVersion(analysis: ResumeAnalysis): ResumeVersion {
+  return {
+    analysisId: analysis.id,
+    version: analysis.version,
+    filename: analysis.filename,
+    createdAt: analysis.createdAt,
+    overallScore: analysis.overallScore,
+    keywordsScore: analysis.keywordsScore,
+    experienceScore: analysis.experienceScore,
+    skillsScore: analysis.skillsScore,
+    educationScore: analysis.educationScore,
+    formattingScore: analysis.formattingScore,
+  };
+}
+
+export async function getResumeDocumentDetail(document: ResumeDocument): Promise<ResumeDocumentDetail> {
+  const analyses = await storage.getResumeDocumentVersions(document.id);
+  return { ...document, versions: analyses.map(toVersion) };
+}
+
+// Load an analysis the user may see, failing with 404 like the analysis endpoint does
+async function loadAccessibleAnalysis(analysisId: number, owner: RecordOwner | null): Promise<ResumeAnalysis> {
+  const analysis = await storage.getResumeAnalysis(analysisId);
+  if (!analysis || !canAccess(analysis, owner)) {
+    throw new AnalysisError(`Analysis ${analysisId} not found`, 404);
+  }
+  return analysis;
+}
+
+// Add a stored analysis as the document's next version
+export async function addResumeVersion(document: ResumeDocument, analysisId: number, owner: RecordOwner | null): Promise<ResumeAnalysis> {
+  const analysis = await loadAccessibleAnalysis(analysisId, owner);
+  // Versions of a resume all belong to the document's owner
+  if (analysis.userId !== document.userId || analysis.sessionKey !== document.sessionKey) {
+    throw new AnalysisError(`Analysis ${analysisId} not found`, 404);
+  }
+  if (analysis.documentId === document.id) {
+    throw new AnalysisError(`Analysis ${analysisId} is already version ${analysis.version} of this resume`, 409);
+  }
+  if (analysis.documentId !== null) {
+    throw new AnalysisError(`Analysis ${analysisId} is already a version of another resume`, 409);
+  }
+
+  const versions = await storage.getResumeDocumentVersions(document.id);
+  const nextVersion = versions.reduce((highest, version) => Math.max(highest, version.version ?? 0), 0) + 1;
+  const updated = await storage.setResumeAnalysisVersion(analysis.id, document.id, nextVersion);
+  if (!updated) {
+    throw new AnalysisError(`Analysis ${analysisId} not found`, 404);
+  }
+  return updated;
+}
+
+function toDiffLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter((line) => line.length > 0);
+}
+
+// Line diff from the longest common subsequence, after trimming the shared head and tail
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+  const width = b.length + 1;
+  // lengths[i * width + j]: LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      middle.push({ type: "equal", text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      middle.push({ type: "removed", text: a[i++] });
+    } else {
+      middle.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) middle.push({ type: "removed", text: a[i++] });
+  while (j < b.length) middle.push({ type: "added", text: b[j++] });
+
+  return [
+    ...before.slice(0, start).map((text): DiffLine => ({ type: "equal", text })),
+    ...middle,
+    ...before.slice(endBefore).map((text): DiffLine => ({ type: "equal", text })),
+  ];
+}
+
+function significantWords(suggestion: string): Set<string> {
+  const words = suggestion.toLowerCase().match(/[a-z0-9+#]+/g) ?? [];
+  return new Set(words.filter((word) => word.length > 2 && !STOP_WORDS.has(word)));
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = Array.from(a).filter((word) => b.has(word)).length;
+  return shared / (a.size + b.size - shared);
+}
+
+// Suggestions are generated fresh for every analysis, so the same advice is matched by wording overlap
+function compareSuggestions(before: string[], after: string[]): ResumeComparison["suggestions"] {
+  const beforeWords = before.map(significantWords);
+  const afterWords = after.map(significantWords);
+  const matchedBefore = new Set<number>();
+  const remaining: string[] = [];
+  const introduced: string[] = [];
+
+  after.forEach((suggestion, afterIndex) => {
+    let best = -1;
+    let bestScore = SUGGESTION_SIMILARITY;
+    beforeWords.forEach((words, beforeIndex) => {
+      const score = similarity(words, afterWords[afterIndex]);
+      if (!matchedBefore.has(beforeIndex) && score >= bestScore) {
+        best = beforeIndex;
+        bestScore = score;
+      }
+    });
+    if (best === -1) {
+      introduced.push(suggestion);
+    } else {
+      matchedBefore.add(best);
+      remaining.push(suggestion);
+    }
+  });
+
+  const resolved = before.filter((_suggestion, index) => !matchedBefore.has(index));
+  return { resolved, introduced, remaining };
+}
+
+function suggestionsOf(analysis: ResumeAnalysis): string[] {
+  return Array.isArray(analysis.improvementSuggestions)
+    ? analysis.improvementSuggestions.filter((item): item is string => typeof item === "string")
+    : [];
+}
+
+// Compare two analyses the user can see; "from" is treated as the older one
+export async function compareResumeAnalyses(fromId: number, toId: number, owner: RecordOwner | null): Promise<ResumeComparison> {
+  const [from, to] = await Promise.all([
+    loadAccessibleAnalysis(fromId, owner),
+    loadAccessibleAnalysis(toId, owner),
+  ]);
+  if (from.resumeText === null || to.resumeText === null) {
+    throw new AnalysisError("One of these analyses predates stored resume text; re-upload the resume to compare it", 422);
+  }
+
+  const beforeLines = toDiffLines(from.resumeText);
+  const afterLines = toDiffLines(to.resumeText);
+  const truncated = beforeLines.length > MAX_DIFF_LINES || afterLines.length > MAX_DIFF_LINES;
+
+  return {
+    from: toVersion(from),
+    to: toVersion(to),
+    textDiff: diffLines(beforeLines.slice(0, MAX_DIFF_LINES), afterLines.slice(0, MAX_DIFF_LINES)),
+    truncated,
+    scoreDeltas: SCORE_CATEGORIES.map((category) => ({
+      category,
+      from: from[category],
+      to: to[category],
+      delta: to[category] - from[category],
+    })),
+    suggestions: compareSuggestions(suggestionsOf(from), suggestionsOf(to)),
+  };
+}
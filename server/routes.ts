@@ -1,9 +1,66 @@
 import type { Express, Request, Response } from "express";
 import { storage } from "./storage";
 import multer from "multer";
-import { extractTextFromDocument, isValidFileType } from "./document-parser";
-import { isResumeDocument } from "./gemini";
-import { analyzeResumeWithGemini } from "./gemini";
+import { extractTextFromDocument, isValidFileType, DocumentError, SUPPORTED_FORMATS_DESCRIPTION } from "./document-parser";
+import { getProvider, isProviderName, PROVIDER_NAMES, type LLMProvider } from "./llm";
+import { parseResume } from "./resume-parser";
+import { buildAtsPreview } from "./ats-preview";
+import {
+  runResumeAnalysis,
+  AnalysisError,
+  STORAGE_UNAVAILABLE_MESSAGE,
+  canAccess,
+  ownerColumns,
+  sha256,
+  type AnalysisRequest,
+} from "./analysis-pipeline";
+import { enqueueAnalysisJob, toJobStatus } from "./job-queue";
+import {
+  isZipUpload, expandBatchUploads, createAnalysisBatch, getBatchStatus, batchToCsv, batchUploadStorage, MAX_RESUME_SIZE, MAX_ZIP_SIZE,
+  type BatchStatus,
+} from "./batch";
+import {
+  getRankedCandidates,
+  attachCandidate,
+  reevaluateCandidates,
+  type RankedCandidate,
+} from "./candidate-ranking";
+import { getResumeDocumentDetail, addResumeVersion, compareResumeAnalyses } from "./resume-versions";
+import { rewriteBullets } from "./bullet-rewriter";
+import { answerChat } from "./chat";
+import { analyzeCoverLetter, generateCoverLetter } from "./cover-letter";
+import {
+  getChatOwner,
+  keepChatSession,
+  getChatRetentionDays,
+  chatExpiry,
+  ownsConversation,
+  toPublicConversation,
+  conversationTitle,
+  conversationToMarkdown,
+} from "./chat-history";
+import { generateAnalysisReport, isReportFormat, REPORT_FORMATS } from "./report-generator";
+import {
+  openingInputSchema,
+  insertResumeDocumentSchema,
+  bulletRewriteRequestSchema,
+  atsPreviewRequestSchema,
+  coverLetterDraftRequestSchema,
+  chatRequestSchema,
+  chatSettingsSchema,
+  CHAT_RETENTION_OPTIONS,
+  updateOpeningSchema,
+  candidateOverrideSchema,
+  type ResumeAnalysis,
+  type AnalysisJob,
+  type Opening,
+  type ResumeDocument,
+  type CoverLetterAnalysis,
+  type ChatConversation,
+  type ChatMessage,
+} from "./schema";
+import { fromZodError } from "zod-validation-error";
+import { setupAuth, getUserId, getRecordOwner, claimRecordOwner } from "./auth";
 import crypto from "crypto";
 
 // Configure multer for file uploads (store in memory)
@@ -14,193 +71,464 @@ const upload = multer({
   },
   fileFilter: (req, file, cb) => {
     // Check file type
-    if (isValidFileType(file.mimetype)) {
+    if (isValidFileType(file.mimetype, file.originalname)) {
       cb(null, true);
     } else {
-      cb(new Error("Invalid file type. Only PDF and DOCX files are allowed.") as any);
+      cb(new AnalysisError(`Invalid file type. Upload a ${SUPPORTED_FORMATS_DESCRIPTION} file.`, 400, "UNSUPPORTED_FILE_TYPE"));
     }
   },
 });
 
-// Extend Express Request type to include optional file property from multer
-interface ResumeRequest extends Request {
-  file?: Express.Multer.File;
+// Most recent analyses plotted on the dashboard trend chart
+const MAX_TREND_POINTS = 200;
+
+// Pick a single uploaded file by field name from a multer `fields` upload
+function getUploadedFile(req: Request, field: string): Express.Multer.File | undefined {
+  const files = req.files;
+  return files && !Array.isArray(files) ? files[field]?.[0] : undefined;
+}
+
+// Batch uploads take many resumes and ZIP archives of resumes, plus one shared job description
+const batchUpload = multer({
+  storage: batchUploadStorage,
+  limits: {
+    fileSize: MAX_ZIP_SIZE, // Resumes are cut off at 5MB and skipped by the storage engine
+    files: 51,
+  },
+  fileFilter: (req, file, cb) => {
+    if (isValidFileType(file.mimetype, file.originalname) || isZipUpload(file)) {
+      cb(null, true);
+    } else {
+      cb(new AnalysisError(`Invalid file type. Upload ${SUPPORTED_FORMATS_DESCRIPTION} files or ZIP archives of them.`, 400, "UNSUPPORTED_FILE_TYPE"));
+    }
+  },
+}).fields([
+  { name: "files", maxCount: 50 },
+  { name: "jobDescriptionFile", maxCount: 1 },
+]);
+
+// Resume or cover letter plus an optional job description, either pasted as text or uploaded as a file
+const resumeUpload = upload.fields([
+  { name: "file", maxCount: 1 },
+  { name: "jobDescriptionFile", maxCount: 1 },
+]);
+
+// Text of an uploaded document, or undefined once an error response has been sent
+async function extractUploadText(file: Express.Multer.File, res: Response): Promise<string | undefined> {
+  try {
+    return await extractTextFromDocument(file.buffer, file.mimetype, file.originalname);
+  } catch (extractError) {
+    console.error("Error extracting text:", extractError);
+    if (extractError instanceof DocumentError) {
+      res.status(400).json({ message: extractError.message, code: extractError.code });
+    } else {
+      res.status(400).json({ message: "Failed to extract text from document", code: "EXTRACTION_FAILED" });
+    }
+    return undefined;
+  }
+}
+
+// Resolve the job description from the request, preferring an uploaded file over pasted text
+async function getJobDescription(req: Request): Promise<string | undefined> {
+  const jdFile = getUploadedFile(req, "jobDescriptionFile");
+  if (jdFile) {
+    const jdText = await extractTextFromDocument(jdFile.buffer, jdFile.mimetype, jdFile.originalname);
+    return jdText.trim() || undefined;
+  }
+  const pasted = typeof req.body?.jobDescription === "string" ? req.body.jobDescription.trim() : "";
+  return pasted || undefined;
+}
+
+// Admins authenticate with the shared ADMIN_API_TOKEN secret in the x-admin-token header
+function isAdminRequest(req: Request): boolean {
+  const token = process.env.ADMIN_API_TOKEN;
+  const supplied = req.get("x-admin-token");
+  if (!token || !supplied || supplied.length !== token.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(Buffer.from(supplied), Buffer.from(token));
+}
+
+// Admins can pick the provider per request to compare them; everyone else gets the default
+function getRequestedProvider(req: Request): LLMProvider {
+  const requestedProvider = req.body?.provider;
+  if (!requestedProvider) {
+    return getProvider();
+  }
+  if (!isAdminRequest(req)) {
+    throw new AnalysisError("Only administrators can choose the analysis provider", 403, "PROVIDER_NOT_ALLOWED");
+  }
+  if (!isProviderName(requestedProvider)) {
+    throw new AnalysisError(`Unknown provider. Use one of: ${PROVIDER_NAMES.join(", ")}`, 400, "UNKNOWN_PROVIDER");
+  }
+  return getProvider(requestedProvider);
+}
+
+// Resolve the provider and the job description shared by single and batch analyses
+async function getAnalysisOptions(req: Request): Promise<Omit<AnalysisRequest, "file">> {
+  const provider = getRequestedProvider(req);
+
+  let jobDescription: string | undefined;
+  try {
+    jobDescription = await getJobDescription(req);
+    if (jobDescription) {
+      console.log("Job description provided, length:", jobDescription.length);
+    }
+  } catch (jdError) {
+    console.error("Error extracting job description:", jdError);
+    throw new AnalysisError("Failed to read the job description file. Please paste the job description as text instead.", 400, "JOB_DESCRIPTION_UNREADABLE");
+  }
+
+  return { jobDescription, provider, owner: claimRecordOwner(req) };
 }
 
-// In-memory cache for resume analysis results
-const resumeCache: Record<string, any> = {};
+// Validate the upload and resolve provider and job description for the analysis pipeline
+async function buildAnalysisRequest(req: Request): Promise<AnalysisRequest> {
+  const file = getUploadedFile(req, "file");
+  if (!file) {
+    console.log("No file uploaded");
+    throw new AnalysisError("No file uploaded", 400, "NO_FILE");
+  }
+
+  console.log("File received:", {
+    originalname: file.originalname,
+    mimetype: file.mimetype,
+    size: file.size
+  });
+
+  return { file, ...await getAnalysisOptions(req) };
+}
 
 export async function registerRoutes(app: Express): Promise<void> {
+  // Sessions and /api/auth routes; analyses record the signed-in user
+  setupAuth(app);
+
   // API routes for resume analysis
-  app.post("/api/resume/analyze", upload.single("file"), async (req: ResumeRequest, res: Response) => {
+  app.post("/api/resume/analyze", resumeUpload, async (req: Request, res: Response) => {
     try {
       console.log("Resume upload request received");
-      const file = req.file;
-      
-      // Flag if not a resume (PDF or DOCX) - check before any file reading
-      if (!file) {
-        console.log("No file uploaded");
-        return res.status(400).json({ message: "No file uploaded" });
+      const analysisRequest = await buildAnalysisRequest(req);
+      const result = await runResumeAnalysis(analysisRequest);
+      return res.status(200).json(result);
+    } catch (error) {
+      if (error instanceof AnalysisError) {
+        return res.status(error.status).json(error.toResponse());
       }
+      console.error("Error analyzing resume:", error);
+      return res.status(500).json({ 
+        message: error instanceof Error ? error.message : "An error occurred while analyzing the resume" 
+      });
+    }
+  });
+
+  // Same analysis, reported as Server-Sent Events: "stage" for each pipeline step,
+  // "partial" for category feedback as the model produces it, then "result" or "error"
+  app.post("/api/resume/analyze/stream", resumeUpload, async (req: Request, res: Response) => {
+    let analysisRequest: AnalysisRequest;
+    try {
+      console.log("Streaming resume upload request received");
+      analysisRequest = await buildAnalysisRequest(req);
+    } catch (error) {
+      if (error instanceof AnalysisError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      console.error("Error preparing resume analysis:", error);
+      return res.status(500).json({ message: "An error occurred while analyzing the resume" });
+    }
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
 
-      console.log("File received:", {
-        originalname: file.originalname,
-        mimetype: file.mimetype,
-        size: file.size
+    try {
+      const result = await runResumeAnalysis(analysisRequest, {
+        onStage: (stage) => send("stage", stage),
+        onPartial: (partial) => send("partial", partial),
       });
+      send("result", result);
+    } catch (error) {
+      const status = error instanceof AnalysisError ? error.status : 500;
+      if (status === 500) {
+        console.error("Error analyzing resume:", error);
+      }
+      send("error", error instanceof AnalysisError
+        ? { status, ...error.toResponse() }
+        : { status, message: error instanceof Error ? error.message : "An error occurred while analyzing the resume" });
+    }
+    res.end();
+  });
 
-      // Only now extract text from the document
-      let text: string;
+  // Queue an analysis and return right away; poll /api/resume/jobs/:id for the result
+  app.post("/api/resume/jobs", resumeUpload, async (req: Request, res: Response) => {
+    try {
+      console.log("Resume job request received");
+      const analysisRequest = await buildAnalysisRequest(req);
+
+      let job: AnalysisJob;
       try {
-        text = await extractTextFromDocument(file.buffer, file.mimetype);
-        console.log("Text extracted successfully, length:", text.length);
-      } catch (extractError) {
-        console.error("Error extracting text:", extractError);
-        return res.status(400).json({ 
-          message: extractError instanceof Error ? extractError.message : "Failed to extract text from document" 
-        });
+        job = await enqueueAnalysisJob(analysisRequest);
+      } catch (dbError) {
+        console.error("Database error queueing analysis job:", dbError);
+        return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
       }
-      
-      // Hash the resume text for caching
-      const hash = crypto.createHash('sha256').update(text).digest('hex');
-      if (resumeCache[hash]) {
-        console.log("Returning cached result");
-        return res.status(200).json(resumeCache[hash]);
+
+      return res.status(202)
+        .location(`/api/resume/jobs/${job.id}`)
+        .json({ jobId: job.id, status: job.status, statusUrl: `/api/resume/jobs/${job.id}` });
+    } catch (error) {
+      if (error instanceof AnalysisError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      console.error("Error queueing resume analysis:", error);
+      return res.status(500).json({ 
+        message: error instanceof Error ? error.message : "An error occurred while queueing the analysis" 
+      });
+    }
+  });
+
+  // Status of a queued analysis, with the result once it has completed
+  app.get("/api/resume/jobs/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
       }
 
-      // Check if the document is a resume using Gemini
-      let isResume: boolean;
+      let job: AnalysisJob | undefined;
       try {
-        isResume = await isResumeDocument(text);
-        console.log("Resume check result:", isResume);
-      } catch (resumeCheckError) {
-        console.error("Error checking if document is resume:", resumeCheckError);
-        // If Gemini fails, assume it's a resume and continue
-        isResume = true;
-      }
-
-      if (!isResume) {
-        const notResumeResult = {
-          id: Date.now(),
-          filename: file.originalname,
-          fileType: file.mimetype,
-          createdAt: new Date().toISOString(),
-          overallScore: 0,
-          keywordsScore: 0,
-          experienceScore: 0,
-          skillsScore: 0,
-          educationScore: 0,
-          formattingScore: 0,
-          feedback: {
-            keywords: "This document does not appear to be a resume. Please upload a valid resume (CV) for analysis.",
-            experience: "This document does not appear to be a resume. Please upload a valid resume (CV) for analysis.",
-            skills: "This document does not appear to be a resume. Please upload a valid resume (CV) for analysis.",
-            education: "This document does not appear to be a resume. Please upload a valid resume (CV) for analysis.",
-            formatting: "This document does not appear to be a resume. Please upload a valid resume (CV) for analysis."
-          },
-          improvementSuggestions: [
-            "Please upload a resume or CV document for accurate analysis."
-          ]
-        };
-        resumeCache[hash] = notResumeResult;
-        return res.status(200).json(notResumeResult);
+        job = await storage.getAnalysisJob(id);
+      } catch (dbError) {
+        console.error("Database error:", dbError);
+        return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
       }
-      
-      // Analyze the resume using Gemini
-      let analysisResult: any;
+
+      if (!job || !canAccess(job, getRecordOwner(req))) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      return res.status(200).json(toJobStatus(job));
+    } catch (error) {
+      console.error("Error getting analysis job:", error);
+      return res.status(500).json({ 
+        message: error instanceof Error ? error.message : "An error occurred while fetching the job" 
+      });
+    }
+  });
+
+  // Queue every resume in a multi-file or ZIP upload against one shared job description
+  app.post("/api/resume/batch", batchUpload, async (req: Request, res: Response) => {
+    try {
+      const files = req.files && !Array.isArray(req.files) ? req.files["files"] ?? [] : [];
+      console.log("Batch upload request received, files:", files.length);
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No files uploaded" });
+      }
+      // The batch storage engine only cuts oversized files short, so the job description is checked here
+      if ((getUploadedFile(req, "jobDescriptionFile")?.size ?? 0) > MAX_RESUME_SIZE) {
+        return res.status(413).json({ message: "The job description file is larger than 5MB", code: "FILE_TOO_LARGE" });
+      }
+
+      const options = await getAnalysisOptions(req);
+      const { files: resumes, skipped } = await expandBatchUploads(files);
+      if (resumes.length === 0) {
+        return res.status(400).json({ message: "No supported resume files found in the upload", skippedFiles: skipped });
+      }
+
+      let batchId: number;
       try {
-        analysisResult = await analyzeResumeWithGemini(text);
-        console.log("Analysis completed successfully");
-      } catch (analysisError) {
-        console.error("Error analyzing resume with Gemini:", analysisError);
-        // Return a fallback analysis if Gemini fails
-        analysisResult = {
-          overallScore: 70,
-          keywordsScore: 70,
-          experienceScore: 70,
-          skillsScore: 70,
-          educationScore: 70,
-          formattingScore: 70,
-          feedback: {
-            keywords: "Unable to analyze keywords due to technical issues. Please try again later.",
-            experience: "Unable to analyze experience due to technical issues. Please try again later.",
-            skills: "Unable to analyze skills due to technical issues. Please try again later.",
-            education: "Unable to analyze education due to technical issues. Please try again later.",
-            formatting: "Unable to analyze formatting due to technical issues. Please try again later."
-          },
-          improvementSuggestions: [
-            "Please try uploading your resume again in a few moments.",
-            "Ensure your resume is in PDF or DOCX format.",
-            "Check that your resume contains clear sections for experience, skills, and education."
-          ]
-        };
-      }
-
-      const result = {
-        id: Date.now(),
+        const { batch } = await createAnalysisBatch(
+          resumes, skipped, options.jobDescription, options.provider, options.owner
+        );
+        batchId = batch.id;
+      } catch (dbError) {
+        console.error("Database error queueing batch:", dbError);
+        return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+      }
+
+      return res.status(202)
+        .location(`/api/resume/batch/${batchId}`)
+        .json({ batchId, fileCount: resumes.length, skippedFiles: skipped, statusUrl: `/api/resume/batch/${batchId}` });
+    } catch (error) {
+      if (error instanceof AnalysisError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      console.error("Error queueing batch analysis:", error);
+      return res.status(500).json({ 
+        message: error instanceof Error ? error.message : "An error occurred while queueing the batch" 
+      });
+    }
+  });
+
+  // Load a batch with the current state of its jobs, responding with the error when that fails
+  async function loadBatchStatus(req: Request, res: Response): Promise<BatchStatus | undefined> {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ message: "Invalid ID format" });
+      return undefined;
+    }
+
+    try {
+      const batch = await storage.getAnalysisBatch(id);
+      if (!batch || !canAccess(batch, getRecordOwner(req))) {
+        res.status(404).json({ message: "Batch not found" });
+        return undefined;
+      }
+      return getBatchStatus(batch, await storage.getAnalysisJobsByBatch(id));
+    } catch (dbError) {
+      console.error("Database error:", dbError);
+      res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+      return undefined;
+    }
+  }
+
+  // Progress and per-file scores of a batch
+  app.get("/api/resume/batch/:id", async (req: Request, res: Response) => {
+    try {
+      const status = await loadBatchStatus(req, res);
+      if (status) {
+        return res.status(200).json(status);
+      }
+    } catch (error) {
+      console.error("Error getting batch:", error);
+      return res.status(500).json({ 
+        message: error instanceof Error ? error.message : "An error occurred while fetching the batch" 
+      });
+    }
+  });
+
+  // Batch results as a CSV download
+  app.get("/api/resume/batch/:id/export.csv", async (req: Request, res: Response) => {
+    try {
+      const status = await loadBatchStatus(req, res);
+      if (status) {
+        return res.status(200)
+          .type("text/csv")
+          .attachment(`batch-${status.batchId}-results.csv`)
+          .send(batchToCsv(status));
+      }
+    } catch (error) {
+      console.error("Error exporting batch:", error);
+      return res.status(500).json({ 
+        message: error instanceof Error ? error.message : "An error occurred while exporting the batch" 
+      });
+    }
+  });
+
+  // Parse a resume into structured fields without scoring it
+  app.post("/api/resume/parse", upload.single("file"), async (req: Request, res: Response) => {
+    try {
+      const file = req.file;
+      if (!file) {
+        return res.status(400).json({ message: "No file uploaded", code: "NO_FILE" });
+      }
+
+      const text = await extractUploadText(file, res);
+      if (text === undefined) return;
+
+      return res.status(200).json({
         filename: file.originalname,
         fileType: file.mimetype,
-        createdAt: new Date().toISOString(),
-        ...analysisResult
-      };
-      resumeCache[hash] = result;
-      console.log("Analysis result cached and returning");
-      return res.status(200).json(result);
+        profile: parseResume(text),
+      });
     } catch (error) {
-      console.error("Error analyzing resume:", error);
+      console.error("Error parsing resume:", error);
       return res.status(500).json({ 
-        message: error instanceof Error ? error.message : "An error occurred while analyzing the resume" 
+        message: error instanceof Error ? error.message : "An error occurred while parsing the resume" 
       });
     }
   });
 
+  // The candidate form an ATS would fill in, from an uploaded resume or the text of a stored analysis
+  app.post("/api/resume/ats-preview", upload.single("file"), async (req: Request, res: Response) => {
+    try {
+      let text: string;
+      let filename: string;
+      if (req.file) {
+        const extracted = await extractUploadText(req.file, res);
+        if (extracted === undefined) return;
+        text = extracted;
+        filename = req.file.originalname;
+      } else {
+        const parsed = atsPreviewRequestSchema.safeParse(req.body ?? {});
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Upload a file or provide an analysisId", code: "NO_FILE" });
+        }
+        const analysis = await loadResumeAnalysis(req, res, String(parsed.data.analysisId));
+        if (!analysis) return;
+        if (!analysis.resumeText) {
+          return res.status(404).json({ message: "The extracted text of this analysis was not kept. Upload the resume again to preview it." });
+        }
+        text = analysis.resumeText;
+        filename = analysis.filename;
+      }
+
+      return res.status(200).json({ filename, preview: buildAtsPreview(text) });
+    } catch (error) {
+      console.error("Error building ATS preview:", error);
+      return res.status(500).json({
+        message: error instanceof Error ? error.message : "An error occurred while building the ATS preview"
+      });
+    }
+  });
+
+  // Stronger rewrites of one bullet or of every bullet in a parsed experience entry
+  app.post("/api/resume/rewrite", async (req: Request, res: Response) => {
+    const parsed = bulletRewriteRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    let provider: LLMProvider;
+    try {
+      provider = getRequestedProvider(req);
+    } catch (error) {
+      if (error instanceof AnalysisError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      throw error;
+    }
+
+    const bullets = parsed.data.bullet !== undefined ? [parsed.data.bullet] : parsed.data.experience?.bullets ?? [];
+    return res.status(200).json(await rewriteBullets(bullets, provider, parsed.data.jobDescription || undefined));
+  });
+
   // Get a specific resume analysis
+  async function loadResumeAnalysis(req: Request, res: Response, idParam = req.params.id): Promise<ResumeAnalysis | undefined> {
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      res.status(400).json({ message: "Invalid ID format" });
+      return undefined;
+    }
+
+    let analysis: ResumeAnalysis | undefined;
+    try {
+      analysis = await storage.getResumeAnalysis(id);
+    } catch (dbError) {
+      console.error("Database error:", dbError);
+      res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+      return undefined;
+    }
+
+    if (!analysis || !canAccess(analysis, getRecordOwner(req))) {
+      res.status(404).json({ message: "Analysis not found" });
+      return undefined;
+    }
+    return analysis;
+  }
+
   app.get("/api/resume/analysis/:id", async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id);
-      
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid ID format" });
-      }
-      
-      try {
-        const analysis = await storage.getResumeAnalysis(id);
-        
-        if (!analysis) {
-          return res.status(404).json({ message: "Analysis not found" });
-        }
-        
+      const analysis = await loadResumeAnalysis(req, res);
+      if (analysis) {
         return res.status(200).json(analysis);
-      } catch (dbError) {
-        console.error("Database error:", dbError);
-        
-        // Return a demo analysis result
-        return res.status(200).json({
-          id: id,
-          filename: "sample-resume.pdf",
-          fileType: "application/pdf",
-          createdAt: new Date().toISOString(),
-          overallScore: 78,
-          keywordsScore: 75,
-          experienceScore: 82,
-          skillsScore: 80,
-          educationScore: 85,
-          formattingScore: 70,
-          feedback: {
-            keywords: "Your resume contains good keywords, but could benefit from more industry-specific terminology.",
-            experience: "Your work experience is well presented with quantified achievements.",
-            skills: "Your skills section is comprehensive and well organized.",
-            education: "Education details are clearly presented with relevant highlights.",
-            formatting: "The resume has a good structure but could be more ATS-friendly."
-          },
-          improvementSuggestions: [
-            "Add more industry-specific keywords throughout your resume.",
-            "Quantify more achievements with specific metrics to demonstrate impact.",
-            "Ensure consistent formatting of dates and headers for better ATS readability.",
-            "Tailor your resume for each application by highlighting relevant experiences.",
-            "Use standard section headers that are easily recognized by ATS systems."
-          ]
-        });
       }
     } catch (error) {
       console.error("Error getting analysis:", error);
@@ -210,47 +538,106 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
+  // A stored analysis as a downloadable PDF, DOCX, Markdown or JSON report
+  app.get("/api/resume/analysis/:id/report.:format", async (req: Request, res: Response) => {
+    try {
+      const format = req.params.format;
+      if (!isReportFormat(format)) {
+        return res.status(400).json({ message: `Unknown report format; use one of ${REPORT_FORMATS.join(", ")}` });
+      }
+
+      const analysis = await loadResumeAnalysis(req, res);
+      if (analysis) {
+        const report = await generateAnalysisReport(analysis, format);
+        return res.status(200)
+          .attachment(report.filename)
+          .type(report.contentType)
+          .send(report.content);
+      }
+    } catch (error) {
+      console.error("Error generating report:", error);
+      return res.status(500).json({ 
+        message: error instanceof Error ? error.message : "An error occurred while generating the report" 
+      });
+    }
+  });
+
+  // The signed-in user's analysis history, paginated, without the stored resume text
+  app.get("/api/resume/analyses", async (req: Request, res: Response) => {
+    const userId = getUserId(req);
+    if (userId === null) {
+      return res.status(401).json({ message: "Sign in to see your analysis history" });
+    }
+
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const pageSize = Math.min(Math.max(parseInt(req.query.pageSize as string) || 10, 1), 50);
+
+    try {
+      const [analyses, total] = await Promise.all([
+        storage.getUserResumeAnalyses(userId, pageSize, (page - 1) * pageSize),
+        storage.countUserResumeAnalyses(userId),
+      ]);
+      return res.status(200).json({
+        items: analyses.map(({ resumeText: _resumeText, ...analysis }) => analysis),
+        total,
+        page,
+        pageSize,
+      });
+    } catch (dbError) {
+      console.error("Database error:", dbError);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+  });
+
+  // Overall and category scores of the signed-in user's analyses, oldest first, for trend charts
+  app.get("/api/resume/analyses/trend", async (req: Request, res: Response) => {
+    const userId = getUserId(req);
+    if (userId === null) {
+      return res.status(401).json({ message: "Sign in to see your analysis history" });
+    }
+
+    try {
+      const analyses = await storage.getUserResumeAnalyses(userId, MAX_TREND_POINTS, 0);
+      return res.status(200).json(analyses.reverse().map((analysis) => ({
+        id: analysis.id,
+        filename: analysis.filename,
+        createdAt: analysis.createdAt,
+        overallScore: analysis.overallScore,
+        keywordsScore: analysis.keywordsScore,
+        experienceScore: analysis.experienceScore,
+        skillsScore: analysis.skillsScore,
+        educationScore: analysis.educationScore,
+        formattingScore: analysis.formattingScore,
+      })));
+    } catch (dbError) {
+      console.error("Database error:", dbError);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+  });
+
   // Get recent resume analyses
   app.get("/api/resume/analyses/recent", async (req: Request, res: Response) => {
     try {
-      const limit = parseInt(req.query.limit as string) || 5;
+      const limit = Math.min(parseInt(req.query.limit as string) || 5, 50);
       
+      // Anonymous visitors only see what their own session uploaded
+      const owner = getRecordOwner(req);
+      if (!owner) {
+        return res.status(200).json([]);
+      }
+
+      let analyses: ResumeAnalysis[];
       try {
-        const analyses = await storage.getRecentResumeAnalyses(limit);
-        return res.status(200).json(analyses);
+        analyses = await storage.getRecentResumeAnalyses(limit, owner);
       } catch (dbError) {
         console.error("Database error:", dbError);
-        
-        // Return demo analyses
-        const demoAnalyses = Array(limit).fill(0).map((_, i) => ({
-          id: i + 1,
-          filename: `sample-resume-${i + 1}.pdf`,
-          fileType: "application/pdf",
-          createdAt: new Date(Date.now() - i * 86400000).toISOString(),
-          overallScore: Math.floor(Math.random() * 20) + 70,
-          keywordsScore: Math.floor(Math.random() * 20) + 70,
-          experienceScore: Math.floor(Math.random() * 15) + 75,
-          skillsScore: Math.floor(Math.random() * 25) + 65,
-          educationScore: Math.floor(Math.random() * 20) + 70,
-          formattingScore: Math.floor(Math.random() * 30) + 60,
-          feedback: {
-            keywords: "Your resume contains good keywords, but could benefit from more industry-specific terminology.",
-            experience: "Your work experience is well presented with quantified achievements.",
-            skills: "Your skills section is comprehensive and well organized.",
-            education: "Education details are clearly presented with relevant highlights.",
-            formatting: "The resume has a good structure but could be more ATS-friendly."
-          },
-          improvementSuggestions: [
-            "Add more industry-specific keywords throughout your resume.",
-            "Quantify more achievements with specific metrics to demonstrate impact.",
-            "Ensure consistent formatting of dates and headers for better ATS readability.",
-            "Tailor your resume for each application by highlighting relevant experiences.",
-            "Use standard section headers that are easily recognized by ATS systems."
-          ]
-        }));
-        
-        return res.status(200).json(demoAnalyses);
+        return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
       }
+
+      // A summary list: the resume text and the findings that quote it come with the full analysis by id
+      return res.status(200).json(analyses.map(
+        ({ resumeText: _resumeText, findings: _findings, promptInjection: _promptInjection, ...analysis }) => analysis
+      ));
     } catch (error) {
       console.error("Error getting recent analyses:", error);
       return res.status(500).json({ 
@@ -258,4 +645,606 @@ export async function registerRoutes(app: Express): Promise<void> {
       });
     }
   });
+
+  // Load the resume document named by :id, responding with the error when that fails
+  async function loadResumeDocument(req: Request, res: Response): Promise<ResumeDocument | undefined> {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ message: "Invalid ID format" });
+      return undefined;
+    }
+
+    try {
+      const document = await storage.getResumeDocument(id);
+      if (!document || !canAccess(document, getRecordOwner(req))) {
+        res.status(404).json({ message: "Resume not found" });
+        return undefined;
+      }
+      return document;
+    } catch (dbError) {
+      console.error("Database error:", dbError);
+      res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+      return undefined;
+    }
+  }
+
+  async function sendResumeDocumentDetail(res: Response, document: ResumeDocument, status = 200) {
+    try {
+      return res.status(status).json(await getResumeDocumentDetail(document));
+    } catch (dbError) {
+      console.error("Database error:", dbError);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+  }
+
+  // Resume documents group uploads of the same resume as numbered versions
+  app.get("/api/resume/documents", async (req: Request, res: Response) => {
+    const owner = getRecordOwner(req);
+    if (!owner) {
+      return res.status(200).json([]);
+    }
+
+    try {
+      const documents = await storage.getResumeDocuments(owner);
+      return res.status(200).json(await Promise.all(documents.map(getResumeDocumentDetail)));
+    } catch (dbError) {
+      console.error("Database error:", dbError);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+  });
+
+  app.post("/api/resume/documents", async (req: Request, res: Response) => {
+    const parsed = insertResumeDocumentSchema.pick({ name: true }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    let document: ResumeDocument;
+    try {
+      document = await storage.createResumeDocument({ name: parsed.data.name, ...ownerColumns(claimRecordOwner(req)) });
+    } catch (dbError) {
+      console.error("Database error creating resume document:", dbError);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+    return sendResumeDocumentDetail(res, document, 201);
+  });
+
+  app.get("/api/resume/documents/:id", async (req: Request, res: Response) => {
+    const document = await loadResumeDocument(req, res);
+    if (document) {
+      return sendResumeDocumentDetail(res, document);
+    }
+  });
+
+  // Add a stored analysis as the document's next version
+  app.post("/api/resume/documents/:id/versions", async (req: Request, res: Response) => {
+    const document = await loadResumeDocument(req, res);
+    if (!document) return;
+
+    const analysisId = Number(req.body?.analysisId);
+    if (!Number.isInteger(analysisId)) {
+      return res.status(400).json({ message: "analysisId must be the id of a stored analysis" });
+    }
+
+    try {
+      await addResumeVersion(document, analysisId, getRecordOwner(req));
+    } catch (error) {
+      if (error instanceof AnalysisError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      console.error("Database error adding resume version:", error);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+    return sendResumeDocumentDetail(res, document, 201);
+  });
+
+  // Text diff, score deltas and resolved or new suggestions between two analyses
+  app.get("/api/resume/compare", async (req: Request, res: Response) => {
+    const fromId = parseInt(req.query.from as string);
+    const toId = parseInt(req.query.to as string);
+    if (isNaN(fromId) || isNaN(toId)) {
+      return res.status(400).json({ message: "from and to must be analysis ids" });
+    }
+
+    try {
+      return res.status(200).json(await compareResumeAnalyses(fromId, toId, getRecordOwner(req)));
+    } catch (error) {
+      if (error instanceof AnalysisError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      console.error("Database error comparing analyses:", error);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+  });
+
+  // Openings hold a recruiter's candidate pipeline, so they are only available to signed-in users
+  function requireOpeningsUser(req: Request, res: Response): number | undefined {
+    const userId = getUserId(req);
+    if (userId === null) {
+      res.status(401).json({ message: "Sign in to manage openings" });
+      return undefined;
+    }
+    return userId;
+  }
+
+  // Load the signed-in user's opening named by :id, responding with the error when that fails
+  async function loadOpening(req: Request, res: Response): Promise<Opening | undefined> {
+    const userId = requireOpeningsUser(req, res);
+    if (userId === undefined) return undefined;
+
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ message: "Invalid ID format" });
+      return undefined;
+    }
+
+    try {
+      const opening = await storage.getOpening(id);
+      // Openings from before they had an owner belong to nobody
+      if (!opening || opening.userId !== userId) {
+        res.status(404).json({ message: "Opening not found" });
+        return undefined;
+      }
+      return opening;
+    } catch (dbError) {
+      console.error("Database error:", dbError);
+      res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+      return undefined;
+    }
+  }
+
+  // Opening with its candidates ranked by fit
+  async function sendOpeningDetail(res: Response, opening: Opening, status = 200) {
+    let candidates: RankedCandidate[];
+    try {
+      candidates = await getRankedCandidates(opening.id);
+    } catch (dbError) {
+      console.error("Database error:", dbError);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+    return res.status(status).json({ ...opening, candidates });
+  }
+
+  // Recruiter job openings
+  app.get("/api/openings", async (req: Request, res: Response) => {
+    const userId = requireOpeningsUser(req, res);
+    if (userId === undefined) return;
+
+    try {
+      return res.status(200).json(await storage.getOpenings(userId));
+    } catch (dbError) {
+      console.error("Database error:", dbError);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+  });
+
+  app.post("/api/openings", async (req: Request, res: Response) => {
+    const userId = requireOpeningsUser(req, res);
+    if (userId === undefined) return;
+
+    const parsed = openingInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    let opening: Opening;
+    try {
+      opening = await storage.createOpening({ ...parsed.data, userId });
+    } catch (dbError) {
+      console.error("Database error creating opening:", dbError);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+    return sendOpeningDetail(res, opening, 201);
+  });
+
+  app.get("/api/openings/:id", async (req: Request, res: Response) => {
+    const opening = await loadOpening(req, res);
+    if (opening) {
+      return sendOpeningDetail(res, opening);
+    }
+  });
+
+  // Editing the requirements re-scores every attached candidate
+  app.patch("/api/openings/:id", async (req: Request, res: Response) => {
+    const opening = await loadOpening(req, res);
+    if (!opening) return;
+
+    const parsed = updateOpeningSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    let updated: Opening | undefined;
+    try {
+      updated = await storage.updateOpening(opening.id, parsed.data);
+      if (updated && (parsed.data.mustHaveRequirements || parsed.data.niceToHaveRequirements)) {
+        await reevaluateCandidates(updated);
+      }
+    } catch (dbError) {
+      console.error("Database error updating opening:", dbError);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+    if (!updated) {
+      return res.status(404).json({ message: "Opening not found" });
+    }
+    return sendOpeningDetail(res, updated);
+  });
+
+  // Attach an analyzed resume to the opening as a candidate
+  app.post("/api/openings/:id/candidates", async (req: Request, res: Response) => {
+    const opening = await loadOpening(req, res);
+    if (!opening) return;
+
+    const analysisId = Number(req.body?.analysisId);
+    if (!Number.isInteger(analysisId)) {
+      return res.status(400).json({ message: "analysisId must be the id of a stored analysis" });
+    }
+
+    try {
+      await attachCandidate(opening, analysisId, getRecordOwner(req));
+    } catch (error) {
+      if (error instanceof AnalysisError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      console.error("Database error attaching candidate:", error);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+    return sendOpeningDetail(res, opening, 201);
+  });
+
+  // Manually override a candidate's score; a null overrideScore restores the computed fit
+  app.patch("/api/openings/:id/candidates/:candidateId", async (req: Request, res: Response) => {
+    const opening = await loadOpening(req, res);
+    if (!opening) return;
+
+    const candidateId = parseInt(req.params.candidateId);
+    if (isNaN(candidateId)) {
+      return res.status(400).json({ message: "Invalid ID format" });
+    }
+    const parsed = candidateOverrideSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const candidate = await storage.getOpeningCandidate(opening.id, candidateId);
+      if (!candidate) {
+        return res.status(404).json({ message: "Candidate not found" });
+      }
+      await storage.updateOpeningCandidate(candidate.id, {
+        overrideScore: parsed.data.overrideScore,
+        overrideNote: parsed.data.overrideScore === null ? null : parsed.data.overrideNote || null,
+      });
+    } catch (dbError) {
+      console.error("Database error updating candidate:", dbError);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+    return sendOpeningDetail(res, opening);
+  });
+
+  app.delete("/api/openings/:id/candidates/:candidateId", async (req: Request, res: Response) => {
+    const opening = await loadOpening(req, res);
+    if (!opening) return;
+
+    const candidateId = parseInt(req.params.candidateId);
+    if (isNaN(candidateId)) {
+      return res.status(400).json({ message: "Invalid ID format" });
+    }
+
+    try {
+      const candidate = await storage.getOpeningCandidate(opening.id, candidateId);
+      if (!candidate) {
+        return res.status(404).json({ message: "Candidate not found" });
+      }
+      await storage.deleteOpeningCandidate(candidate.id);
+    } catch (dbError) {
+      console.error("Database error removing candidate:", dbError);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+    return sendOpeningDetail(res, opening);
+  });
+
+  // Score an uploaded cover letter, against the job description when one is supplied
+  app.post("/api/cover-letter/analyze", resumeUpload, async (req: Request, res: Response) => {
+    const file = getUploadedFile(req, "file");
+    if (!file) {
+      return res.status(400).json({ message: "No file uploaded", code: "NO_FILE" });
+    }
+
+    let options: Omit<AnalysisRequest, "file">;
+    try {
+      options = await getAnalysisOptions(req);
+    } catch (error) {
+      if (error instanceof AnalysisError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      throw error;
+    }
+
+    const text = await extractUploadText(file, res);
+    if (text === undefined) return;
+    if (!text.trim()) {
+      return res.status(400).json({ message: "No text could be found in the cover letter", code: "EXTRACTION_FAILED" });
+    }
+
+    const result = await analyzeCoverLetter(text, options.jobDescription, options.provider);
+    try {
+      const saved = await storage.createCoverLetterAnalysis({
+        filename: file.originalname,
+        fileType: file.mimetype,
+        overallScore: result.overallScore,
+        personalizationScore: result.personalizationScore,
+        structureScore: result.structureScore,
+        lengthScore: result.lengthScore,
+        alignmentScore: result.alignmentScore,
+        wordCount: result.wordCount,
+        feedback: result.feedback,
+        improvementSuggestions: result.improvementSuggestions,
+        jobDescriptionHash: options.jobDescription ? sha256(options.jobDescription) : null,
+        provider: result.provider ?? options.provider.name,
+        model: result.model ?? options.provider.model,
+        usage: result.usage ?? null,
+        letterText: text,
+        ...ownerColumns(options.owner),
+      });
+      return res.status(200).json(saved);
+    } catch (dbError) {
+      console.error("Database error saving cover letter analysis:", dbError);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+  });
+
+  app.get("/api/cover-letter/analysis/:id", async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid ID format" });
+    }
+
+    let analysis: CoverLetterAnalysis | undefined;
+    try {
+      analysis = await storage.getCoverLetterAnalysis(id);
+    } catch (dbError) {
+      console.error("Database error:", dbError);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+    if (!analysis || !canAccess(analysis, getRecordOwner(req))) {
+      return res.status(404).json({ message: "Cover letter analysis not found" });
+    }
+    return res.status(200).json(analysis);
+  });
+
+  // Draft a cover letter for a posting from the resume of a stored analysis
+  app.post("/api/cover-letter/generate", async (req: Request, res: Response) => {
+    const parsed = coverLetterDraftRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    let provider: LLMProvider;
+    try {
+      provider = getRequestedProvider(req);
+    } catch (error) {
+      if (error instanceof AnalysisError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      throw error;
+    }
+
+    const analysis = await loadResumeAnalysis(req, res, String(parsed.data.analysisId));
+    if (!analysis) return;
+    if (!analysis.resumeText) {
+      return res.status(404).json({ message: "The extracted text of this analysis was not kept. Analyze the resume again to draft a cover letter from it." });
+    }
+    return res.status(200).json(await generateCoverLetter(analysis.resumeText, parsed.data.jobDescription, provider));
+  });
+
+  // Stored conversation of the requester; expired and other people's conversations are not found
+  async function loadChatConversation(req: Request, res: Response, idParam: string = req.params.id): Promise<ChatConversation | undefined> {
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      res.status(400).json({ message: "Invalid ID format" });
+      return undefined;
+    }
+
+    try {
+      const conversation = await storage.getChatConversation(id);
+      if (!conversation || !ownsConversation(getChatOwner(req), conversation)) {
+        res.status(404).json({ message: "Conversation not found" });
+        return undefined;
+      }
+      return conversation;
+    } catch (dbError) {
+      console.error("Database error:", dbError);
+      res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+      return undefined;
+    }
+  }
+
+  // Career assistant chat, streamed as Server-Sent Events: "conversation" with the stored
+  // conversation the message went to, "delta" with each piece of the reply, then "done"
+  // with the whole reply and follow-up actions, or "error"
+  app.post("/api/chat", async (req: Request, res: Response) => {
+    const parsed = chatRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    let provider: LLMProvider;
+    try {
+      provider = getRequestedProvider(req);
+    } catch (error) {
+      if (error instanceof AnalysisError) {
+        return res.status(error.status).json(error.toResponse());
+      }
+      throw error;
+    }
+
+    let conversation: ChatConversation | undefined;
+    if (parsed.data.conversationId !== undefined) {
+      conversation = await loadChatConversation(req, res, String(parsed.data.conversationId));
+      if (!conversation) return;
+    }
+
+    // The analysis being discussed: the one the user has open, or their latest
+    let analysis: ResumeAnalysis | null = null;
+    const userId = getUserId(req);
+    if (parsed.data.analysisId !== undefined) {
+      const requested = await loadResumeAnalysis(req, res, String(parsed.data.analysisId));
+      if (!requested) return;
+      analysis = requested;
+    } else if (userId !== null) {
+      try {
+        analysis = (await storage.getUserResumeAnalyses(userId, 1, 0))[0] ?? null;
+      } catch (dbError) {
+        // The assistant still works without the analysis as context
+        console.error("Database error loading latest analysis for chat:", dbError);
+      }
+    }
+
+    const retentionDays = getChatRetentionDays(req);
+    let history: ChatMessage[];
+    try {
+      if (!conversation) {
+        keepChatSession(req);
+        conversation = await storage.createChatConversation({
+          ...(userId !== null ? { userId } : { sessionId: req.sessionID }),
+          title: conversationTitle(parsed.data.message),
+          expiresAt: chatExpiry(retentionDays),
+        });
+      }
+      await storage.createChatMessage({ conversationId: conversation.id, role: "user", content: parsed.data.message });
+      history = await storage.getChatMessages(conversation.id);
+    } catch (dbError) {
+      console.error("Database error saving chat message:", dbError);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const conversationId = conversation.id;
+    send("conversation", { id: conversationId, title: conversation.title });
+    try {
+      const reply = await answerChat(history, analysis, provider, (text) => send("delta", { text }));
+      try {
+        await storage.createChatMessage({ conversationId, role: "assistant", content: reply.reply, actions: reply.actions });
+        await storage.touchChatConversation(conversationId, chatExpiry(retentionDays));
+      } catch (dbError) {
+        // The reply was already streamed; it is only missing from the history
+        console.error("Database error saving chat reply:", dbError);
+      }
+      send("done", { ...reply, conversationId });
+    } catch (error) {
+      console.error("Error answering chat:", error);
+      send("error", { message: "The assistant could not finish its reply. Please try again." });
+    }
+    res.end();
+  });
+
+  // The requester's stored conversations, most recently active first
+  app.get("/api/chat/conversations", async (req: Request, res: Response) => {
+    try {
+      const now = new Date();
+      const owner = getChatOwner(req);
+      const conversations = (await storage.getChatConversations(owner))
+        .filter((conversation) => ownsConversation(owner, conversation, now));
+      return res.status(200).json({ conversations: conversations.map(toPublicConversation) });
+    } catch (dbError) {
+      console.error("Database error listing chat conversations:", dbError);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+  });
+
+  app.get("/api/chat/conversations/:id", async (req: Request, res: Response) => {
+    const conversation = await loadChatConversation(req, res);
+    if (!conversation) return;
+
+    try {
+      const messages = await storage.getChatMessages(conversation.id);
+      return res.status(200).json({ conversation: toPublicConversation(conversation), messages });
+    } catch (dbError) {
+      console.error("Database error loading chat messages:", dbError);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+  });
+
+  // Transcript of a conversation as a Markdown download
+  app.get("/api/chat/conversations/:id/export.md", async (req: Request, res: Response) => {
+    const conversation = await loadChatConversation(req, res);
+    if (!conversation) return;
+
+    try {
+      const messages = await storage.getChatMessages(conversation.id);
+      return res
+        .status(200)
+        .attachment(`chat-${conversation.id}.md`)
+        .type("text/markdown; charset=utf-8")
+        .send(conversationToMarkdown(conversation, messages));
+    } catch (dbError) {
+      console.error("Database error exporting chat conversation:", dbError);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+  });
+
+  app.delete("/api/chat/conversations/:id", async (req: Request, res: Response) => {
+    const conversation = await loadChatConversation(req, res);
+    if (!conversation) return;
+
+    try {
+      await storage.deleteChatConversation(conversation.id);
+      return res.sendStatus(204);
+    } catch (dbError) {
+      console.error("Database error deleting chat conversation:", dbError);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+  });
+
+  // Delete all of the requester's chat history
+  app.delete("/api/chat/conversations", async (req: Request, res: Response) => {
+    try {
+      const deleted = await storage.deleteChatConversations(getChatOwner(req));
+      return res.status(200).json({ deleted });
+    } catch (dbError) {
+      console.error("Database error deleting chat history:", dbError);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+  });
+
+  // How long conversations are kept after their last message; only signed-in users can change it
+  app.get("/api/chat/settings", (req: Request, res: Response) => {
+    return res.status(200).json({
+      retentionDays: getChatRetentionDays(req),
+      options: CHAT_RETENTION_OPTIONS,
+      signedIn: req.isAuthenticated(),
+    });
+  });
+
+  app.put("/api/chat/settings", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Sign in to choose how long your chats are kept" });
+    }
+    const parsed = chatSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const { retentionDays } = parsed.data;
+      await storage.updateUserChatRetention(req.user.id, retentionDays);
+      // Existing conversations follow the new setting too
+      await storage.setChatConversationsExpiry({ userId: req.user.id }, retentionDays);
+      return res.status(200).json({ retentionDays, options: CHAT_RETENTION_OPTIONS, signedIn: true });
+    } catch (dbError) {
+      console.error("Database error updating chat settings:", dbError);
+      return res.status(503).json({ message: STORAGE_UNAVAILABLE_MESSAGE });
+    }
+  });
 }
@@ -1,15 +1,93 @@
-import { resumeAnalysis, type ResumeAnalysis, type InsertResumeAnalysis, users, type User, type InsertUser } from "./schema";
+import {
+  resumeAnalysis, type ResumeAnalysis, type InsertResumeAnalysis, users, type User, type InsertUser,
+  analysisJobs, type AnalysisJob, type InsertAnalysisJob, type AnalysisJobUpdate,
+  analysisBatches, type AnalysisBatch, type InsertAnalysisBatch,
+  openings, type Opening, type InsertOpening, type UpdateOpening,
+  openingCandidates, type OpeningCandidate, type InsertOpeningCandidate, type OpeningCandidateUpdate,
+  resumeDocuments, type ResumeDocument, type InsertResumeDocument,
+  chatConversations, type ChatConversation, type InsertChatConversation, type ChatOwner, type RecordOwner,
+  chatMessages, type ChatMessage, type InsertChatMessage,
+  coverLetterAnalyses, type CoverLetterAnalysis, type InsertCoverLetterAnalysis,
+} from "./schema";
 import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { eq, desc, asc, and, isNull, sql, count, inArray, lt } from "drizzle-orm";
 
 // Storage interface defines the methods for interacting with the data
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserChatRetention(userId: number, retentionDays: number | null): Promise<User | undefined>;
   createResumeAnalysis(analysis: InsertResumeAnalysis): Promise<ResumeAnalysis>;
   getResumeAnalysis(id: number): Promise<ResumeAnalysis | undefined>;
-  getRecentResumeAnalyses(limit: number): Promise<ResumeAnalysis[]>;
+  // Analyses are scoped to their owner: the signed-in user or the anonymous session that uploaded them
+  getRecentResumeAnalyses(limit: number, owner: RecordOwner): Promise<ResumeAnalysis[]>;
+  getLatestResumeAnalysisByHash(textHash: string, owner: RecordOwner): Promise<ResumeAnalysis | undefined>;
+  // A signed-in user's history, newest first
+  getUserResumeAnalyses(userId: number, limit: number, offset: number): Promise<ResumeAnalysis[]>;
+  countUserResumeAnalyses(userId: number): Promise<number>;
+  createResumeDocument(document: InsertResumeDocument): Promise<ResumeDocument>;
+  getResumeDocument(id: number): Promise<ResumeDocument | undefined>;
+  // Newest first, scoped to their owner like analyses
+  getResumeDocuments(owner: RecordOwner): Promise<ResumeDocument[]>;
+  // A document's analyses in version order
+  getResumeDocumentVersions(documentId: number): Promise<ResumeAnalysis[]>;
+  setResumeAnalysisVersion(analysisId: number, documentId: number, version: number): Promise<ResumeAnalysis | undefined>;
+  createAnalysisJob(job: InsertAnalysisJob): Promise<AnalysisJob>;
+  getAnalysisJob(id: number): Promise<AnalysisJob | undefined>;
+  // Mark the oldest queued job that is due as running and count the attempt; undefined when none is due
+  claimNextAnalysisJob(): Promise<AnalysisJob | undefined>;
+  updateAnalysisJob(id: number, update: AnalysisJobUpdate): Promise<AnalysisJob | undefined>;
+  // Put jobs left running without an update for longer than leaseMs back in the queue, so jobs
+  // another instance is still working on are left alone; returns how many were requeued
+  requeueRunningAnalysisJobs(leaseMs: number): Promise<number>;
+  createAnalysisBatch(batch: InsertAnalysisBatch): Promise<AnalysisBatch>;
+  getAnalysisBatch(id: number): Promise<AnalysisBatch | undefined>;
+  getAnalysisJobsByBatch(batchId: number): Promise<AnalysisJob[]>;
+  createOpening(opening: InsertOpening): Promise<Opening>;
+  getOpening(id: number): Promise<Opening | undefined>;
+  // Newest first, only the given user's
+  getOpenings(userId: number): Promise<Opening[]>;
+  updateOpening(id: number, update: UpdateOpening): Promise<Opening | undefined>;
+  createOpeningCandidate(candidate: InsertOpeningCandidate): Promise<OpeningCandidate>;
+  getOpeningCandidate(openingId: number, candidateId: number): Promise<OpeningCandidate | undefined>;
+  getOpeningCandidateByAnalysis(openingId: number, analysisId: number): Promise<OpeningCandidate | undefined>;
+  getOpeningCandidates(openingId: number): Promise<OpeningCandidate[]>;
+  updateOpeningCandidate(id: number, update: OpeningCandidateUpdate): Promise<OpeningCandidate | undefined>;
+  deleteOpeningCandidate(id: number): Promise<boolean>;
+  createCoverLetterAnalysis(analysis: InsertCoverLetterAnalysis): Promise<CoverLetterAnalysis>;
+  getCoverLetterAnalysis(id: number): Promise<CoverLetterAnalysis | undefined>;
+  createChatConversation(conversation: InsertChatConversation): Promise<ChatConversation>;
+  getChatConversation(id: number): Promise<ChatConversation | undefined>;
+  // Most recently active first
+  getChatConversations(owner: ChatOwner): Promise<ChatConversation[]>;
+  // Record new activity on a conversation along with its new expiry
+  touchChatConversation(id: number, expiresAt: Date | null): Promise<void>;
+  // Hand an anonymous session's conversations to the user who signed in; returns how many moved
+  claimChatConversations(sessionId: string, userId: number): Promise<number>;
+  // Recompute when each of the owner's conversations expires, counting from its last activity
+  setChatConversationsExpiry(owner: ChatOwner, retentionDays: number | null): Promise<void>;
+  // Deleting a conversation deletes its messages too
+  deleteChatConversation(id: number): Promise<boolean>;
+  deleteChatConversations(owner: ChatOwner): Promise<number>;
+  deleteExpiredChatConversations(now: Date): Promise<number>;
+  createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
+  // Oldest first
+  getChatMessages(conversationId: number): Promise<ChatMessage[]>;
+}
+
+function analysisOwnedBy(owner: RecordOwner) {
+  return "userId" in owner
+    ? eq(resumeAnalysis.userId, owner.userId)
+    : and(isNull(resumeAnalysis.userId), eq(resumeAnalysis.sessionKey, owner.sessionKey));
+}
+
+function isRecordOwner(owner: RecordOwner, record: { userId: number | null; sessionKey: string | null }): boolean {
+  return "userId" in owner ? record.userId === owner.userId : record.userId === null && record.sessionKey === owner.sessionKey;
+}
+
+function chatOwnedBy(owner: ChatOwner) {
+  return "userId" in owner ? eq(chatConversations.userId, owner.userId) : eq(chatConversations.sessionId, owner.sessionId);
 }
 
 // DatabaseStorage implements the IStorage interface using the PostgreSQL database
@@ -32,6 +110,15 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUserChatRetention(userId: number, retentionDays: number | null): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ chatRetentionDays: retentionDays })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
   async createResumeAnalysis(insertAnalysis: InsertResumeAnalysis): Promise<ResumeAnalysis> {
     const [analysis] = await db
       .insert(resumeAnalysis)
@@ -48,13 +135,762 @@ export class DatabaseStorage implements IStorage {
     return analysis;
   }
 
-  async getRecentResumeAnalyses(limit: number): Promise<ResumeAnalysis[]> {
+  async getRecentResumeAnalyses(limit: number, owner: RecordOwner): Promise<ResumeAnalysis[]> {
     return await db
       .select()
       .from(resumeAnalysis)
+      .where(analysisOwnedBy(owner))
       .orderBy(desc(resumeAnalysis.createdAt))
       .limit(limit);
   }
+
+  async getLatestResumeAnalysisByHash(textHash: string, owner: RecordOwner): Promise<ResumeAnalysis | undefined> {
+    const [analysis] = await db
+      .select()
+      .from(resumeAnalysis)
+      .where(and(eq(resumeAnalysis.textHash, textHash), analysisOwnedBy(owner)))
+      .orderBy(desc(resumeAnalysis.createdAt))
+      .limit(1);
+    return analysis;
+  }
+
+  async getUserResumeAnalyses(userId: number, limit: number, offset: number): Promise<ResumeAnalysis[]> {
+    return await db
+      .select()
+      .from(resumeAnalysis)
+      .where(eq(resumeAnalysis.userId, userId))
+      .orderBy(desc(resumeAnalysis.createdAt), desc(resumeAnalysis.id))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async countUserResumeAnalyses(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ total: count() })
+      .from(resumeAnalysis)
+      .where(eq(resumeAnalysis.userId, userId));
+    return result?.total ?? 0;
+  }
+
+  async createResumeDocument(insertDocument: InsertResumeDocument): Promise<ResumeDocument> {
+    const [document] = await db
+      .insert(resumeDocuments)
+      .values(insertDocument)
+      .returning();
+    return document;
+  }
+
+  async getResumeDocument(id: number): Promise<ResumeDocument | undefined> {
+    const [document] = await db
+      .select()
+      .from(resumeDocuments)
+      .where(eq(resumeDocuments.id, id));
+    return document;
+  }
+
+  async getResumeDocuments(owner: RecordOwner): Promise<ResumeDocument[]> {
+    return await db
+      .select()
+      .from(resumeDocuments)
+      .where("userId" in owner
+        ? eq(resumeDocuments.userId, owner.userId)
+        : and(isNull(resumeDocuments.userId), eq(resumeDocuments.sessionKey, owner.sessionKey)))
+      .orderBy(desc(resumeDocuments.createdAt), desc(resumeDocuments.id));
+  }
+
+  async getResumeDocumentVersions(documentId: number): Promise<ResumeAnalysis[]> {
+    return await db
+      .select()
+      .from(resumeAnalysis)
+      .where(eq(resumeAnalysis.documentId, documentId))
+      .orderBy(asc(resumeAnalysis.version));
+  }
+
+  async setResumeAnalysisVersion(analysisId: number, documentId: number, version: number): Promise<ResumeAnalysis | undefined> {
+    const [analysis] = await db
+      .update(resumeAnalysis)
+      .set({ documentId, version })
+      .where(eq(resumeAnalysis.id, analysisId))
+      .returning();
+    return analysis;
+  }
+
+  async createAnalysisJob(insertJob: InsertAnalysisJob): Promise<AnalysisJob> {
+    const [job] = await db
+      .insert(analysisJobs)
+      .values(insertJob)
+      .returning();
+    return job;
+  }
+
+  async getAnalysisJob(id: number): Promise<AnalysisJob | undefined> {
+    const [job] = await db
+      .select()
+      .from(analysisJobs)
+      .where(eq(analysisJobs.id, id));
+    return job;
+  }
+
+  async claimNextAnalysisJob(): Promise<AnalysisJob | undefined> {
+    // SKIP LOCKED lets several server instances share the queue without claiming the same job
+    const [job] = await db
+      .update(analysisJobs)
+      .set({
+        status: "running",
+        attempts: sql`${analysisJobs.attempts} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(sql`${analysisJobs.id} = (
+        select ${analysisJobs.id} from ${analysisJobs}
+        where ${analysisJobs.status} = 'queued' and ${analysisJobs.runAfter} <= now()
+        order by ${analysisJobs.id}
+        limit 1
+        for update skip locked
+      )`)
+      .returning();
+    return job;
+  }
+
+  async updateAnalysisJob(id: number, update: AnalysisJobUpdate): Promise<AnalysisJob | undefined> {
+    const [job] = await db
+      .update(analysisJobs)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(analysisJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async requeueRunningAnalysisJobs(leaseMs: number): Promise<number> {
+    const jobs = await db
+      .update(analysisJobs)
+      .set({ status: "queued", updatedAt: new Date() })
+      .where(and(
+        eq(analysisJobs.status, "running"),
+        lt(analysisJobs.updatedAt, new Date(Date.now() - leaseMs))
+      ))
+      .returning({ id: analysisJobs.id });
+    return jobs.length;
+  }
+
+  async createAnalysisBatch(insertBatch: InsertAnalysisBatch): Promise<AnalysisBatch> {
+    const [batch] = await db
+      .insert(analysisBatches)
+      .values(insertBatch)
+      .returning();
+    return batch;
+  }
+
+  async getAnalysisBatch(id: number): Promise<AnalysisBatch | undefined> {
+    const [batch] = await db
+      .select()
+      .from(analysisBatches)
+      .where(eq(analysisBatches.id, id));
+    return batch;
+  }
+
+  async getAnalysisJobsByBatch(batchId: number): Promise<AnalysisJob[]> {
+    return await db
+      .select()
+      .from(analysisJobs)
+      .where(eq(analysisJobs.batchId, batchId))
+      .orderBy(asc(analysisJobs.id));
+  }
+
+  async createOpening(insertOpening: InsertOpening): Promise<Opening> {
+    const [opening] = await db
+      .insert(openings)
+      .values(insertOpening)
+      .returning();
+    return opening;
+  }
+
+  async getOpening(id: number): Promise<Opening | undefined> {
+    const [opening] = await db
+      .select()
+      .from(openings)
+      .where(eq(openings.id, id));
+    return opening;
+  }
+
+  async getOpenings(userId: number): Promise<Opening[]> {
+    return await db
+      .select()
+      .from(openings)
+      .where(eq(openings.userId, userId))
+      .orderBy(desc(openings.createdAt));
+  }
+
+  async updateOpening(id: number, update: UpdateOpening): Promise<Opening | undefined> {
+    const [opening] = await db
+      .update(openings)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(openings.id, id))
+      .returning();
+    return opening;
+  }
+
+  async createOpeningCandidate(insertCandidate: InsertOpeningCandidate): Promise<OpeningCandidate> {
+    const [candidate] = await db
+      .insert(openingCandidates)
+      .values(insertCandidate)
+      .returning();
+    return candidate;
+  }
+
+  async getOpeningCandidate(openingId: number, candidateId: number): Promise<OpeningCandidate | undefined> {
+    const [candidate] = await db
+      .select()
+      .from(openingCandidates)
+      .where(and(eq(openingCandidates.openingId, openingId), eq(openingCandidates.id, candidateId)));
+    return candidate;
+  }
+
+  async getOpeningCandidateByAnalysis(openingId: number, analysisId: number): Promise<OpeningCandidate | undefined> {
+    const [candidate] = await db
+      .select()
+      .from(openingCandidates)
+      .where(and(eq(openingCandidates.openingId, openingId), eq(openingCandidates.analysisId, analysisId)));
+    return candidate;
+  }
+
+  async getOpeningCandidates(openingId: number): Promise<OpeningCandidate[]> {
+    return await db
+      .select()
+      .from(openingCandidates)
+      .where(eq(openingCandidates.openingId, openingId))
+      .orderBy(asc(openingCandidates.id));
+  }
+
+  async updateOpeningCandidate(id: number, update: OpeningCandidateUpdate): Promise<OpeningCandidate | undefined> {
+    const [candidate] = await db
+      .update(openingCandidates)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(openingCandidates.id, id))
+      .returning();
+    return candidate;
+  }
+
+  async deleteOpeningCandidate(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(openingCandidates)
+      .where(eq(openingCandidates.id, id))
+      .returning({ id: openingCandidates.id });
+    return deleted.length > 0;
+  }
+
+  async createCoverLetterAnalysis(insertAnalysis: InsertCoverLetterAnalysis): Promise<CoverLetterAnalysis> {
+    const [analysis] = await db
+      .insert(coverLetterAnalyses)
+      .values(insertAnalysis)
+      .returning();
+    return analysis;
+  }
+
+  async getCoverLetterAnalysis(id: number): Promise<CoverLetterAnalysis | undefined> {
+    const [analysis] = await db
+      .select()
+      .from(coverLetterAnalyses)
+      .where(eq(coverLetterAnalyses.id, id));
+    return analysis;
+  }
+
+  async createChatConversation(insertConversation: InsertChatConversation): Promise<ChatConversation> {
+    const [conversation] = await db
+      .insert(chatConversations)
+      .values(insertConversation)
+      .returning();
+    return conversation;
+  }
+
+  async getChatConversation(id: number): Promise<ChatConversation | undefined> {
+    const [conversation] = await db
+      .select()
+      .from(chatConversations)
+      .where(eq(chatConversations.id, id));
+    return conversation;
+  }
+
+  async getChatConversations(owner: ChatOwner): Promise<ChatConversation[]> {
+    return await db
+      .select()
+      .from(chatConversations)
+      .where(chatOwnedBy(owner))
+      .orderBy(desc(chatConversations.updatedAt));
+  }
+
+  async touchChatConversation(id: number, expiresAt: Date | null): Promise<void> {
+    await db
+      .update(chatConversations)
+      .set({ updatedAt: new Date(), expiresAt })
+      .where(eq(chatConversations.id, id));
+  }
+
+  async claimChatConversations(sessionId: string, userId: number): Promise<number> {
+    const claimed = await db
+      .update(chatConversations)
+      .set({ userId, sessionId: null })
+      .where(eq(chatConversations.sessionId, sessionId))
+      .returning({ id: chatConversations.id });
+    return claimed.length;
+  }
+
+  async setChatConversationsExpiry(owner: ChatOwner, retentionDays: number | null): Promise<void> {
+    await db
+      .update(chatConversations)
+      .set({
+        expiresAt: retentionDays === null
+          ? null
+          : sql`${chatConversations.updatedAt} + ${retentionDays} * interval '1 day'`,
+      })
+      .where(chatOwnedBy(owner));
+  }
+
+  async deleteChatConversation(id: number): Promise<boolean> {
+    await db.delete(chatMessages).where(eq(chatMessages.conversationId, id));
+    const deleted = await db
+      .delete(chatConversations)
+      .where(eq(chatConversations.id, id))
+      .returning({ id: chatConversations.id });
+    return deleted.length > 0;
+  }
+
+  async deleteChatConversations(owner: ChatOwner): Promise<number> {
+    const deleted = await db
+      .delete(chatConversations)
+      .where(chatOwnedBy(owner))
+      .returning({ id: chatConversations.id });
+    await this.deleteChatMessagesOf(deleted.map(({ id }) => id));
+    return deleted.length;
+  }
+
+  async deleteExpiredChatConversations(now: Date): Promise<number> {
+    const deleted = await db
+      .delete(chatConversations)
+      .where(lt(chatConversations.expiresAt, now))
+      .returning({ id: chatConversations.id });
+    await this.deleteChatMessagesOf(deleted.map(({ id }) => id));
+    return deleted.length;
+  }
+
+  private async deleteChatMessagesOf(conversationIds: number[]): Promise<void> {
+    if (conversationIds.length > 0) {
+      await db.delete(chatMessages).where(inArray(chatMessages.conversationId, conversationIds));
+    }
+  }
+
+  async createChatMessage(insertMessage: InsertChatMessage): Promise<ChatMessage> {
+    const [message] = await db
+      .insert(chatMessages)
+      .values(insertMessage)
+      .returning();
+    return message;
+  }
+
+  async getChatMessages(conversationId: number): Promise<ChatMessage[]> {
+    return await db
+      .select()
+      .from(chatMessages)
+      .where(eq(chatMessages.conversationId, conversationId))
+      .orderBy(asc(chatMessages.id));
+  }
+}
+
+// MemStorage keeps everything in process memory, for local development without PostgreSQL
+export class MemStorage implements IStorage {
+  private users = new Map<number, User>();
+  private analyses = new Map<number, ResumeAnalysis>();
+  private jobs = new Map<number, AnalysisJob>();
+  private batches = new Map<number, AnalysisBatch>();
+  private openings = new Map<number, Opening>();
+  private candidates = new Map<number, OpeningCandidate>();
+  private documents = new Map<number, ResumeDocument>();
+  private coverLetters = new Map<number, CoverLetterAnalysis>();
+  private conversations = new Map<number, ChatConversation>();
+  private messages = new Map<number, ChatMessage>();
+  private nextUserId = 1;
+  private nextAnalysisId = 1;
+  private nextJobId = 1;
+  private nextBatchId = 1;
+  private nextOpeningId = 1;
+  private nextCandidateId = 1;
+  private nextDocumentId = 1;
+  private nextCoverLetterId = 1;
+  private nextConversationId = 1;
+  private nextMessageId = 1;
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.username === username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    // Usernames are unique, as the users table enforces
+    if (Array.from(this.users.values()).some((user) => user.username === insertUser.username)) {
+      throw new Error(`Username ${insertUser.username} is already taken`);
+    }
+    const user: User = { chatRetentionDays: 90, ...insertUser, id: this.nextUserId++ };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async updateUserChatRetention(userId: number, retentionDays: number | null): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    const updated: User = { ...user, chatRetentionDays: retentionDays };
+    this.users.set(userId, updated);
+    return updated;
+  }
+
+  async createResumeAnalysis(insertAnalysis: InsertResumeAnalysis): Promise<ResumeAnalysis> {
+    const analysis: ResumeAnalysis = {
+      jobMatch: null,
+      textHash: null,
+      jobDescriptionHash: null,
+      previousAnalysisId: null,
+      provider: null,
+      model: null,
+      usage: null,
+      ruleBasedScores: null,
+      findings: null,
+      layout: null,
+      promptInjection: null,
+      resumeText: null,
+      userId: null,
+      sessionKey: null,
+      documentId: null,
+      version: null,
+      ...insertAnalysis,
+      id: this.nextAnalysisId++,
+      createdAt: new Date(),
+    };
+    this.analyses.set(analysis.id, analysis);
+    return analysis;
+  }
+
+  async getResumeAnalysis(id: number): Promise<ResumeAnalysis | undefined> {
+    return this.analyses.get(id);
+  }
+
+  async getRecentResumeAnalyses(limit: number, owner: RecordOwner): Promise<ResumeAnalysis[]> {
+    return Array.from(this.analyses.values())
+      .filter((analysis) => isRecordOwner(owner, analysis))
+      .reverse()
+      .slice(0, limit);
+  }
+
+  async getLatestResumeAnalysisByHash(textHash: string, owner: RecordOwner): Promise<ResumeAnalysis | undefined> {
+    return Array.from(this.analyses.values())
+      .reverse()
+      .find((analysis) => analysis.textHash === textHash && isRecordOwner(owner, analysis));
+  }
+
+  async getUserResumeAnalyses(userId: number, limit: number, offset: number): Promise<ResumeAnalysis[]> {
+    return Array.from(this.analyses.values())
+      .filter((analysis) => analysis.userId === userId)
+      .reverse()
+      .slice(offset, offset + limit);
+  }
+
+  async countUserResumeAnalyses(userId: number): Promise<number> {
+    return Array.from(this.analyses.values()).filter((analysis) => analysis.userId === userId).length;
+  }
+
+  async createResumeDocument(insertDocument: InsertResumeDocument): Promise<ResumeDocument> {
+    const document: ResumeDocument = {
+      userId: null,
+      sessionKey: null,
+      ...insertDocument,
+      id: this.nextDocumentId++,
+      createdAt: new Date(),
+    };
+    this.documents.set(document.id, document);
+    return document;
+  }
+
+  async getResumeDocument(id: number): Promise<ResumeDocument | undefined> {
+    return this.documents.get(id);
+  }
+
+  async getResumeDocuments(owner: RecordOwner): Promise<ResumeDocument[]> {
+    return Array.from(this.documents.values())
+      .filter((document) => isRecordOwner(owner, document))
+      .reverse();
+  }
+
+  async getResumeDocumentVersions(documentId: number): Promise<ResumeAnalysis[]> {
+    return Array.from(this.analyses.values())
+      .filter((analysis) => analysis.documentId === documentId)
+      .sort((a, b) => (a.version ?? 0) - (b.version ?? 0));
+  }
+
+  async setResumeAnalysisVersion(analysisId: number, documentId: number, version: number): Promise<ResumeAnalysis | undefined> {
+    const analysis = this.analyses.get(analysisId);
+    if (!analysis) return undefined;
+    const updated: ResumeAnalysis = { ...analysis, documentId, version };
+    this.analyses.set(analysisId, updated);
+    return updated;
+  }
+
+  async createAnalysisJob(insertJob: InsertAnalysisJob): Promise<AnalysisJob> {
+    const now = new Date();
+    const job: AnalysisJob = {
+      jobDescription: null,
+      userId: null,
+      sessionKey: null,
+      batchId: null,
+      maxAttempts: 3,
+      ...insertJob,
+      id: this.nextJobId++,
+      status: "queued",
+      attempts: 0,
+      runAfter: now,
+      error: null,
+      analysisId: null,
+      result: null,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: null,
+    };
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  async getAnalysisJob(id: number): Promise<AnalysisJob | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async claimNextAnalysisJob(): Promise<AnalysisJob | undefined> {
+    const now = Date.now();
+    const next = Array.from(this.jobs.values()).find(
+      (job) => job.status === "queued" && job.runAfter.getTime() <= now
+    );
+    if (!next) return undefined;
+    return this.updateAnalysisJob(next.id, { status: "running", attempts: next.attempts + 1 });
+  }
+
+  async updateAnalysisJob(id: number, update: AnalysisJobUpdate): Promise<AnalysisJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+    const updated: AnalysisJob = { ...job, ...update, updatedAt: new Date() };
+    this.jobs.set(id, updated);
+    return updated;
+  }
+
+  async requeueRunningAnalysisJobs(leaseMs: number): Promise<number> {
+    const expired = Date.now() - leaseMs;
+    const running = Array.from(this.jobs.values()).filter(
+      (job) => job.status === "running" && job.updatedAt.getTime() < expired
+    );
+    running.forEach((job) => this.jobs.set(job.id, { ...job, status: "queued", updatedAt: new Date() }));
+    return running.length;
+  }
+
+  async createAnalysisBatch(insertBatch: InsertAnalysisBatch): Promise<AnalysisBatch> {
+    const batch: AnalysisBatch = {
+      jobDescription: null,
+      userId: null,
+      sessionKey: null,
+      ...insertBatch,
+      id: this.nextBatchId++,
+      createdAt: new Date(),
+    };
+    this.batches.set(batch.id, batch);
+    return batch;
+  }
+
+  async getAnalysisBatch(id: number): Promise<AnalysisBatch | undefined> {
+    return this.batches.get(id);
+  }
+
+  async getAnalysisJobsByBatch(batchId: number): Promise<AnalysisJob[]> {
+    return Array.from(this.jobs.values()).filter((job) => job.batchId === batchId);
+  }
+
+  async createOpening(insertOpening: InsertOpening): Promise<Opening> {
+    const now = new Date();
+    const opening: Opening = {
+      userId: null,
+      ...insertOpening,
+      id: this.nextOpeningId++,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.openings.set(opening.id, opening);
+    return opening;
+  }
+
+  async getOpening(id: number): Promise<Opening | undefined> {
+    return this.openings.get(id);
+  }
+
+  async getOpenings(userId: number): Promise<Opening[]> {
+    return Array.from(this.openings.values()).filter((opening) => opening.userId === userId).reverse();
+  }
+
+  async updateOpening(id: number, update: UpdateOpening): Promise<Opening | undefined> {
+    const opening = this.openings.get(id);
+    if (!opening) return undefined;
+    const updated: Opening = { ...opening, ...update, updatedAt: new Date() };
+    this.openings.set(id, updated);
+    return updated;
+  }
+
+  async createOpeningCandidate(insertCandidate: InsertOpeningCandidate): Promise<OpeningCandidate> {
+    const now = new Date();
+    const candidate: OpeningCandidate = {
+      overrideScore: null,
+      overrideNote: null,
+      ...insertCandidate,
+      id: this.nextCandidateId++,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.candidates.set(candidate.id, candidate);
+    return candidate;
+  }
+
+  async getOpeningCandidate(openingId: number, candidateId: number): Promise<OpeningCandidate | undefined> {
+    const candidate = this.candidates.get(candidateId);
+    return candidate?.openingId === openingId ? candidate : undefined;
+  }
+
+  async getOpeningCandidateByAnalysis(openingId: number, analysisId: number): Promise<OpeningCandidate | undefined> {
+    return Array.from(this.candidates.values()).find(
+      (candidate) => candidate.openingId === openingId && candidate.analysisId === analysisId
+    );
+  }
+
+  async getOpeningCandidates(openingId: number): Promise<OpeningCandidate[]> {
+    return Array.from(this.candidates.values()).filter((candidate) => candidate.openingId === openingId);
+  }
+
+  async updateOpeningCandidate(id: number, update: OpeningCandidateUpdate): Promise<OpeningCandidate | undefined> {
+    const candidate = this.candidates.get(id);
+    if (!candidate) return undefined;
+    const updated: OpeningCandidate = { ...candidate, ...update, updatedAt: new Date() };
+    this.candidates.set(id, updated);
+    return updated;
+  }
+
+  async deleteOpeningCandidate(id: number): Promise<boolean> {
+    return this.candidates.delete(id);
+  }
+
+  async createCoverLetterAnalysis(insertAnalysis: InsertCoverLetterAnalysis): Promise<CoverLetterAnalysis> {
+    const analysis: CoverLetterAnalysis = {
+      alignmentScore: null,
+      jobDescriptionHash: null,
+      provider: null,
+      model: null,
+      usage: null,
+      letterText: null,
+      userId: null,
+      sessionKey: null,
+      ...insertAnalysis,
+      id: this.nextCoverLetterId++,
+      createdAt: new Date(),
+    };
+    this.coverLetters.set(analysis.id, analysis);
+    return analysis;
+  }
+
+  async getCoverLetterAnalysis(id: number): Promise<CoverLetterAnalysis | undefined> {
+    return this.coverLetters.get(id);
+  }
+
+  async createChatConversation(insertConversation: InsertChatConversation): Promise<ChatConversation> {
+    const now = new Date();
+    const conversation: ChatConversation = {
+      userId: null,
+      sessionId: null,
+      expiresAt: null,
+      ...insertConversation,
+      id: this.nextConversationId++,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.conversations.set(conversation.id, conversation);
+    return conversation;
+  }
+
+  async getChatConversation(id: number): Promise<ChatConversation | undefined> {
+    return this.conversations.get(id);
+  }
+
+  private ownedChatConversations(owner: ChatOwner): ChatConversation[] {
+    return Array.from(this.conversations.values()).filter((conversation) =>
+      "userId" in owner ? conversation.userId === owner.userId : conversation.sessionId === owner.sessionId
+    );
+  }
+
+  async getChatConversations(owner: ChatOwner): Promise<ChatConversation[]> {
+    return this.ownedChatConversations(owner)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime() || b.id - a.id);
+  }
+
+  async touchChatConversation(id: number, expiresAt: Date | null): Promise<void> {
+    const conversation = this.conversations.get(id);
+    if (conversation) {
+      this.conversations.set(id, { ...conversation, updatedAt: new Date(), expiresAt });
+    }
+  }
+
+  async claimChatConversations(sessionId: string, userId: number): Promise<number> {
+    const claimed = this.ownedChatConversations({ sessionId });
+    claimed.forEach((conversation) => {
+      this.conversations.set(conversation.id, { ...conversation, userId, sessionId: null });
+    });
+    return claimed.length;
+  }
+
+  async setChatConversationsExpiry(owner: ChatOwner, retentionDays: number | null): Promise<void> {
+    this.ownedChatConversations(owner).forEach((conversation) => {
+      const expiresAt = retentionDays === null
+        ? null
+        : new Date(conversation.updatedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000);
+      this.conversations.set(conversation.id, { ...conversation, expiresAt });
+    });
+  }
+
+  async deleteChatConversation(id: number): Promise<boolean> {
+    Array.from(this.messages.values())
+      .filter((message) => message.conversationId === id)
+      .forEach((message) => this.messages.delete(message.id));
+    return this.conversations.delete(id);
+  }
+
+  async deleteChatConversations(owner: ChatOwner): Promise<number> {
+    const owned = this.ownedChatConversations(owner);
+    await Promise.all(owned.map((conversation) => this.deleteChatConversation(conversation.id)));
+    return owned.length;
+  }
+
+  async deleteExpiredChatConversations(now: Date): Promise<number> {
+    const expired = Array.from(this.conversations.values()).filter(
+      (conversation) => conversation.expiresAt !== null && conversation.expiresAt < now
+    );
+    await Promise.all(expired.map((conversation) => this.deleteChatConversation(conversation.id)));
+    return expired.length;
+  }
+
+  async createChatMessage(insertMessage: InsertChatMessage): Promise<ChatMessage> {
+    const message: ChatMessage = {
+      actions: null,
+      ...insertMessage,
+      id: this.nextMessageId++,
+      createdAt: new Date(),
+    };
+    this.messages.set(message.id, message);
+    return message;
+  }
+
+  async getChatMessages(conversationId: number): Promise<ChatMessage[]> {
+    return Array.from(this.messages.values()).filter((message) => message.conversationId === conversationId);
+  }
 }
 
-export const storage = new DatabaseStorage();
+// Use PostgreSQL when it is configured, otherwise fall back to in-memory storage
+export const storage: IStorage = process.env.DATABASE_URL ? new DatabaseStorage() : new MemStorage();
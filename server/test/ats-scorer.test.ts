@@ -0,0 +1,104 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CATEGORY_WEIGHTS, computeOverallScore, scoreResume, suggestBulletRewrites } from "../ats-scorer";
+
+const STRONG_RESUME = `Jane Doe
+jane.doe@example.com | (555) 123-4567 | linkedin.com/in/janedoe
+
+Summary
+Backend engineer with eight years of experience building payment systems.
+
+Experience
+Senior Software Engineer, Acme Corp, 2019 - Present
+- Led migration of billing services to Kubernetes, cutting hosting costs by 35%
+- Built a fraud detection pipeline in Python that processes 2M events per day
+- Reduced p95 API latency from 800ms to 120ms by redesigning the caching layer
+Software Engineer, Initech, 2015 - 2019
+- Designed a PostgreSQL reporting schema used by 40 analysts
+- Automated deployments with Terraform and GitHub Actions, saving 10 hours a week
+
+Education
+B.S. Computer Science, State University, 2015
+
+Skills
+Python, TypeScript, Go, PostgreSQL, Redis, Kubernetes, Terraform, AWS, Docker, Kafka
+`;
+
+const WEAK_RESUME = `John Smith
+
+Experience
+- Responsible for various tasks at some companies
+- Helped with things when needed
+`;
+
+describe("scoreResume", () => {
+  it("scores a complete, quantified resume well above a bare one", () => {
+    const strong = scoreResume(STRONG_RESUME);
+    const weak = scoreResume(WEAK_RESUME);
+    assert.ok(strong.overallScore >= 60, `strong resume scored ${strong.overallScore}`);
+    assert.ok(strong.overallScore > weak.overallScore + 20, `${strong.overallScore} vs ${weak.overallScore}`);
+    assert.ok(strong.experienceScore > weak.experienceScore);
+    assert.ok(strong.skillsScore > weak.skillsScore);
+    assert.ok(strong.educationScore > weak.educationScore);
+  });
+
+  it("keeps every score within 0 to 100 and the overall score consistent with the weights", () => {
+    [STRONG_RESUME, WEAK_RESUME, ""].forEach((text) => {
+      const result = scoreResume(text);
+      [result.overallScore, result.keywordsScore, result.experienceScore, result.skillsScore, result.educationScore, result.formattingScore]
+        .forEach((score) => assert.ok(Number.isInteger(score) && score >= 0 && score <= 100, `score ${score} out of range`));
+      assert.equal(result.overallScore, computeOverallScore(result));
+    });
+  });
+
+  it("is deterministic", () => {
+    assert.deepEqual(scoreResume(STRONG_RESUME), scoreResume(STRONG_RESUME));
+  });
+
+  it("cites findings at their position in the text", () => {
+    const result = scoreResume(WEAK_RESUME);
+    assert.ok(result.findings.length > 0);
+    result.findings.forEach((finding) => {
+      if (finding.start === null || finding.end === null) return;
+      assert.equal(WEAK_RESUME.slice(finding.start, finding.end), finding.quote);
+    });
+  });
+
+  it("matches the resume against a job description", () => {
+    const jobDescription = "We need a backend engineer with Python, Kubernetes, Kafka and Rust experience.";
+    const result = scoreResume(STRONG_RESUME, jobDescription);
+    assert.ok(result.jobMatch, "expected a job match");
+    assert.ok(result.jobMatch.matchedKeywords.some((keyword) => /python/i.test(keyword)));
+    assert.ok(result.jobMatch.missingKeywords.some((keyword) => /rust/i.test(keyword)));
+    assert.equal(scoreResume(STRONG_RESUME).jobMatch, undefined);
+  });
+});
+
+describe("computeOverallScore", () => {
+  it("weights the categories by CATEGORY_WEIGHTS", () => {
+    const weights = Object.values(CATEGORY_WEIGHTS).reduce((sum, weight) => sum + weight, 0);
+    assert.ok(Math.abs(weights - 1) < 1e-9);
+    assert.equal(computeOverallScore({ keywordsScore: 100, experienceScore: 100, skillsScore: 100, educationScore: 100, formattingScore: 100 }), 100);
+    assert.equal(computeOverallScore({ keywordsScore: 0, experienceScore: 0, skillsScore: 0, educationScore: 0, formattingScore: 0 }), 0);
+  });
+});
+
+describe("suggestBulletRewrites", () => {
+  it("turns the gerund after a weak opener into the verb", () => {
+    const rewrites = suggestBulletRewrites("Responsible for managing 5 engineers");
+    assert.equal(rewrites[0], "Managed 5 engineers");
+    assert.ok(rewrites.every((rewrite) => rewrite.startsWith("Managed 5 engineers")));
+    assert.equal(suggestBulletRewrites("- Worked on building the billing API.")[0].startsWith("Built the billing API"), true);
+    assert.equal(suggestBulletRewrites("Involved in studying churn")[0].startsWith("Studied churn"), true);
+  });
+
+  it("keeps the weak opener's verbs when no gerund follows", () => {
+    const rewrites = suggestBulletRewrites("Responsible for the string parser");
+    assert.deepEqual(rewrites.map((rewrite) => rewrite.split(" ")[0]), ["Owned", "Led", "Managed"]);
+    assert.ok(rewrites[0].startsWith("Owned the string parser"));
+  });
+
+  it("keeps a bullet that already opens with an action verb", () => {
+    assert.equal(suggestBulletRewrites("Led hiring of 5 engineers")[0], "Led hiring of 5 engineers");
+  });
+});
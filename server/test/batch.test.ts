@@ -0,0 +1,133 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Readable } from "stream";
+import type { Request } from "express";
+import {
+  batchToCsv, batchUploadStorage, expandBatchUploads, MAX_BATCH_REQUEST_SIZE, MAX_RESUME_SIZE, type BatchResultRow, type BatchStatus,
+} from "../batch";
+
+function row(overrides: Partial<BatchResultRow>): BatchResultRow {
+  return {
+    jobId: 1,
+    filename: "resume.pdf",
+    status: "completed",
+    error: null,
+    analysisId: 10,
+    documentType: null,
+    injectionFlagged: false,
+    overallScore: 80,
+    keywordsScore: 70,
+    experienceScore: 85,
+    skillsScore: 90,
+    educationScore: 75,
+    formattingScore: 60,
+    ...overrides,
+  };
+}
+
+function status(results: BatchResultRow[], skippedFiles: BatchStatus["skippedFiles"] = []): BatchStatus {
+  return {
+    batchId: 1,
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    hasJobDescription: false,
+    fileCount: results.length,
+    completed: results.filter((result) => result.status === "completed").length,
+    failed: results.filter((result) => result.status === "failed").length,
+    pending: 0,
+    done: true,
+    skippedFiles,
+    results,
+  };
+}
+
+describe("batchToCsv", () => {
+  it("writes a header and one CRLF-terminated row per result", () => {
+    const lines = batchToCsv(status([row({})])).split("\r\n");
+    assert.equal(lines.length, 3);
+    assert.equal(lines[0], '"Filename","Status","Overall","Keywords","Experience","Skills","Education","Formatting","Analysis ID","Notes"');
+    assert.equal(lines[1], '"resume.pdf","completed","80","70","85","90","75","60","10",""');
+    assert.equal(lines[2], "");
+  });
+
+  it("reports failures, prompt injection and skipped files in the notes column", () => {
+    const csv = batchToCsv(status(
+      [
+        row({ filename: "letter.pdf", status: "failed", error: "This looks like a cover letter", analysisId: null, overallScore: null, keywordsScore: null, experienceScore: null, skillsScore: null, educationScore: null, formattingScore: null }),
+        row({ filename: "hidden.pdf", injectionFlagged: true }),
+      ],
+      [{ filename: "photo.png", reason: "Unsupported file type" }]
+    ));
+    const lines = csv.trimEnd().split("\r\n");
+    assert.equal(lines[1], '"letter.pdf","failed","","","","","","","","This looks like a cover letter"');
+    assert.match(lines[2], /"Possible prompt injection"$/);
+    assert.equal(lines[3], '"photo.png","skipped","","","","","","","","Unsupported file type"');
+  });
+
+  it("escapes quotes and neutralizes spreadsheet formulas", () => {
+    const csv = batchToCsv(status([row({ filename: '=HYPERLINK("http://evil")' }), row({ filename: 'Jane "JD" Doe.pdf' })]));
+    const lines = csv.split("\r\n");
+    assert.ok(lines[1].startsWith(`"'=HYPERLINK(""http://evil"")"`));
+    assert.ok(lines[2].startsWith('"Jane ""JD"" Doe.pdf"'));
+  });
+});
+
+function upload(originalname: string, mimetype: string, size: number) {
+  return { originalname, mimetype, size, buffer: Buffer.alloc(Math.min(size, 16)) };
+}
+
+describe("expandBatchUploads", () => {
+  it("skips resumes over 5MB and unsupported files", async () => {
+    const { files, skipped } = await expandBatchUploads([
+      upload("small.txt", "text/plain", 1024),
+      upload("huge.pdf", "application/pdf", MAX_RESUME_SIZE + 1),
+      upload("photo.png", "image/png", 1024),
+    ]);
+    assert.deepEqual(files.map((file) => file.originalname), ["small.txt"]);
+    assert.deepEqual(skipped.map((file) => file.filename), ["huge.pdf", "photo.png"]);
+    assert.equal(skipped[0].reason, "File is larger than 5MB");
+  });
+});
+
+// Runs a file through the batch storage engine the way multer does
+function storeFile(req: object, originalname: string, mimetype: string, chunks: Iterable<Buffer>) {
+  const file = { fieldname: "files", originalname, mimetype, stream: Readable.from(chunks) } as unknown as Express.Multer.File;
+  return new Promise<Partial<Express.Multer.File>>((resolve, reject) => {
+    batchUploadStorage._handleFile(req as Request, file, (error, info) => (error ? reject(error) : resolve(info ?? {})));
+  });
+}
+
+function* megabytes(count: number): Generator<Buffer> {
+  const chunk = Buffer.alloc(1024 * 1024, 0x61);
+  for (let i = 0; i < count; i++) yield chunk;
+}
+
+describe("batchUploadStorage", () => {
+  it("buffers resumes up to 5MB", async () => {
+    const info = await storeFile({}, "resume.txt", "text/plain", [Buffer.from("Jane Doe")]);
+    assert.equal(info.size, 8);
+    assert.equal(info.buffer?.toString(), "Jane Doe");
+  });
+
+  it("keeps the size but not the content of an oversized resume", async () => {
+    const info = await storeFile({}, "resume.txt", "text/plain", megabytes(6));
+    assert.equal(info.size, 6 * 1024 * 1024);
+    assert.equal(info.buffer?.length, 0);
+  });
+
+  it("buffers ZIP archives past the resume limit", async () => {
+    const info = await storeFile({}, "resumes.zip", "application/zip", megabytes(6));
+    assert.equal(info.buffer?.length, 6 * 1024 * 1024);
+  });
+
+  it("rejects a request once its files pass the total limit", async () => {
+    const req = {};
+    const perFile = 4;
+    const filesUnderLimit = Math.floor(MAX_BATCH_REQUEST_SIZE / (perFile * 1024 * 1024));
+    for (let i = 0; i < filesUnderLimit; i++) {
+      await storeFile(req, `resume-${i}.txt`, "text/plain", megabytes(perFile));
+    }
+    await assert.rejects(storeFile(req, "one-more.txt", "text/plain", megabytes(perFile)), { status: 413, code: "FILE_TOO_LARGE" });
+    // Other requests have their own total
+    await storeFile({}, "resume.txt", "text/plain", megabytes(1));
+  });
+});
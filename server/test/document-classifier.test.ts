@@ -0,0 +1,157 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { extractDocument } from "../document-parser";
+import { classifyByRules, classifyDocument, MIN_REJECTION_CONFIDENCE } from "../document-classifier";
+import type { LLMProvider, LLMResponse } from "../llm";
+
+const DATA_DIR = path.join(import.meta.dirname, "data");
+
+const PLAIN_RESUME = `JOHN SMITH
+Portland, OR
+
+Work History
+Warehouse Lead, Northwind Traders (2016 to now)
+Trained new staff and ran the night shift.
+
+Academic Background
+Portland Community College, Associate of Applied Science
+
+Technical Skills: forklift certified, inventory software, Excel
+`;
+
+const COVER_LETTER = `Dear Ms. Rivera,
+
+The Senior Backend Engineer role at Acme Analytics caught my attention because your team is rebuilding its data platform on Kubernetes.
+
+As a backend engineer at Globex, I migrated 40 services to Go microservices and cut deployment time by 60%.
+
+I would welcome the chance to discuss how I can help. Thank you for your time and consideration.
+
+Sincerely,
+Jane Doe
+`;
+
+const JOB_DESCRIPTION = `Senior Backend Engineer
+
+About Acme Analytics:
+Acme Analytics builds data tools for retailers.
+
+Requirements:
+- 5+ years of experience building distributed systems in Go or Java
+- Experience with Kubernetes and cloud infrastructure
+- Familiarity with observability tools such as Prometheus and Grafana
+`;
+
+const TRANSCRIPT = `State University
+Official Transcript
+Student: Jane Doe
+
+Fall 2019
+CS 101 Intro to Programming  A  3 credits
+MATH 201 Calculus II  B+  4 credits
+ENG 110 Composition  A-  3 credits
+
+Spring 2020
+CS 102 Data Structures  A  3 credits
+Cumulative GPA: 3.7
+`;
+
+const CV = `Dr. Maria Lopez
+Curriculum Vitae
+
+Education
+Ph.D. Chemistry, State University, 2015
+
+Research Interests
+Catalysis and green chemistry
+
+Publications
+Lopez M, et al. Journal of Catalysis, 2020.
+
+Teaching Experience
+CHEM 101, General Chemistry
+`;
+
+function rejects(text: string): boolean {
+  const { type, confidence } = classifyByRules(text);
+  return type !== "resume" && type !== "cv" && confidence >= MIN_REJECTION_CONFIDENCE;
+}
+
+// A provider that answers every prompt with the given text
+function fakeProvider(answer: string, name: LLMProvider["name"] = "openai"): LLMProvider {
+  const response: LLMResponse = { text: answer, provider: name, model: "test" };
+  return {
+    name,
+    model: "test",
+    isConfigured: () => true,
+    complete: async () => response,
+    stream: async () => response,
+  };
+}
+
+describe("classifyByRules", () => {
+  it("recognizes resumes with less common section headings", () => {
+    assert.equal(classifyByRules(PLAIN_RESUME).type, "resume");
+  });
+
+  it("recognizes the text of every resume fixture", async () => {
+    const names = fs.readdirSync(DATA_DIR).filter((name) => name.startsWith("resume."));
+    assert.ok(names.length >= 7);
+    for (const name of names) {
+      const { text } = await extractDocument(fs.readFileSync(path.join(DATA_DIR, name)), "application/octet-stream", name);
+      assert.equal(classifyByRules(text).type, "resume", name);
+    }
+  });
+
+  it("recognizes academic CVs", () => {
+    assert.equal(classifyByRules(CV).type, "cv");
+  });
+
+  it("recognizes cover letters, job descriptions and transcripts confidently enough to reject them", () => {
+    assert.equal(classifyByRules(COVER_LETTER).type, "cover_letter");
+    assert.equal(classifyByRules(JOB_DESCRIPTION).type, "job_description");
+    assert.equal(classifyByRules(TRANSCRIPT).type, "transcript");
+    [COVER_LETTER, JOB_DESCRIPTION, TRANSCRIPT].forEach((text) => assert.ok(rejects(text)));
+  });
+
+  it("never rejects a document it recognizes nothing in", () => {
+    const unrecognized = [
+      "",
+      "   \n\n ",
+      fs.readFileSync(path.join(DATA_DIR, "05-versions-space.pdf.txt"), "utf8"),
+      "Jane Doe\nSoftware engineer who likes building things for the web.",
+    ];
+    unrecognized.forEach((text) => {
+      const classification = classifyByRules(text);
+      assert.equal(classification.type, "other");
+      assert.ok(classification.confidence < MIN_REJECTION_CONFIDENCE, `${JSON.stringify(text)} rejected at ${classification.confidence}`);
+    });
+  });
+});
+
+describe("classifyDocument", () => {
+  it("uses only the heuristics with the local provider", async () => {
+    const classification = await classifyDocument(COVER_LETTER, fakeProvider('{"type":"resume","confidence":0.99}', "local"));
+    assert.deepEqual(classification, classifyByRules(COVER_LETTER));
+  });
+
+  it("is more confident when the model agrees", async () => {
+    const rules = classifyByRules(JOB_DESCRIPTION);
+    const combined = await classifyDocument(JOB_DESCRIPTION, fakeProvider('{"type":"job_description","confidence":0.8}'));
+    assert.equal(combined.type, "job_description");
+    assert.equal(combined.source, "combined");
+    assert.ok(combined.confidence > rules.confidence);
+  });
+
+  it("lets a confident model overrule heuristics that found nothing", async () => {
+    const combined = await classifyDocument("Jane Doe\nSoftware engineer.", fakeProvider('{"type":"resume","confidence":0.9}'));
+    assert.equal(combined.type, "resume");
+  });
+
+  it("falls back to the heuristics when the model answers with something unusable", async () => {
+    const classification = await classifyDocument(TRANSCRIPT, fakeProvider("I think this is a transcript"));
+    assert.deepEqual(classification, classifyByRules(TRANSCRIPT));
+  });
+});
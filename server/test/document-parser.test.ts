@@ -0,0 +1,158 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+import { DocumentError, extractDocument } from "../document-parser";
+
+const DATA_DIR = path.join(import.meta.dirname, "data");
+
+function fixture(name: string): Buffer {
+  return fs.readFileSync(path.join(DATA_DIR, name));
+}
+
+async function extract(name: string, mimeType = "application/octet-stream") {
+  return extractDocument(fixture(name), mimeType, name);
+}
+
+// A deflated ZIP whose central directory claims every part unpacks to declaredSize bytes
+function zipWithDeclaredSizes(parts: Array<{ name: string; content: Buffer }>, declaredSize: number): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  parts.forEach(({ name, content }) => {
+    const data = zlib.deflateRawSync(content);
+    const nameBytes = Buffer.from(name);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(declaredSize, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(declaredSize, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, nameBytes, data);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  });
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(parts.length, 8);
+  end.writeUInt16LE(parts.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe("extractDocument", () => {
+  it("reads plain text", async () => {
+    const { text, layout } = await extract("resume.txt", "text/plain");
+    assert.equal(text, fixture("resume.txt").toString("utf8"));
+    assert.equal(layout, null);
+  });
+
+  it("reads text files in UTF-16 and legacy code pages", async () => {
+    const utf16 = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from("Jane Doe – Résumé", "utf16le")]);
+    assert.equal((await extractDocument(utf16, "text/plain", "resume.txt")).text, "Jane Doe – Résumé");
+    const windows1252 = Buffer.from([0x43, 0x61, 0x66, 0xe9]);
+    assert.equal((await extractDocument(windows1252, "text/plain", "resume.txt")).text, "Café");
+  });
+
+  it("strips Markdown syntax", async () => {
+    const { text } = await extract("resume.md");
+    assert.match(text, /^Jane Doe\n/);
+    assert.match(text, /jane\.doe@example\.com \| \(555\) 123-4567 \| LinkedIn/);
+    assert.match(text, /Senior Software Engineer, Acme Corp, 2021 - Present/);
+    assert.match(text, /to Kubernetes, cutting/);
+    assert.match(text, /Languages\tPlatforms\nTypeScript\tAWS/);
+    assert.doesNotMatch(text, /[#*`]|\]\(|---/);
+  });
+
+  it("reads RTF, keeping the header and footer and dropping tables and pictures", async () => {
+    const { text } = await extract("resume.rtf", "application/rtf");
+    assert.match(text, /Jane Doe – jane\.doe@example\.com – \(555\) 123-4567/);
+    assert.match(text, /References available on request/);
+    assert.match(text, /Senior Software Engineer, Acme Corp\t2021 – Present/);
+    assert.match(text, /• Built a café ordering app/);
+    assert.doesNotMatch(text, /Calibri|Normal|Resume template|pngblip|89504e47/);
+  });
+
+  it("reads an RTF file saved with a .doc name", async () => {
+    const { text } = await extractDocument(fixture("resume.rtf"), "application/msword", "resume.doc");
+    assert.match(text, /Jane Doe – jane\.doe@example\.com/);
+  });
+
+  it("reads HTML without scripts, styles, images or link targets", async () => {
+    const { text } = await extract("resume.html", "text/html");
+    assert.match(text, /^Jane Doe\n/);
+    assert.match(text, /jane\.doe@example\.com \| \(555\) 123-4567/);
+    assert.match(text, /Led migration of 40 services/);
+    assert.match(text, /TypeScript\s+AWS/);
+    assert.doesNotMatch(text, /mailto|navy|not resume text|Headshot|photo\.png|Jane Doe - Resume/);
+  });
+
+  it("reads ODT paragraphs, spacing and entities without footnotes", async () => {
+    const { text } = await extract("resume.odt");
+    assert.match(text, /^Jane Doe\njane\.doe@example\.com {2}\|\t\(555\) 123-4567\nExperience\n/);
+    assert.match(text, /Acme Corp\n2021 – Present/);
+    assert.match(text, /R&D tooling for <internal> teams/);
+    assert.match(text, /TypeScript\s+AWS/);
+    assert.doesNotMatch(text, /Footnote text/);
+  });
+
+  it("reads DOCX", async () => {
+    const { text, layout } = await extract("resume.docx");
+    assert.match(text, /^Jane Doe\n/);
+    assert.match(text, /Led migration of 40 services to Kubernetes/);
+    assert.match(text, /TypeScript, Node\.js, PostgreSQL/);
+    assert.equal(layout, null);
+  });
+
+  it("reads a DOCX file saved with a .doc name", async () => {
+    const { text } = await extractDocument(fixture("resume.docx"), "application/msword", "resume.doc");
+    assert.match(text, /Led migration of 40 services to Kubernetes/);
+  });
+
+  it("reads PDF text and its layout", async () => {
+    const { text, layout } = await extract("resume.pdf", "application/pdf");
+    assert.match(text, /Jane Doe\njane\.doe@example\.com/);
+    assert.match(text, /- Led migration of 40 services to Kubernetes, cutting hosting costs by 30%/);
+    assert.ok(layout);
+    assert.equal(layout.pageCount, 1);
+    assert.equal(layout.imageCount, 0);
+  });
+
+  it("rejects contents that do not match the declared type", async () => {
+    await assert.rejects(extractDocument(fixture("resume.txt"), "application/pdf", "resume.pdf"), (error) => {
+      assert.ok(error instanceof DocumentError);
+      assert.equal(error.code, "FILE_TYPE_MISMATCH");
+      return true;
+    });
+    await assert.rejects(extractDocument(fixture("resume.pdf"), "text/plain", "resume.txt"), { code: "FILE_TYPE_MISMATCH" });
+  });
+
+  it("stops inflating a DOCX whose parts unpack to far more than they declare", async () => {
+    // Twelve 9MB parts, each declared as 100 bytes: every part is under the per-part limit, all of them are not
+    const filler = Buffer.alloc(9 * 1024 * 1024, " ");
+    const parts = [{ name: "word/document.xml", content: Buffer.from("<w:document/>") }];
+    for (let index = 0; index < 12; index++) {
+      parts.push({ name: `word/part${index}.xml`, content: filler });
+    }
+    const docx = zipWithDeclaredSizes(parts, 100);
+    assert.ok(docx.length < 1024 * 1024);
+    await assert.rejects(extractDocument(docx, "application/octet-stream", "resume.docx"), { code: "ARCHIVE_TOO_LARGE" });
+  });
+
+  it("rejects unsupported formats", async () => {
+    await assert.rejects(extractDocument(Buffer.from("GIF89a"), "image/gif", "photo.gif"), { code: "UNSUPPORTED_FILE_TYPE" });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { locateFindings, locateQuote } from "../findings";
+
+const TEXT = `Experience
+- Led a team of 5 engineers to ship the "Atlas" billing platform
+- Responsible for   on-call support across
+  three regions
+`;
+
+describe("locateQuote", () => {
+  it("finds an exact quote", () => {
+    const span = locateQuote(TEXT, "Led a team of 5 engineers");
+    assert.ok(span);
+    assert.equal(TEXT.slice(span.start, span.end), "Led a team of 5 engineers");
+  });
+
+  it("ignores wrapping quote marks and a trailing ellipsis", () => {
+    const span = locateQuote(TEXT, "“Led a team of 5…”");
+    assert.ok(span);
+    assert.equal(TEXT.slice(span.start, span.end), "Led a team of 5");
+  });
+
+  it("matches a quote whose whitespace, punctuation and case differ", () => {
+    const span = locateQuote(TEXT, "responsible for on-call support across three regions");
+    assert.ok(span);
+    assert.equal(TEXT.slice(span.start, span.end), "Responsible for   on-call support across\n  three regions");
+  });
+
+  it("returns null for text that is not in the resume", () => {
+    assert.equal(locateQuote(TEXT, "Managed a budget of $2M"), null);
+    assert.equal(locateQuote(TEXT, "  \"\"  "), null);
+  });
+});
+
+describe("locateFindings", () => {
+  it("adds spans to findings and leaves the ones it cannot place without one", () => {
+    const findings = locateFindings(TEXT, [
+      { category: "experience", quote: "Responsible for on-call support", message: "Passive opener" },
+      { category: "skills", quote: "Expert in Haskell", message: "Not in the resume" },
+    ]);
+    assert.equal(findings.length, 2);
+    assert.equal(TEXT.slice(findings[0].start ?? 0, findings[0].end ?? 0), "Responsible for   on-call support");
+    assert.equal(findings[1].start, null);
+    assert.equal(findings[1].end, null);
+  });
+
+  it("drops duplicate findings", () => {
+    const finding = { category: "experience" as const, quote: "Led a team", message: "Add a metric" };
+    assert.equal(locateFindings(TEXT, [finding, { ...finding }]).length, 1);
+  });
+});
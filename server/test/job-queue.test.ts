@@ -0,0 +1,45 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { startAnalysisWorker, stopAnalysisWorker } from "../job-queue";
+import { storage } from "../storage";
+import type { AnalysisJob } from "../schema";
+
+const resume = readFileSync(path.join(import.meta.dirname, "data", "resume.txt"));
+
+async function waitForJob(id: number, done: (job: AnalysisJob) => boolean, timeoutMs = 10_000): Promise<AnalysisJob> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const job = await storage.getAnalysisJob(id);
+    assert.ok(job);
+    if (done(job) || Date.now() > deadline) return job;
+    await sleep(20);
+  }
+}
+
+describe("analysis worker", () => {
+  after(() => stopAnalysisWorker());
+
+  it("requeues a job left running once its lease runs out after the worker started", async () => {
+    const job = await storage.createAnalysisJob({
+      filename: "resume.txt",
+      fileType: "text/plain",
+      fileSize: resume.length,
+      fileData: resume.toString("base64"),
+      provider: "local",
+      sessionKey: "worker-test",
+    });
+    // Claimed by a process that then crashed, just before this one started
+    assert.equal((await storage.claimNextAnalysisJob())?.id, job.id);
+
+    await startAnalysisWorker({ leaseMs: 300, pollIntervalMs: 10 });
+    assert.equal((await storage.getAnalysisJob(job.id))?.status, "running");
+
+    const finished = await waitForJob(job.id, (current) => current.status === "completed" || current.status === "failed");
+    assert.equal(finished.status, "completed");
+    assert.equal(finished.attempts, 2);
+    assert.notEqual(finished.analysisId, null);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { llmAnalysisOutputSchema, llmCoverLetterOutputSchema } from "../schema";
+
+const CATEGORY_SCORES = { keywordsScore: 70, experienceScore: 80, skillsScore: 75, educationScore: 60, formattingScore: 90 };
+
+describe("llmAnalysisOutputSchema", () => {
+  it("treats a null overall score and job match as not provided", () => {
+    const parsed = llmAnalysisOutputSchema.parse({ ...CATEGORY_SCORES, overallScore: null, jobMatch: null });
+    assert.equal(parsed.overallScore, undefined);
+    assert.equal(parsed.jobMatch, undefined);
+  });
+
+  it("accepts missing optional fields", () => {
+    const parsed = llmAnalysisOutputSchema.parse(CATEGORY_SCORES);
+    assert.equal(parsed.overallScore, undefined);
+    assert.equal(parsed.jobMatch, undefined);
+    assert.deepEqual(parsed.improvementSuggestions, []);
+  });
+
+  it("coerces and clamps scores", () => {
+    const parsed = llmAnalysisOutputSchema.parse({ ...CATEGORY_SCORES, overallScore: "85/100", keywordsScore: 140, skillsScore: -5 });
+    assert.equal(parsed.overallScore, 85);
+    assert.equal(parsed.keywordsScore, 100);
+    assert.equal(parsed.skillsScore, 0);
+  });
+
+  it("still rejects a missing category score", () => {
+    const { keywordsScore: _omitted, ...rest } = CATEGORY_SCORES;
+    assert.equal(llmAnalysisOutputSchema.safeParse({ ...rest, overallScore: null }).success, false);
+  });
+
+  it("keeps a job match and drops malformed findings", () => {
+    const parsed = llmAnalysisOutputSchema.parse({
+      ...CATEGORY_SCORES,
+      jobMatch: { matchedKeywords: ["Python"], missingKeywords: "Rust", requirements: [{ requirement: "5 years of Python", status: "sort of" }] },
+      findings: [{ category: "skills", quote: "Python", message: "List versions" }, { quote: "" }],
+    });
+    assert.deepEqual(parsed.jobMatch, {
+      matchedKeywords: ["Python"],
+      missingKeywords: [],
+      requirements: [{ requirement: "5 years of Python", status: "missing", evidence: "" }],
+    });
+    assert.equal(parsed.findings.length, 1);
+  });
+});
+
+describe("llmCoverLetterOutputSchema", () => {
+  it("treats a null overall score as not provided", () => {
+    const parsed = llmCoverLetterOutputSchema.parse({ overallScore: null, personalizationScore: 70, structureScore: 80, lengthScore: 90 });
+    assert.equal(parsed.overallScore, undefined);
+    assert.equal(parsed.personalizationScore, 70);
+  });
+});
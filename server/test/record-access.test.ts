@@ -0,0 +1,68 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { canAccess, ownerColumns, recordOwner } from "../analysis-pipeline";
+import { MemStorage } from "../storage";
+import type { RecordOwner } from "../schema";
+
+describe("canAccess", () => {
+  it("lets only the signed-in owner reach their records", () => {
+    const record = ownerColumns({ userId: 1 });
+    assert.equal(canAccess(record, { userId: 1 }), true);
+    assert.equal(canAccess(record, { userId: 2 }), false);
+    assert.equal(canAccess(record, { sessionKey: "abc" }), false);
+    assert.equal(canAccess(record, null), false);
+  });
+
+  it("lets only the creating session reach anonymous records", () => {
+    const record = ownerColumns({ sessionKey: "abc" });
+    assert.equal(canAccess(record, { sessionKey: "abc" }), true);
+    assert.equal(canAccess(record, { sessionKey: "def" }), false);
+    assert.equal(canAccess(record, { userId: 1 }), false);
+    assert.equal(canAccess(record, null), false);
+  });
+
+  it("denies everyone records stored without an owner", () => {
+    const record = { userId: null, sessionKey: null };
+    assert.equal(recordOwner(record), null);
+    assert.equal(canAccess(record, { userId: 1 }), false);
+    assert.equal(canAccess(record, { sessionKey: "abc" }), false);
+  });
+});
+
+function newAnalysis(storage: MemStorage, owner: RecordOwner) {
+  return storage.createResumeAnalysis({
+    filename: "resume.txt",
+    fileType: "text/plain",
+    overallScore: 70,
+    keywordsScore: 70,
+    experienceScore: 70,
+    skillsScore: 70,
+    educationScore: 70,
+    formattingScore: 70,
+    feedback: {},
+    improvementSuggestions: [],
+    textHash: "hash",
+    ...ownerColumns(owner),
+  });
+}
+
+describe("MemStorage analyses by owner", () => {
+  it("only finds earlier analyses of the same owner", async () => {
+    const storage = new MemStorage();
+    await newAnalysis(storage, { sessionKey: "abc" });
+    assert.ok(await storage.getLatestResumeAnalysisByHash("hash", { sessionKey: "abc" }));
+    assert.equal(await storage.getLatestResumeAnalysisByHash("hash", { sessionKey: "def" }), undefined);
+  });
+
+  it("lists recent analyses of one session or user only", async () => {
+    const storage = new MemStorage();
+    const mine = await newAnalysis(storage, { sessionKey: "abc" });
+    await newAnalysis(storage, { sessionKey: "def" });
+    await newAnalysis(storage, { userId: 1 });
+    await storage.createResumeAnalysis({ ...mine, sessionKey: null });
+
+    const recent = await storage.getRecentResumeAnalyses(10, { sessionKey: "abc" });
+    assert.deepEqual(recent.map((analysis) => analysis.id), [mine.id]);
+    assert.equal((await storage.getRecentResumeAnalyses(10, { userId: 1 })).length, 1);
+  });
+});
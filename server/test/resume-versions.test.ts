@@ -0,0 +1,47 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AnalysisError, ownerColumns } from "../analysis-pipeline";
+import { addResumeVersion } from "../resume-versions";
+import { storage } from "../storage";
+import type { RecordOwner } from "../schema";
+
+function newAnalysis(owner: RecordOwner) {
+  return storage.createResumeAnalysis({
+    filename: "resume.txt",
+    fileType: "text/plain",
+    overallScore: 70,
+    keywordsScore: 70,
+    experienceScore: 70,
+    skillsScore: 70,
+    educationScore: 70,
+    formattingScore: 70,
+    feedback: {},
+    improvementSuggestions: [],
+    resumeText: "Jane Doe",
+    ...ownerColumns(owner),
+  });
+}
+
+describe("resume versions of anonymous visitors", () => {
+  it("lists only the session's own documents", async () => {
+    const mine = await storage.createResumeDocument({ name: "Mine", ...ownerColumns({ sessionKey: "versions-a" }) });
+    await storage.createResumeDocument({ name: "Theirs", ...ownerColumns({ sessionKey: "versions-b" }) });
+
+    const documents = await storage.getResumeDocuments({ sessionKey: "versions-a" });
+    assert.deepEqual(documents.map((document) => document.id), [mine.id]);
+  });
+
+  it("only adds the session's own analyses as versions", async () => {
+    const owner = { sessionKey: "versions-c" };
+    const document = await storage.createResumeDocument({ name: "Resume", ...ownerColumns(owner) });
+    const own = await newAnalysis(owner);
+    const other = await newAnalysis({ sessionKey: "versions-d" });
+
+    assert.equal((await addResumeVersion(document, own.id, owner)).version, 1);
+    await assert.rejects(
+      addResumeVersion(document, other.id, owner),
+      (error) => error instanceof AnalysisError && error.status === 404
+    );
+    assert.equal((await storage.getResumeAnalysis(other.id))?.documentId, null);
+  });
+});
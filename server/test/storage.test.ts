@@ -0,0 +1,43 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "../storage";
+
+function newJob(storage: MemStorage) {
+  return storage.createAnalysisJob({
+    filename: "resume.pdf",
+    fileType: "application/pdf",
+    fileSize: 3,
+    fileData: "YWJj",
+    provider: "local",
+  });
+}
+
+describe("MemStorage analysis jobs", () => {
+  it("requeues only running jobs whose lease has run out", async () => {
+    const storage = new MemStorage();
+    const stale = await newJob(storage);
+    const fresh = await newJob(storage);
+    const queued = await newJob(storage);
+    await storage.claimNextAnalysisJob();
+    await storage.claimNextAnalysisJob();
+    // Backdate the first claim past the lease
+    const claimed = await storage.getAnalysisJob(stale.id);
+    assert.ok(claimed);
+    claimed.updatedAt = new Date(Date.now() - 60_000);
+
+    assert.equal(await storage.requeueRunningAnalysisJobs(30_000), 1);
+    assert.equal((await storage.getAnalysisJob(stale.id))?.status, "queued");
+    assert.equal((await storage.getAnalysisJob(fresh.id))?.status, "running");
+    assert.equal((await storage.getAnalysisJob(queued.id))?.attempts, 0);
+  });
+
+  it("claims queued jobs oldest first and counts the attempt", async () => {
+    const storage = new MemStorage();
+    const first = await newJob(storage);
+    await newJob(storage);
+    const claimed = await storage.claimNextAnalysisJob();
+    assert.equal(claimed?.id, first.id);
+    assert.equal(claimed?.status, "running");
+    assert.equal(claimed?.attempts, 1);
+  });
+});
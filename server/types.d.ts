@@ -1,12 +1,50 @@
 declare module 'pdf-parse' {
-  interface PdfData {
-    text: string;
-    numpages: number;
-    info: any;
-    metadata: any;
-    version: string;
+  namespace parse {
+    interface PdfData {
+      text: string;
+      numpages: number;
+      info: any;
+      metadata: any;
+      version: string;
+    }
+
+    // The parts of pdf.js's page and text content that page renderers use
+    interface TextItem {
+      str: string;
+      // [scaleX, skewY, skewX, scaleY, x, y] with y measured up from the bottom of the page
+      transform: number[];
+      width: number;
+      height: number;
+      fontName: string;
+    }
+
+    interface PageProxy {
+      view: number[];
+      getTextContent(options?: { normalizeWhitespace?: boolean; disableCombineTextItems?: boolean }): Promise<{ items: TextItem[] }>;
+    }
+
+    interface Options {
+      // Returns the page's text; called for one page at a time, in order
+      pagerender?: (page: PageProxy) => Promise<string>;
+      max?: number;
+      version?: string;
+    }
   }
 
-  function parse(dataBuffer: Buffer, options?: any): Promise<PdfData>;
+  function parse(dataBuffer: Buffer | Uint8Array, options?: parse.Options): Promise<parse.PdfData>;
   export = parse;
-}
\ No newline at end of file
+}
+
+declare module 'word-extractor' {
+  interface WordDocument {
+    getBody(options?: { filterUnicode?: boolean }): string;
+    getHeaders(options?: { includeFooters?: boolean; filterUnicode?: boolean }): string;
+    getFooters(options?: { filterUnicode?: boolean }): string;
+    getFootnotes(options?: { filterUnicode?: boolean }): string;
+  }
+
+  class WordExtractor {
+    extract(source: string | Buffer): Promise<WordDocument>;
+  }
+  export = WordExtractor;
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -6,6 +6,8 @@ export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  // Chat conversations are deleted this many days after their last message; null keeps them until deleted
+  chatRetentionDays: integer("chat_retention_days").default(90),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -15,6 +17,19 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// What the API returns for a user; the password hash never leaves the server
+export type PublicUser = Omit<User, "password">;
+
+// Credentials accepted by /api/auth/register and /api/auth/login
+export const credentialsSchema = z.object({
+  username: z.string().trim()
+    .min(3, "Username must be at least 3 characters")
+    .max(50, "Username must be at most 50 characters")
+    .regex(/^[a-zA-Z0-9_.@-]+$/, "Username may only contain letters, numbers and _ . @ -"),
+  password: z.string()
+    .min(8, "Password must be at least 8 characters")
+    .max(200, "Password must be at most 200 characters"),
+});
 
 // Resume Analysis schemas
 export const resumeAnalysis = pgTable("resume_analysis", {
@@ -29,6 +44,34 @@ export const resumeAnalysis = pgTable("resume_analysis", {
   formattingScore: integer("formatting_score").notNull(),
   feedback: jsonb("feedback").notNull(),
   improvementSuggestions: jsonb("improvement_suggestions").notNull(),
+  jobMatch: jsonb("job_match"),
+  // sha256 of the extracted resume text and of the job description, used to recognise re-uploads
+  textHash: text("text_hash"),
+  jobDescriptionHash: text("job_description_hash"),
+  // Earlier analysis of the same extracted text, if any
+  previousAnalysisId: integer("previous_analysis_id"),
+  // LLM provider and model that produced the scores, with token usage for cost comparison
+  provider: text("provider"),
+  model: text("model"),
+  usage: jsonb("usage"),
+  // Rule-based scores for the same text, kept as a sanity check next to the LLM scores
+  ruleBasedScores: jsonb("rule_based_scores"),
+  // Specific issues, each citing the span of resumeText it is about
+  findings: jsonb("findings"),
+  // Layout of an uploaded PDF as an ATS would see it; null for other formats
+  layout: jsonb("layout"),
+  // Text addressed to AI screeners found in the resume; null when there was none
+  promptInjection: jsonb("prompt_injection"),
+  // Extracted resume text, so the analysis can later be matched against job openings
+  resumeText: text("resume_text"),
+  // Signed-in user who ran the analysis; null for anonymous uploads
+  userId: integer("user_id"),
+  // Anonymous uploads belong to the browser session that made them, through a random key kept in
+  // the session; null for signed-in users
+  sessionKey: text("session_key"),
+  // Resume document this upload is a version of, and its version number within it
+  documentId: integer("document_id"),
+  version: integer("version"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -40,11 +83,202 @@ export const insertResumeAnalysisSchema = createInsertSchema(resumeAnalysis).omi
 export type InsertResumeAnalysis = z.infer<typeof insertResumeAnalysisSchema>;
 export type ResumeAnalysis = typeof resumeAnalysis.$inferSelect;
 
+// A resume the user keeps revising; its analyses are numbered versions of it
+export const resumeDocuments = pgTable("resume_documents", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id"),
+  // Owning anonymous session, as on resume_analysis
+  sessionKey: text("session_key"),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertResumeDocumentSchema = createInsertSchema(resumeDocuments, {
+  name: z.string().trim().min(1, "Name is required").max(200),
+}).pick({
+  name: true,
+  userId: true,
+  sessionKey: true,
+});
+
+export type InsertResumeDocument = z.infer<typeof insertResumeDocumentSchema>;
+export type ResumeDocument = typeof resumeDocuments.$inferSelect;
+
+// A bulk upload of many resumes, analyzed against one shared job description
+export const analysisBatches = pgTable("analysis_batches", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id"),
+  // Owning anonymous session, as on resume_analysis
+  sessionKey: text("session_key"),
+  jobDescription: text("job_description"),
+  fileCount: integer("file_count").notNull(),
+  // Uploads that were not queued (unsupported files inside a ZIP and so on), as { filename, reason }
+  skippedFiles: jsonb("skipped_files").$type<SkippedFile[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const skippedFileSchema = z.object({
+  filename: z.string(),
+  reason: z.string(),
+});
+
+export type SkippedFile = z.infer<typeof skippedFileSchema>;
+
+export const insertAnalysisBatchSchema = createInsertSchema(analysisBatches, {
+  skippedFiles: z.array(skippedFileSchema),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertAnalysisBatch = z.infer<typeof insertAnalysisBatchSchema>;
+export type AnalysisBatch = typeof analysisBatches.$inferSelect;
+
+// Queued analyses, processed in the background by the job worker (server/job-queue.ts)
+export const ANALYSIS_JOB_STATUSES = ["queued", "running", "completed", "failed"] as const;
+export type AnalysisJobStatus = typeof ANALYSIS_JOB_STATUSES[number];
+
+export const analysisJobs = pgTable("analysis_jobs", {
+  id: serial("id").primaryKey(),
+  status: text("status").$type<AnalysisJobStatus>().notNull().default("queued"),
+  filename: text("filename").notNull(),
+  fileType: text("file_type").notNull(),
+  fileSize: integer("file_size").notNull(),
+  // Uploaded file, base64 encoded, so a queued job can be picked up again after a restart;
+  // cleared once the job completes or fails
+  fileData: text("file_data"),
+  jobDescription: text("job_description"),
+  provider: text("provider").notNull(),
+  userId: integer("user_id"),
+  // Owning anonymous session, as on resume_analysis
+  sessionKey: text("session_key"),
+  // Set when the job is one file of a batch upload
+  batchId: integer("batch_id"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  // A failed attempt is retried no earlier than this
+  runAfter: timestamp("run_after").defaultNow().notNull(),
+  error: text("error"),
+  // Stored analysis once completed; a failed job keeps the document classification when it was not a resume
+  analysisId: integer("analysis_id"),
+  result: jsonb("result"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const insertAnalysisJobSchema = createInsertSchema(analysisJobs, {
+  // Only finished jobs drop their file
+  fileData: z.string(),
+}).pick({
+  filename: true,
+  fileType: true,
+  fileSize: true,
+  fileData: true,
+  jobDescription: true,
+  provider: true,
+  userId: true,
+  sessionKey: true,
+  batchId: true,
+  maxAttempts: true,
+});
+
+export type InsertAnalysisJob = z.infer<typeof insertAnalysisJobSchema>;
+export type AnalysisJob = typeof analysisJobs.$inferSelect;
+export type AnalysisJobUpdate = Partial<Omit<AnalysisJob, "id" | "createdAt">>;
+
+// Who analyses, documents, jobs and batches belong to: a signed-in user, or the session key of an anonymous visitor
+export type RecordOwner = { userId: number } | { sessionKey: string };
+
 // Resume upload schema for validation
 export const resumeUploadSchema = z.object({
   file: z.any(),
 });
 
+// Job description match, present when the analysis targeted a specific posting
+export const requirementMatchSchema = z.object({
+  requirement: z.string(),
+  status: z.enum(["met", "partial", "missing"]),
+  evidence: z.string(),
+});
+
+export const jobMatchSchema = z.object({
+  matchedKeywords: z.array(z.string()),
+  missingKeywords: z.array(z.string()),
+  requirements: z.array(requirementMatchSchema),
+});
+
+export type JobMatchResponse = z.infer<typeof jobMatchSchema>;
+
+export const feedbackCategorySchema = z.enum(["keywords", "experience", "skills", "education", "formatting"]);
+
+// A specific issue with the resume, citing the exact text it is about. start and end are
+// character offsets into the extracted resume text, null when the quote could not be found in it.
+export const findingSchema = z.object({
+  category: feedbackCategorySchema,
+  quote: z.string(),
+  message: z.string(),
+  start: z.number().int().nullable(),
+  end: z.number().int().nullable(),
+});
+
+export type Finding = z.infer<typeof findingSchema>;
+
+// A layout problem in a PDF that an ATS may trip over, found from where the text sits on the page
+export const layoutWarningSchema = z.object({
+  kind: z.enum([
+    "image_only_pages", "multi_column", "tables", "header_footer_contact", "unusual_fonts", "unreadable_characters",
+    "long_document",
+  ]),
+  message: z.string(),
+  suggestion: z.string(),
+  // 1-based pages the warning is about; empty when it is about the whole file
+  pages: z.array(z.number().int()),
+  // Points taken off the formatting score
+  penalty: z.number().int(),
+});
+
+export type LayoutWarning = z.infer<typeof layoutWarningSchema>;
+
+export const pdfLayoutSchema = z.object({
+  pageCount: z.number().int(),
+  charactersPerPage: z.array(z.number().int()),
+  imageCount: z.number().int(),
+  fonts: z.array(z.string()),
+  warnings: z.array(layoutWarningSchema),
+});
+
+export type PdfLayout = z.infer<typeof pdfLayoutSchema>;
+
+// Passage of the resume text that tries to instruct the model scoring it; start/end index into resumeText
+export const injectionMatchSchema = z.object({
+  reason: z.string(),
+  quote: z.string(),
+  start: z.number().int(),
+  end: z.number().int(),
+});
+
+export type InjectionMatch = z.infer<typeof injectionMatchSchema>;
+
+export const promptInjectionSchema = z.object({
+  matches: z.array(injectionMatchSchema),
+  // Points taken off the formatting score
+  penalty: z.number().int(),
+  // Whether the model's category scores were capped at the rule-based scores
+  scoresCapped: z.boolean(),
+});
+
+export type PromptInjection = z.infer<typeof promptInjectionSchema>;
+
+export const categoryScoresSchema = z.object({
+  overallScore: z.number(),
+  keywordsScore: z.number(),
+  experienceScore: z.number(),
+  skillsScore: z.number(),
+  educationScore: z.number(),
+  formattingScore: z.number(),
+});
+
 // Resume analysis response schema
 export const resumeAnalysisResponseSchema = z.object({
   id: z.number(),
@@ -58,7 +292,370 @@ export const resumeAnalysisResponseSchema = z.object({
   formattingScore: z.number(),
   feedback: z.record(z.string(), z.string()),
   improvementSuggestions: z.array(z.string()),
+  jobMatch: jobMatchSchema.nullish(),
+  previousAnalysisId: z.number().nullish(),
+  provider: z.string().nullish(),
+  model: z.string().nullish(),
+  ruleBasedScores: categoryScoresSchema.nullish(),
+  findings: z.array(findingSchema).nullish(),
+  layout: pdfLayoutSchema.nullish(),
+  promptInjection: promptInjectionSchema.nullish(),
   createdAt: z.string(),
 });
 
 export type ResumeAnalysisResponse = z.infer<typeof resumeAnalysisResponseSchema>;
+
+// Score as returned by an LLM: numeric strings such as "85" or "85/100" are coerced and values clamped to 0-100
+const llmScoreSchema = z.preprocess(
+  (value) => (typeof value === "string" ? parseFloat(value) : value),
+  z.number().finite()
+).transform((value) => Math.max(0, Math.min(100, Math.round(value))));
+
+// A finding as the model reports it: a verbatim quote, located in the resume text afterwards
+const llmFindingSchema = findingSchema.pick({ category: true, quote: true, message: true });
+
+// Stricter sibling of resumeAnalysisResponseSchema for raw model output, before ids and metadata are attached
+export const llmAnalysisOutputSchema = z.object({
+  // Models send null as often as they leave a field out; both mean "not provided"
+  overallScore: llmScoreSchema.nullish().transform((value) => value ?? undefined),
+  keywordsScore: llmScoreSchema,
+  experienceScore: llmScoreSchema,
+  skillsScore: llmScoreSchema,
+  educationScore: llmScoreSchema,
+  formattingScore: llmScoreSchema,
+  feedback: z.object({
+    keywords: z.string().optional(),
+    experience: z.string().optional(),
+    skills: z.string().optional(),
+    education: z.string().optional(),
+    formatting: z.string().optional(),
+  }).default({}),
+  improvementSuggestions: z.array(z.string()).default([]),
+  // Malformed findings are dropped one by one rather than failing the whole analysis
+  findings: z.array(z.unknown()).default([]).catch([]).transform((items) => items.flatMap((item) => {
+    const parsed = llmFindingSchema.safeParse(item);
+    return parsed.success && parsed.data.quote.trim() && parsed.data.message.trim() ? [parsed.data] : [];
+  })),
+  jobMatch: z.object({
+    matchedKeywords: z.array(z.string()).catch([]),
+    missingKeywords: z.array(z.string()).catch([]),
+    requirements: z.array(z.object({
+      requirement: z.string(),
+      status: z.enum(["met", "partial", "missing"]).catch("missing"),
+      evidence: z.string().catch(""),
+    })).catch([]),
+  }).nullish().transform((value) => value ?? undefined),
+});
+
+export type LlmAnalysisOutput = z.infer<typeof llmAnalysisOutputSchema>;
+
+// What an uploaded document is; only resumes and CVs go on to the resume analysis
+export const DOCUMENT_TYPES = ["resume", "cv", "cover_letter", "job_description", "transcript", "other"] as const;
+export type DocumentType = typeof DOCUMENT_TYPES[number];
+
+export const llmClassificationOutputSchema = z.object({
+  type: z.enum(DOCUMENT_TYPES),
+  confidence: z.coerce.number().min(0).max(1).catch(0.5),
+});
+
+export type LlmClassificationOutput = z.infer<typeof llmClassificationOutputSchema>;
+
+// Body of POST /api/resume/rewrite: one bullet, or an experience entry from the resume parser
+const bulletSchema = z.string().trim().min(1, "Bullet is empty").max(500, "Bullet must be at most 500 characters");
+
+export const bulletRewriteRequestSchema = z.object({
+  bullet: bulletSchema.optional(),
+  experience: z.object({
+    bullets: z.array(bulletSchema).min(1, "The experience entry has no bullets").max(20),
+  }).optional(),
+  jobDescription: z.string().trim().max(10000).optional(),
+}).refine((body) => (body.bullet === undefined) !== (body.experience === undefined), {
+  message: "Provide either bullet or experience",
+});
+
+export type BulletRewriteRequest = z.infer<typeof bulletRewriteRequestSchema>;
+
+// Cover letters scored for personalization, structure, length and, when a job
+// description was supplied, alignment with it
+export const coverLetterAnalyses = pgTable("cover_letter_analyses", {
+  id: serial("id").primaryKey(),
+  filename: text("filename").notNull(),
+  fileType: text("file_type").notNull(),
+  overallScore: integer("overall_score").notNull(),
+  personalizationScore: integer("personalization_score").notNull(),
+  structureScore: integer("structure_score").notNull(),
+  lengthScore: integer("length_score").notNull(),
+  // Null when the letter was analyzed without a job description
+  alignmentScore: integer("alignment_score"),
+  wordCount: integer("word_count").notNull(),
+  feedback: jsonb("feedback").$type<CoverLetterFeedback>().notNull(),
+  improvementSuggestions: jsonb("improvement_suggestions").$type<string[]>().notNull(),
+  jobDescriptionHash: text("job_description_hash"),
+  provider: text("provider"),
+  model: text("model"),
+  usage: jsonb("usage"),
+  letterText: text("letter_text"),
+  // Signed-in user who ran the analysis; null for anonymous uploads
+  userId: integer("user_id"),
+  // Owning anonymous session, as on resume_analysis
+  sessionKey: text("session_key"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export interface CoverLetterFeedback {
+  personalization: string;
+  structure: string;
+  length: string;
+  alignment: string | null;
+}
+
+export const insertCoverLetterAnalysisSchema = createInsertSchema(coverLetterAnalyses, {
+  feedback: z.custom<CoverLetterFeedback>(),
+  improvementSuggestions: z.array(z.string()),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertCoverLetterAnalysis = z.infer<typeof insertCoverLetterAnalysisSchema>;
+export type CoverLetterAnalysis = typeof coverLetterAnalyses.$inferSelect;
+
+// Raw model output for a cover letter analysis, before the overall score is checked and metadata attached
+export const llmCoverLetterOutputSchema = z.object({
+  overallScore: llmScoreSchema.nullish().transform((value) => value ?? undefined),
+  personalizationScore: llmScoreSchema,
+  structureScore: llmScoreSchema,
+  lengthScore: llmScoreSchema,
+  alignmentScore: llmScoreSchema.nullish(),
+  feedback: z.object({
+    personalization: z.string().optional(),
+    structure: z.string().optional(),
+    length: z.string().optional(),
+    alignment: z.string().nullish(),
+  }).default({}),
+  improvementSuggestions: z.array(z.string()).default([]),
+});
+
+export type LlmCoverLetterOutput = z.infer<typeof llmCoverLetterOutputSchema>;
+
+// Body of POST /api/cover-letter/generate: a stored resume analysis and the posting to write the letter for
+export const coverLetterDraftRequestSchema = z.object({
+  analysisId: z.coerce.number().int().positive("Invalid analysis ID"),
+  jobDescription: z.string().trim()
+    .min(50, "Paste the job description so the letter can be written for it")
+    .max(10000, "Job description must be at most 10000 characters"),
+});
+
+// Body of POST /api/chat: the user's new message, in a new conversation or continuing a stored one
+export const chatRequestSchema = z.object({
+  message: z.string().trim().min(1, "Message is empty").max(4000, "Message must be at most 4000 characters"),
+  conversationId: z.number().int().positive().optional(),
+  // The analysis the user is looking at; defaults to the signed-in user's latest
+  analysisId: z.number().int().positive().optional(),
+});
+
+// JSON body of POST /api/resume/ats-preview when previewing a stored analysis instead of an upload
+export const atsPreviewRequestSchema = z.object({
+  analysisId: z.coerce.number().int().positive("Invalid analysis ID"),
+});
+
+// Raw model output for a rewrite request; entries are matched to the bullets by position
+export const llmRewriteOutputSchema = z.object({
+  rewrites: z.array(z.object({
+    suggestions: z.array(z.string()).catch([]),
+  })),
+});
+
+// Structured resume profile produced by the resume parser
+export const resumeContactSchema = z.object({
+  name: z.string().nullable(),
+  email: z.string().nullable(),
+  phone: z.string().nullable(),
+  location: z.string().nullable(),
+  links: z.array(z.string()),
+});
+
+export const experienceEntrySchema = z.object({
+  company: z.string().nullable(),
+  title: z.string().nullable(),
+  location: z.string().nullable(),
+  startDate: z.string().nullable(),
+  endDate: z.string().nullable(),
+  current: z.boolean(),
+  bullets: z.array(z.string()),
+});
+
+export const educationEntrySchema = z.object({
+  institution: z.string().nullable(),
+  degree: z.string().nullable(),
+  fieldOfStudy: z.string().nullable(),
+  startDate: z.string().nullable(),
+  endDate: z.string().nullable(),
+  details: z.array(z.string()),
+});
+
+export const certificationEntrySchema = z.object({
+  name: z.string(),
+  issuer: z.string().nullable(),
+  date: z.string().nullable(),
+});
+
+export const projectEntrySchema = z.object({
+  name: z.string(),
+  technologies: z.array(z.string()),
+  bullets: z.array(z.string()),
+});
+
+export const resumeProfileSchema = z.object({
+  contact: resumeContactSchema,
+  summary: z.string().nullable(),
+  experience: z.array(experienceEntrySchema),
+  education: z.array(educationEntrySchema),
+  skills: z.array(z.string()),
+  certifications: z.array(certificationEntrySchema),
+  projects: z.array(projectEntrySchema),
+});
+
+export type ResumeContact = z.infer<typeof resumeContactSchema>;
+export type ExperienceEntry = z.infer<typeof experienceEntrySchema>;
+export type EducationEntry = z.infer<typeof educationEntrySchema>;
+export type CertificationEntry = z.infer<typeof certificationEntrySchema>;
+export type ProjectEntry = z.infer<typeof projectEntrySchema>;
+export type ResumeProfile = z.infer<typeof resumeProfileSchema>;
+
+// Recruiter job openings, with the analyzed resumes attached to them as candidates
+export const openings = pgTable("openings", {
+  id: serial("id").primaryKey(),
+  // The recruiter who created the opening; openings need a signed-in user
+  userId: integer("user_id"),
+  title: text("title").notNull(),
+  description: text("description").notNull().default(""),
+  mustHaveRequirements: jsonb("must_have_requirements").$type<string[]>().notNull().default([]),
+  niceToHaveRequirements: jsonb("nice_to_have_requirements").$type<string[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+const requirementListSchema = z.array(z.string().trim().min(1).max(300)).max(30);
+
+export const insertOpeningSchema = createInsertSchema(openings, {
+  title: z.string().trim().min(1, "Title is required").max(200),
+  description: z.string().max(10000).default(""),
+  mustHaveRequirements: requirementListSchema.default([]),
+  niceToHaveRequirements: requirementListSchema.default([]),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// What a recruiter may send; the owner comes from the session
+export const openingInputSchema = insertOpeningSchema.omit({ userId: true });
+export const updateOpeningSchema = openingInputSchema.partial();
+
+export type InsertOpening = z.infer<typeof insertOpeningSchema>;
+export type UpdateOpening = z.infer<typeof updateOpeningSchema>;
+export type Opening = typeof openings.$inferSelect;
+
+export const openingCandidates = pgTable("opening_candidates", {
+  id: serial("id").primaryKey(),
+  openingId: integer("opening_id").notNull(),
+  analysisId: integer("analysis_id").notNull(),
+  // Computed fit against the opening's requirements (server/candidate-ranking.ts)
+  fitScore: integer("fit_score").notNull(),
+  requirementMatches: jsonb("requirement_matches").$type<CandidateRequirementMatches>().notNull(),
+  explanation: text("explanation").notNull(),
+  // A recruiter's manual score replaces the computed fit when ranking
+  overrideScore: integer("override_score"),
+  overrideNote: text("override_note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  openingAnalysisUnique: unique().on(table.openingId, table.analysisId),
+}));
+
+export const candidateRequirementMatchesSchema = z.object({
+  mustHave: z.array(requirementMatchSchema),
+  niceToHave: z.array(requirementMatchSchema),
+});
+
+export type CandidateRequirementMatches = z.infer<typeof candidateRequirementMatchesSchema>;
+
+export const insertOpeningCandidateSchema = createInsertSchema(openingCandidates, {
+  requirementMatches: candidateRequirementMatchesSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const candidateOverrideSchema = z.object({
+  overrideScore: z.number().int().min(0).max(100).nullable(),
+  overrideNote: z.string().trim().max(1000).nullable().optional(),
+});
+
+export type InsertOpeningCandidate = z.infer<typeof insertOpeningCandidateSchema>;
+export type OpeningCandidate = typeof openingCandidates.$inferSelect;
+export type OpeningCandidateUpdate = Partial<Omit<OpeningCandidate, "id" | "openingId" | "analysisId" | "createdAt">>;
+
+// Career assistant conversations, owned by a user or, for anonymous visitors, by their session
+export const chatConversations = pgTable("chat_conversations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id"),
+  sessionId: text("session_id"),
+  title: text("title").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  // When the retention setting removes the conversation; null keeps it until deleted
+  expiresAt: timestamp("expires_at"),
+});
+
+export const insertChatConversationSchema = createInsertSchema(chatConversations).pick({
+  userId: true,
+  sessionId: true,
+  title: true,
+  expiresAt: true,
+});
+
+export type InsertChatConversation = z.infer<typeof insertChatConversationSchema>;
+export type ChatConversation = typeof chatConversations.$inferSelect;
+export type ChatOwner = { userId: number } | { sessionId: string };
+export type PublicChatConversation = Omit<ChatConversation, "userId" | "sessionId">;
+
+// Follow-ups the assistant offers under a reply; the client maps each type to a route or upload
+export type ChatAction =
+  | { type: "upload_resume"; label: string }
+  | { type: "open_analysis"; label: string; analysisId: number }
+  | { type: "open_dashboard"; label: string }
+  | { type: "ask"; label: string; message: string };
+
+export const chatMessages = pgTable("chat_messages", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").notNull(),
+  role: text("role").$type<"user" | "assistant">().notNull(),
+  content: text("content").notNull(),
+  actions: jsonb("actions").$type<ChatAction[]>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertChatMessageSchema = createInsertSchema(chatMessages, {
+  role: z.enum(["user", "assistant"]),
+  actions: z.array(z.custom<ChatAction>()).nullish(),
+}).pick({
+  conversationId: true,
+  role: true,
+  content: true,
+  actions: true,
+});
+
+export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
+export type ChatMessage = typeof chatMessages.$inferSelect;
+
+// Choices for how long chats are kept, in days; null keeps them until the user deletes them
+export const CHAT_RETENTION_OPTIONS = [7, 30, 90, 365, null] as const;
+
+export const chatSettingsSchema = z.object({
+  retentionDays: z.union([z.literal(7), z.literal(30), z.literal(90), z.literal(365), z.null()], {
+    errorMap: () => ({ message: "Retention must be 7, 30, 90 or 365 days, or null to keep chats until deleted" }),
+  }),
+});
@@ -9,10 +9,16 @@ import ResumeAnalyzer from "@/pages/ResumeAnalyzer";
 import { Header } from "@/components/layout/Header";
 import { Footer } from "@/components/layout/Footer";
 import { ChatWidget } from "@/components/layout/ChatWidget";
+import { AuthProvider } from "@/hooks/use-auth";
 
 // Lazy load pages for better performance
 const Resources = lazy(() => import("./pages/Resources"));
 const About = lazy(() => import("./pages/About"));
+const BatchAnalyzer = lazy(() => import("./pages/BatchAnalyzer"));
+const Openings = lazy(() => import("./pages/Openings"));
+const CoverLetter = lazy(() => import("./pages/CoverLetter"));
+const Dashboard = lazy(() => import("./pages/Dashboard"));
+const ResumeVersions = lazy(() => import("./pages/ResumeVersions"));
 
 // Loading component for suspense
 const Loading: React.FC = () => <div className="container mx-auto p-8 text-center">Loading...</div>;
@@ -23,6 +29,11 @@ function Router() {
       <Switch>
         <Route path="/" component={Home} />
         <Route path="/resume-analyzer" component={ResumeAnalyzer} />
+        <Route path="/batch-analyzer" component={BatchAnalyzer} />
+        <Route path="/openings" component={Openings} />
+        <Route path="/cover-letter" component={CoverLetter} />
+        <Route path="/dashboard" component={Dashboard} />
+        <Route path="/resume-versions" component={ResumeVersions} />
         <Route path="/resources" component={Resources} />
         <Route path="/about" component={About} />
         {/* Fallback to 404 */}
@@ -41,15 +52,17 @@ function App() {
 
   return (
     <QueryClientProvider client={queryClient}>
-      <div className="flex flex-col min-h-screen">
-        <Header onChatToggle={toggleChat} />
-        <main className="flex-grow">
-          <Router />
-        </main>
-        <Footer />
-      </div>
-      <ChatWidget isOpen={isChatOpen} onClose={() => setIsChatOpen(false)} />
-      <Toaster />
+      <AuthProvider>
+        <div className="flex flex-col min-h-screen">
+          <Header onChatToggle={toggleChat} />
+          <main className="flex-grow">
+            <Router />
+          </main>
+          <Footer />
+        </div>
+        <ChatWidget isOpen={isChatOpen} onClose={() => setIsChatOpen(false)} />
+        <Toaster />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,97 @@
+import React from 'react';
+import { CheckCircle, Circle, Loader2, SkipForward } from 'lucide-react';
+import { ProgressBar } from '@/components/ui/progress-bar';
+import { AnalysisStage, StageEvent, PartialFeedback, FeedbackCategory } from '@/lib/types';
+
+interface AnalysisProgressProps {
+  stages: Partial<Record<AnalysisStage, StageEvent>>;
+  partials: PartialFeedback[];
+}
+
+const stageLabels: Array<{ stage: AnalysisStage; label: string }> = [
+  { stage: 'upload', label: 'Uploading file' },
+  { stage: 'extract', label: 'Extracting text' },
+  { stage: 'resume_check', label: 'Checking the document is a resume' },
+  { stage: 'analysis', label: 'Analyzing against ATS criteria' },
+  { stage: 'validation', label: 'Validating and saving results' }
+];
+
+const categoryLabels: Record<FeedbackCategory, string> = {
+  keywords: 'Keywords & Phrases',
+  experience: 'Work Experience',
+  skills: 'Skills Match',
+  education: 'Education',
+  formatting: 'Formatting & Structure'
+};
+
+function StageIcon({ event }: { event?: StageEvent }) {
+  if (!event) return <Circle className="h-4 w-4 text-gray-300 dark:text-gray-600" />;
+  if (event.status === 'started') return <Loader2 className="h-4 w-4 text-blue-500 animate-spin" />;
+  if (event.status === 'skipped') return <SkipForward className="h-4 w-4 text-gray-400" />;
+  return <CheckCircle className="h-4 w-4 text-green-500" />;
+}
+
+export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ stages, partials }) => {
+  const finished = stageLabels.filter(({ stage }) => {
+    const status = stages[stage]?.status;
+    return status === 'completed' || status === 'skipped';
+  }).length;
+  const percent = Math.round((finished / stageLabels.length) * 100);
+
+  return (
+    <div className="flex flex-col">
+      <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-100 mb-2">Analyzing Your Resume</h3>
+      <div className="w-full bg-gray-200 dark:bg-gray-800 rounded-full h-2.5 mb-4">
+        <div
+          className="bg-blue-500 h-2.5 rounded-full transition-all duration-500"
+          style={{ width: `${Math.max(percent, 5)}%` }}
+        ></div>
+      </div>
+
+      <ul className="space-y-2">
+        {stageLabels.map(({ stage, label }) => {
+          const event = stages[stage];
+          return (
+            <li key={stage} className="flex items-start text-sm">
+              <span className="mt-0.5 mr-2"><StageIcon event={event} /></span>
+              <div>
+                <span className={event ? 'text-gray-700 dark:text-gray-200' : 'text-gray-400 dark:text-gray-500'}>
+                  {label}
+                </span>
+                {event?.detail && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{event.detail}</p>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {partials.length > 0 && (
+        <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-800">
+          <h4 className="text-md font-semibold text-gray-800 dark:text-gray-100 mb-3">Early Feedback</h4>
+          <div className="space-y-3">
+            {partials.map(partial => (
+              <div key={partial.category}>
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    {categoryLabels[partial.category]}
+                  </span>
+                  {partial.score !== null && (
+                    <div className="flex items-center">
+                      <span className="text-sm font-medium text-gray-700 dark:text-gray-300 mr-2">{partial.score}</span>
+                      <div className="w-24">
+                        <ProgressBar score={partial.score} showValue={false} size="sm" />
+                      </div>
+                    </div>
+                  )}
+                </div>
+                <p className="text-sm text-gray-600 dark:text-gray-300">{partial.feedback}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
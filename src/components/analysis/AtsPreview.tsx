@@ -0,0 +1,94 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { AtsField, AtsFieldStatus, AtsPreview as AtsPreviewData } from '@/lib/types';
+
+interface AtsPreviewProps {
+  analysisId: number;
+}
+
+const statusDisplay: Record<AtsFieldStatus, { icon: React.ReactNode; className: string }> = {
+  ok: {
+    icon: <CheckCircle className="h-4 w-4 text-green-500" />,
+    className: 'border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800'
+  },
+  missing: {
+    icon: <XCircle className="h-4 w-4 text-red-500" />,
+    className: 'border-dashed border-red-300 dark:border-red-800 bg-red-50 dark:bg-red-950/40'
+  },
+  garbled: {
+    icon: <AlertTriangle className="h-4 w-4 text-amber-500" />,
+    className: 'border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-950/40'
+  }
+};
+
+const FormField: React.FC<{ field: AtsField }> = ({ field }) => (
+  <div>
+    <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{field.label}</div>
+    <div className={`flex items-center gap-2 rounded-md border px-3 py-2 text-sm ${statusDisplay[field.status].className}`}>
+      <span className={`flex-1 break-words ${field.value ? 'text-gray-800 dark:text-gray-100' : 'italic text-gray-400'}`}>
+        {field.value ?? 'Empty'}
+      </span>
+      {statusDisplay[field.status].icon}
+    </div>
+    {field.issue && (
+      <p className="mt-1 text-xs text-gray-600 dark:text-gray-300">{field.issue}</p>
+    )}
+  </div>
+);
+
+export const AtsPreview: React.FC<AtsPreviewProps> = ({ analysisId }) => {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['/api/resume/ats-preview', analysisId],
+    queryFn: async () => {
+      const response = await apiRequest('POST', '/api/resume/ats-preview', { analysisId });
+      return (await response.json()).preview as AtsPreviewData;
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-300">Reading your resume the way an ATS would...</p>;
+  }
+  if (error || !data) {
+    return <p className="text-sm text-red-600 dark:text-red-400">{error?.message ?? 'The ATS preview is not available.'}</p>;
+  }
+
+  const problemCount = data.missingCount + data.garbledCount;
+
+  return (
+    <div>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        This is how a typical applicant tracking system fills in its candidate form from your resume.{' '}
+        {problemCount === 0
+          ? 'Every field came through cleanly.'
+          : `${data.missingCount} field${data.missingCount === 1 ? ' is' : 's are'} empty and ${data.garbledCount} ${data.garbledCount === 1 ? 'is' : 'are'} garbled; recruiters searching the ATS will not find what is missing.`}
+      </p>
+
+      <div className="space-y-6">
+        {data.groups.map(group => (
+          <div key={group.title}>
+            <h5 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-3">{group.title}</h5>
+            {group.title === 'Skills' && data.skills.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {data.skills.map(skill => (
+                  <Badge key={skill} variant="outline">{skill}</Badge>
+                ))}
+                {group.fields[0].issue && (
+                  <p className="w-full mt-1 text-xs text-gray-600 dark:text-gray-300">{group.fields[0].issue}</p>
+                )}
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {group.fields.map(field => (
+                  <FormField key={field.label} field={field} />
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from '@/components/ui/table';
+import {
+  Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious
+} from '@/components/ui/pagination';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { BatchResultRow, JobStatus } from '@/lib/types';
+
+interface BatchResultsTableProps {
+  results: BatchResultRow[];
+  pageSize?: number;
+}
+
+type SortKey = 'filename' | 'status' | 'overallScore' | 'keywordsScore' | 'experienceScore'
+  | 'skillsScore' | 'educationScore' | 'formattingScore';
+
+const columns: Array<{ key: SortKey; label: string; numeric?: boolean }> = [
+  { key: 'filename', label: 'File' },
+  { key: 'status', label: 'Status' },
+  { key: 'overallScore', label: 'Overall', numeric: true },
+  { key: 'keywordsScore', label: 'Keywords', numeric: true },
+  { key: 'experienceScore', label: 'Experience', numeric: true },
+  { key: 'skillsScore', label: 'Skills', numeric: true },
+  { key: 'educationScore', label: 'Education', numeric: true },
+  { key: 'formattingScore', label: 'Formatting', numeric: true }
+];
+
+const statusDisplay: Record<JobStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300' },
+  running: { label: 'Analyzing', className: 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200' },
+  completed: { label: 'Done', className: 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-200' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-200' }
+};
+
+export const BatchResultsTable: React.FC<BatchResultsTableProps> = ({ results, pageSize = 10 }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('overallScore');
+  const [descending, setDescending] = useState(true);
+  const [page, setPage] = useState(1);
+
+  const sorted = useMemo(() => {
+    const rows = [...results];
+    rows.sort((a, b) => {
+      const left = a[sortKey];
+      const right = b[sortKey];
+      // Rows without a score yet always sort last
+      if (left === null && right === null) return 0;
+      if (left === null) return 1;
+      if (right === null) return -1;
+      const order = typeof left === 'number' && typeof right === 'number'
+        ? left - right
+        : String(left).localeCompare(String(right));
+      return descending ? -order : order;
+    });
+    return rows;
+  }, [results, sortKey, descending]);
+
+  const pageCount = Math.max(1, Math.ceil(sorted.length / pageSize));
+  const currentPage = Math.min(page, pageCount);
+  const pageRows = sorted.slice((currentPage - 1) * pageSize, currentPage * pageSize);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending(prev => !prev);
+    } else {
+      setSortKey(key);
+      // Scores read best-first, text columns alphabetically
+      setDescending(columns.find(column => column.key === key)?.numeric ?? false);
+    }
+    setPage(1);
+  };
+
+  const goToPage = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    setPage(Math.max(1, Math.min(pageCount, target)));
+  };
+
+  return (
+    <div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {columns.map(column => (
+              <TableHead key={column.key} className={column.numeric ? 'text-right' : undefined}>
+                <button
+                  type="button"
+                  onClick={() => handleSort(column.key)}
+                  className="inline-flex items-center gap-1 hover:text-gray-900 dark:hover:text-gray-100"
+                >
+                  {column.label}
+                  {sortKey !== column.key
+                    ? <ArrowUpDown className="h-3 w-3 opacity-50" />
+                    : descending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />}
+                </button>
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {pageRows.map(row => (
+            <TableRow key={row.jobId}>
+              <TableCell className="font-medium max-w-[14rem] truncate" title={row.filename}>
+                {row.filename}
+                {row.injectionFlagged && (
+                  <p className="text-xs text-red-600 dark:text-red-400 whitespace-normal">Possible prompt injection</p>
+                )}
+                {row.error && (
+                  <p className={`text-xs whitespace-normal ${row.documentType ? 'text-amber-600 dark:text-amber-400' : 'text-red-500'}`}>
+                    {row.error}
+                  </p>
+                )}
+              </TableCell>
+              <TableCell>
+                <Badge variant="outline" className={statusDisplay[row.status].className}>
+                  {statusDisplay[row.status].label}
+                </Badge>
+              </TableCell>
+              {columns.filter(column => column.numeric).map(column => (
+                <TableCell key={column.key} className="text-right tabular-nums">
+                  {row[column.key] ?? '–'}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {pageCount > 1 && (
+        <Pagination className="mt-4">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious href="#" onClick={goToPage(currentPage - 1)} />
+            </PaginationItem>
+            {Array.from({ length: pageCount }, (_, index) => index + 1).map(pageNumber => (
+              <PaginationItem key={pageNumber}>
+                <PaginationLink href="#" isActive={pageNumber === currentPage} onClick={goToPage(pageNumber)}>
+                  {pageNumber}
+                </PaginationLink>
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext href="#" onClick={goToPage(currentPage + 1)} />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle
+} from '@/components/ui/dialog';
+import { Check, Copy, AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { BulletRewriteResult, RewriteSuggestion } from '@/lib/types';
+
+interface BulletRewriteDialogProps {
+  // The bullet to rewrite; the dialog is open while this is set
+  bullet: string | null;
+  jobDescription?: string;
+  onClose: () => void;
+}
+
+const SuggestionCard: React.FC<{ suggestion: RewriteSuggestion }> = ({ suggestion }) => {
+  const [copied, setCopied] = useState(false);
+  const { toast } = useToast();
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(suggestion.text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast({
+        title: "Copy Failed",
+        description: "Your browser blocked clipboard access. Select the text and copy it instead.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="rounded-md border border-gray-200 dark:border-gray-800 p-3">
+      <div className="flex items-start gap-2">
+        <p className="flex-1 text-sm text-gray-800 dark:text-gray-100">{suggestion.text}</p>
+        <Button variant="ghost" size="icon" onClick={copy} aria-label="Copy rewrite">
+          {copied ? <Check className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
+        </Button>
+      </div>
+      <div className="flex flex-wrap gap-2 mt-2">
+        {suggestion.hasPlaceholders && (
+          <Badge variant="outline" className="text-xs">Fill in the [placeholders]</Badge>
+        )}
+        {suggestion.inventedNumbers.length > 0 && (
+          <Badge variant="outline" className="text-xs border-amber-500 text-amber-700 dark:text-amber-300">
+            <AlertTriangle className="h-3 w-3 mr-1" />
+            Not in your bullet: {suggestion.inventedNumbers.join(', ')}. Only keep figures that are true.
+          </Badge>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const BulletRewriteDialog: React.FC<BulletRewriteDialogProps> = ({ bullet, jobDescription, onClose }) => {
+  const rewriteMutation = useMutation({
+    mutationFn: async (text: string) => {
+      const response = await apiRequest('POST', '/api/resume/rewrite', {
+        bullet: text,
+        jobDescription: jobDescription?.trim() || undefined,
+      });
+      return await response.json() as BulletRewriteResult;
+    },
+  });
+
+  const { mutate, reset } = rewriteMutation;
+  useEffect(() => {
+    if (bullet) {
+      mutate(bullet);
+    } else {
+      reset();
+    }
+  }, [bullet, mutate, reset]);
+
+  const suggestions = rewriteMutation.data?.rewrites[0]?.suggestions ?? [];
+
+  return (
+    <Dialog open={bullet !== null} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Suggested Rewrites</DialogTitle>
+          <DialogDescription>
+            Stronger versions of this bullet. Copy one into your resume and replace any placeholders with your real figures.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Before</div>
+            <p className="text-sm text-gray-600 dark:text-gray-300 line-through decoration-gray-400">{bullet}</p>
+          </div>
+
+          <div>
+            <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">After</div>
+            {rewriteMutation.isPending ? (
+              <p className="text-sm text-gray-500 dark:text-gray-300">Writing suggestions...</p>
+            ) : rewriteMutation.isError ? (
+              <p className="text-sm text-red-600 dark:text-red-400">{rewriteMutation.error.message}</p>
+            ) : (
+              <div className="space-y-2">
+                {suggestions.map(suggestion => (
+                  <SuggestionCard key={suggestion.text} suggestion={suggestion} />
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from '@/components/ui/table';
+import { Pencil, Trash2 } from 'lucide-react';
+import { RankedCandidate, RequirementMatch, RequirementStatus } from '@/lib/types';
+
+interface CandidateRankingTableProps {
+  candidates: RankedCandidate[];
+  onOverride: (candidateId: number, overrideScore: number | null, overrideNote: string | null) => void;
+  onRemove: (candidateId: number) => void;
+  disabled?: boolean;
+}
+
+const statusClassName: Record<RequirementStatus, string> = {
+  met: 'border-green-500 text-green-700 dark:text-green-300',
+  partial: 'border-amber-500 text-amber-700 dark:text-amber-300',
+  missing: 'border-red-500 text-red-700 dark:text-red-300'
+};
+
+const RequirementBadges: React.FC<{ label: string; matches: RequirementMatch[] }> = ({ label, matches }) => {
+  if (matches.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-1">
+      <span className="text-xs text-gray-500 dark:text-gray-400 mr-1">{label}:</span>
+      {matches.map(match => (
+        <Badge
+          key={match.requirement}
+          variant="outline"
+          className={statusClassName[match.status]}
+          title={match.evidence || 'No evidence found in the resume'}
+        >
+          {match.requirement}
+        </Badge>
+      ))}
+    </div>
+  );
+};
+
+export const CandidateRankingTable: React.FC<CandidateRankingTableProps> = ({
+  candidates,
+  onOverride,
+  onRemove,
+  disabled = false
+}) => {
+  const [editing, setEditing] = useState<RankedCandidate | null>(null);
+  const [score, setScore] = useState('');
+  const [note, setNote] = useState('');
+
+  const openOverride = (candidate: RankedCandidate) => {
+    setEditing(candidate);
+    setScore(candidate.overrideScore?.toString() ?? '');
+    setNote(candidate.overrideNote ?? '');
+  };
+
+  const saveOverride = () => {
+    if (!editing) return;
+    const parsed = parseInt(score, 10);
+    onOverride(editing.id, isNaN(parsed) ? null : Math.max(0, Math.min(100, parsed)), note.trim() || null);
+    setEditing(null);
+  };
+
+  if (candidates.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-300 py-6 text-center">
+        No candidates yet. Attach analyzed resumes to rank them against this opening.
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-12">Rank</TableHead>
+            <TableHead>Candidate</TableHead>
+            <TableHead className="text-right">Fit</TableHead>
+            <TableHead className="w-24"></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {candidates.map(candidate => (
+            <TableRow key={candidate.id}>
+              <TableCell className="font-semibold">#{candidate.rank}</TableCell>
+              <TableCell>
+                <div className="font-medium text-gray-800 dark:text-gray-100">{candidate.filename}</div>
+                {candidate.injectionFlagged && (
+                  <Badge
+                    variant="outline"
+                    className="mt-1 border-red-400 text-red-600 dark:text-red-400"
+                    title="The resume contains text addressed to AI screeners; its scores were capped"
+                  >
+                    Possible prompt injection
+                  </Badge>
+                )}
+                <p className="text-xs text-gray-600 dark:text-gray-300 mt-1">{candidate.explanation}</p>
+                <RequirementBadges label="Must-have" matches={candidate.requirementMatches.mustHave} />
+                <RequirementBadges label="Nice-to-have" matches={candidate.requirementMatches.niceToHave} />
+                {candidate.overrideScore !== null && (
+                  <p className="text-xs text-purple-600 dark:text-purple-300 mt-1">
+                    Manual score {candidate.overrideScore} (computed {candidate.fitScore})
+                    {candidate.overrideNote && `: ${candidate.overrideNote}`}
+                  </p>
+                )}
+              </TableCell>
+              <TableCell className="text-right text-lg font-semibold tabular-nums">
+                {candidate.effectiveScore}
+              </TableCell>
+              <TableCell>
+                <div className="flex justify-end gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => openOverride(candidate)}
+                    disabled={disabled}
+                    aria-label="Override score"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onRemove(candidate.id)}
+                    disabled={disabled}
+                    aria-label="Remove candidate"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog open={editing !== null} onOpenChange={open => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Override Score</DialogTitle>
+            <DialogDescription>
+              {editing?.filename}: computed fit {editing?.fitScore}/100. Leave the score empty to use the computed fit.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="override-score">Score (0-100)</Label>
+              <Input
+                id="override-score"
+                type="number"
+                min={0}
+                max={100}
+                value={score}
+                onChange={e => setScore(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="override-note">Reason</Label>
+              <Input
+                id="override-note"
+                value={note}
+                onChange={e => setNote(e.target.value)}
+                placeholder="Referred by the hiring manager"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={saveOverride} className="bg-blue-500 hover:bg-blue-600 text-white">Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useRef } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Briefcase, Paperclip, X } from 'lucide-react';
+
+interface JobDescriptionPanelProps {
+  text: string;
+  file: File | null;
+  onTextChange: (text: string) => void;
+  onFileChange: (file: File | null) => void;
+  disabled?: boolean;
+}
+
+export const JobDescriptionPanel: React.FC<JobDescriptionPanelProps> = ({
+  text,
+  file,
+  onTextChange,
+  onFileChange,
+  disabled = false
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] ?? null;
+    onFileChange(selected);
+    // Reset so selecting the same file again still triggers a change
+    e.target.value = '';
+  };
+
+  return (
+    <Card className="w-full mt-6">
+      <CardContent className="p-6">
+        <div className="flex items-center mb-2">
+          <Briefcase className="h-5 w-5 text-blue-500 mr-2" />
+          <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-100">Target Job Description</h3>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-300 mb-4">
+          Optional. Paste the posting or attach it to score your resume against that specific role.
+        </p>
+
+        {file ? (
+          <div className="flex items-center justify-between border border-gray-200 dark:border-gray-800 rounded-md px-3 py-2">
+            <span className="text-sm text-gray-700 dark:text-gray-300 truncate">{file.name}</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onFileChange(null)}
+              disabled={disabled}
+              aria-label="Remove job description file"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <Textarea
+            value={text}
+            onChange={(e) => onTextChange(e.target.value)}
+            placeholder="Paste the job description here..."
+            className="min-h-[160px]"
+            disabled={disabled}
+          />
+        )}
+
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".pdf,.docx,.doc,.odt,.rtf,.txt,.md,.markdown,.html,.htm"
+          className="hidden"
+          onChange={handleFileInput}
+        />
+        {!file && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => inputRef.current?.click()}
+            disabled={disabled}
+            className="mt-3 text-sm"
+          >
+            <Paperclip className="h-4 w-4 mr-1" /> Attach File Instead
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,101 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from '@/components/ui/table';
+import { CheckCircle, AlertCircle, XCircle } from 'lucide-react';
+import { JobMatch, RequirementStatus } from '@/lib/types';
+
+interface JobMatchSectionProps {
+  jobMatch: JobMatch;
+}
+
+const statusDisplay: Record<RequirementStatus, { label: string; icon: React.ReactNode; className: string }> = {
+  met: {
+    label: 'Met',
+    icon: <CheckCircle className="h-4 w-4 mr-1" />,
+    className: 'text-green-600 dark:text-green-400'
+  },
+  partial: {
+    label: 'Partial',
+    icon: <AlertCircle className="h-4 w-4 mr-1" />,
+    className: 'text-amber-600 dark:text-amber-400'
+  },
+  missing: {
+    label: 'Missing',
+    icon: <XCircle className="h-4 w-4 mr-1" />,
+    className: 'text-red-600 dark:text-red-400'
+  }
+};
+
+export const JobMatchSection: React.FC<JobMatchSectionProps> = ({ jobMatch }) => {
+  const metCount = jobMatch.requirements.filter(r => r.status === 'met').length;
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-800">
+      <h4 className="text-md font-semibold text-gray-800 dark:text-gray-100 mb-1">Job Description Match</h4>
+      {jobMatch.requirements.length > 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-300 mb-4">
+          {metCount} of {jobMatch.requirements.length} requirements fully met
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <h5 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Matched Keywords</h5>
+          <div className="flex flex-wrap gap-2">
+            {jobMatch.matchedKeywords.length > 0 ? jobMatch.matchedKeywords.map(keyword => (
+              <Badge key={keyword} className="bg-green-100 text-green-800 hover:bg-green-100 dark:bg-green-900 dark:text-green-100">
+                {keyword}
+              </Badge>
+            )) : (
+              <span className="text-sm text-gray-500 dark:text-gray-400">None found</span>
+            )}
+          </div>
+        </div>
+        <div>
+          <h5 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Missing Keywords</h5>
+          <div className="flex flex-wrap gap-2">
+            {jobMatch.missingKeywords.length > 0 ? jobMatch.missingKeywords.map(keyword => (
+              <Badge key={keyword} className="bg-red-100 text-red-800 hover:bg-red-100 dark:bg-red-900 dark:text-red-100">
+                {keyword}
+              </Badge>
+            )) : (
+              <span className="text-sm text-gray-500 dark:text-gray-400">None, nice work</span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {jobMatch.requirements.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Requirement</TableHead>
+              <TableHead className="w-28">Status</TableHead>
+              <TableHead>Evidence</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {jobMatch.requirements.map((req, index) => {
+              const display = statusDisplay[req.status];
+              return (
+                <TableRow key={index}>
+                  <TableCell className="text-sm">{req.requirement}</TableCell>
+                  <TableCell>
+                    <span className={`flex items-center text-sm font-medium ${display.className}`}>
+                      {display.icon}{display.label}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600 dark:text-gray-300">
+                    {req.evidence || '—'}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
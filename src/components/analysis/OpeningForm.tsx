@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+export interface OpeningFormValues {
+  title: string;
+  description: string;
+  mustHaveRequirements: string[];
+  niceToHaveRequirements: string[];
+}
+
+interface OpeningFormProps {
+  onSubmit: (values: OpeningFormValues) => void;
+  isSubmitting?: boolean;
+}
+
+// One requirement per line
+const toLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+export const OpeningForm: React.FC<OpeningFormProps> = ({ onSubmit, isSubmitting = false }) => {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [mustHaves, setMustHaves] = useState('');
+  const [niceToHaves, setNiceToHaves] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      title: title.trim(),
+      description: description.trim(),
+      mustHaveRequirements: toLines(mustHaves),
+      niceToHaveRequirements: toLines(niceToHaves),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <Label htmlFor="opening-title">Title</Label>
+        <Input
+          id="opening-title"
+          value={title}
+          onChange={e => setTitle(e.target.value)}
+          placeholder="Senior Backend Engineer"
+          disabled={isSubmitting}
+        />
+      </div>
+      <div>
+        <Label htmlFor="opening-description">Description</Label>
+        <Textarea
+          id="opening-description"
+          value={description}
+          onChange={e => setDescription(e.target.value)}
+          rows={3}
+          disabled={isSubmitting}
+        />
+      </div>
+      <div>
+        <Label htmlFor="opening-must-haves">Must-have requirements (one per line)</Label>
+        <Textarea
+          id="opening-must-haves"
+          value={mustHaves}
+          onChange={e => setMustHaves(e.target.value)}
+          rows={4}
+          placeholder={'5+ years of TypeScript\nKubernetes in production'}
+          disabled={isSubmitting}
+        />
+      </div>
+      <div>
+        <Label htmlFor="opening-nice-to-haves">Nice-to-have requirements (one per line)</Label>
+        <Textarea
+          id="opening-nice-to-haves"
+          value={niceToHaves}
+          onChange={e => setNiceToHaves(e.target.value)}
+          rows={3}
+          disabled={isSubmitting}
+        />
+      </div>
+      <Button
+        type="submit"
+        disabled={isSubmitting || !title.trim()}
+        className="w-full bg-blue-500 hover:bg-blue-600 text-white"
+      >
+        Create Opening
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,134 @@
+import React from 'react';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import { CheckCircle, AlertTriangle, Clock } from 'lucide-react';
+import { CategoryScores, DiffLine, ResumeComparison, ResumeVersion } from '@/lib/types';
+
+interface ResumeComparisonViewProps {
+  comparison: ResumeComparison;
+}
+
+const categoryLabels: Record<keyof CategoryScores, string> = {
+  overallScore: 'Overall',
+  keywordsScore: 'Keywords',
+  experienceScore: 'Experience',
+  skillsScore: 'Skills',
+  educationScore: 'Education',
+  formattingScore: 'Formatting'
+};
+
+const versionLabel = (version: ResumeVersion) =>
+  `${version.version !== null ? `v${version.version}` : `#${version.analysisId}`} · ${version.filename}`;
+
+// One side of the diff: shared lines plus the lines only this version has
+const DiffPane: React.FC<{ title: string; lines: DiffLine[]; changeType: DiffLine['type'] }> = ({
+  title,
+  lines,
+  changeType
+}) => (
+  <div className="h-full flex flex-col">
+    <div className="px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 border-b border-gray-200 dark:border-gray-800 truncate">
+      {title}
+    </div>
+    <div className="flex-1 overflow-auto p-3 font-mono text-xs leading-relaxed">
+      {lines
+        .filter(line => line.type === 'equal' || line.type === changeType)
+        .map((line, index) => (
+          <div
+            key={index}
+            className={
+              line.type === 'removed'
+                ? 'bg-red-50 text-red-800 dark:bg-red-950 dark:text-red-200 px-1'
+                : line.type === 'added'
+                  ? 'bg-green-50 text-green-800 dark:bg-green-950 dark:text-green-200 px-1'
+                  : 'text-gray-700 dark:text-gray-300 px-1'
+            }
+          >
+            <span className="select-none text-gray-400 mr-2">
+              {line.type === 'removed' ? '-' : line.type === 'added' ? '+' : ' '}
+            </span>
+            {line.text}
+          </div>
+        ))}
+    </div>
+  </div>
+);
+
+const SuggestionList: React.FC<{ title: string; items: string[]; icon: React.ReactNode }> = ({ title, items, icon }) => (
+  <div>
+    <h4 className="flex items-center text-sm font-semibold text-gray-800 dark:text-gray-100 mb-2">
+      {icon}
+      <span className="ml-2">{title} ({items.length})</span>
+    </h4>
+    {items.length === 0 ? (
+      <p className="text-xs text-gray-500 dark:text-gray-400">None</p>
+    ) : (
+      <ul className="space-y-1">
+        {items.map(item => (
+          <li key={item} className="text-xs text-gray-600 dark:text-gray-300">{item}</li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export const ResumeComparisonView: React.FC<ResumeComparisonViewProps> = ({ comparison }) => {
+  const { from, to, textDiff, truncated, scoreDeltas, suggestions } = comparison;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-3 sm:grid-cols-6 gap-3">
+        {scoreDeltas.map(delta => (
+          <div key={delta.category} className="rounded-md border border-gray-200 dark:border-gray-800 p-3 text-center">
+            <div className="text-xs text-gray-500 dark:text-gray-400">{categoryLabels[delta.category]}</div>
+            <div className="text-lg font-semibold text-gray-800 dark:text-gray-100 tabular-nums">{delta.to}</div>
+            <div
+              className={`text-xs font-medium tabular-nums ${
+                delta.delta > 0 ? 'text-green-600' : delta.delta < 0 ? 'text-red-600' : 'text-gray-500'
+              }`}
+            >
+              {delta.delta > 0 ? `+${delta.delta}` : delta.delta === 0 ? '±0' : delta.delta}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <SuggestionList
+          title="Resolved"
+          items={suggestions.resolved}
+          icon={<CheckCircle className="h-4 w-4 text-green-500" />}
+        />
+        <SuggestionList
+          title="New"
+          items={suggestions.introduced}
+          icon={<AlertTriangle className="h-4 w-4 text-amber-500" />}
+        />
+        <SuggestionList
+          title="Still Open"
+          items={suggestions.remaining}
+          icon={<Clock className="h-4 w-4 text-gray-400" />}
+        />
+      </div>
+
+      <div>
+        {truncated && (
+          <p className="text-xs text-amber-600 dark:text-amber-400 mb-2">
+            These resumes are very long; only the beginning of each is compared.
+          </p>
+        )}
+        <ResizablePanelGroup
+          direction="horizontal"
+          className="min-h-[28rem] max-h-[40rem] rounded-md border border-gray-200 dark:border-gray-800"
+        >
+          <ResizablePanel defaultSize={50} minSize={20}>
+            <DiffPane title={versionLabel(from)} lines={textDiff} changeType="removed" />
+          </ResizablePanel>
+          <ResizableHandle withHandle />
+          <ResizablePanel defaultSize={50} minSize={20}>
+            <DiffPane title={versionLabel(to)} lines={textDiff} changeType="added" />
+          </ResizablePanel>
+        </ResizablePanelGroup>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React from 'react';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Wand2 } from 'lucide-react';
+import { FeedbackCategory, Finding } from '@/lib/types';
+
+interface ResumeEvidenceProps {
+  text: string;
+  findings: Finding[];
+  // Offered on highlighted experience bullets, with the highlighted text
+  onRewrite?: (bullet: string) => void;
+}
+
+// Overlapping findings share one highlight
+interface Highlight {
+  start: number;
+  end: number;
+  findings: Finding[];
+}
+
+const categoryLabels: Record<FeedbackCategory, string> = {
+  keywords: 'Keywords & Phrases',
+  experience: 'Work Experience',
+  skills: 'Skills Match',
+  education: 'Education',
+  formatting: 'Formatting & Structure'
+};
+
+const categoryClassName: Record<FeedbackCategory, string> = {
+  keywords: 'bg-blue-100 dark:bg-blue-900/60',
+  experience: 'bg-amber-100 dark:bg-amber-900/60',
+  skills: 'bg-purple-100 dark:bg-purple-900/60',
+  education: 'bg-green-100 dark:bg-green-900/60',
+  formatting: 'bg-red-100 dark:bg-red-900/60'
+};
+
+function toHighlights(findings: Finding[], textLength: number): Highlight[] {
+  const located = findings
+    .filter(finding => finding.start !== null && finding.end !== null && finding.end <= textLength)
+    .sort((a, b) => (a.start ?? 0) - (b.start ?? 0));
+
+  const highlights: Highlight[] = [];
+  located.forEach(finding => {
+    const start = finding.start ?? 0;
+    const end = finding.end ?? 0;
+    const last = highlights[highlights.length - 1];
+    if (last && start < last.end) {
+      last.end = Math.max(last.end, end);
+      last.findings.push(finding);
+    } else {
+      highlights.push({ start, end, findings: [finding] });
+    }
+  });
+  return highlights;
+}
+
+export const ResumeEvidence: React.FC<ResumeEvidenceProps> = ({ text, findings, onRewrite }) => {
+  const highlights = toHighlights(findings, text.length);
+  const unlocated = findings.filter(finding => finding.start === null || finding.end === null);
+
+  const segments: React.ReactNode[] = [];
+  let position = 0;
+  highlights.forEach((highlight, index) => {
+    if (highlight.start > position) {
+      segments.push(text.slice(position, highlight.start));
+    }
+    segments.push(
+      <HoverCard key={index} openDelay={100}>
+        <HoverCardTrigger asChild>
+          <mark
+            tabIndex={0}
+            className={`${categoryClassName[highlight.findings[0].category]} text-inherit rounded-sm px-0.5 cursor-help`}
+          >
+            {text.slice(highlight.start, highlight.end)}
+          </mark>
+        </HoverCardTrigger>
+        <HoverCardContent className="w-80 space-y-3">
+          {highlight.findings.map((finding, findingIndex) => (
+            <div key={findingIndex}>
+              <Badge variant="outline" className="mb-1">{categoryLabels[finding.category]}</Badge>
+              <p className="text-sm text-gray-700 dark:text-gray-200">{finding.message}</p>
+            </div>
+          ))}
+          {onRewrite && highlight.findings.some(finding => finding.category === 'experience') && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onRewrite(text.slice(highlight.start, highlight.end))}
+              className="w-full"
+            >
+              <Wand2 className="h-4 w-4 mr-2" />
+              Suggest rewrite
+            </Button>
+          )}
+        </HoverCardContent>
+      </HoverCard>
+    );
+    position = highlight.end;
+  });
+  if (position < text.length) {
+    segments.push(text.slice(position));
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {(Object.keys(categoryLabels) as FeedbackCategory[])
+          .filter(category => findings.some(finding => finding.category === category))
+          .map(category => (
+            <span key={category} className="flex items-center text-xs text-gray-600 dark:text-gray-300">
+              <span className={`inline-block w-3 h-3 rounded-sm mr-1 ${categoryClassName[category]}`} />
+              {categoryLabels[category]}
+            </span>
+          ))}
+      </div>
+      <div className="max-h-[32rem] overflow-auto rounded-md border border-gray-200 dark:border-gray-800 p-4 font-mono text-xs leading-relaxed whitespace-pre-wrap text-gray-700 dark:text-gray-300">
+        {segments}
+      </div>
+      {unlocated.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {unlocated.map((finding, index) => (
+            <li key={index} className="text-xs text-gray-600 dark:text-gray-300">
+              <span className="font-medium">{categoryLabels[finding.category]}:</span> "{finding.quote}" – {finding.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
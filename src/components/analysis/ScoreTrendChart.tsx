@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import {
+  ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent
+} from '@/components/ui/chart';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { ScoreTrendPoint } from '@/lib/types';
+
+interface ScoreTrendChartProps {
+  points: ScoreTrendPoint[];
+}
+
+const overallConfig: ChartConfig = {
+  overallScore: { label: 'Overall', color: '#2563eb' }
+};
+
+const categoryConfig: ChartConfig = {
+  keywordsScore: { label: 'Keywords', color: '#9333ea' },
+  experienceScore: { label: 'Experience', color: '#16a34a' },
+  skillsScore: { label: 'Skills', color: '#f59e0b' },
+  educationScore: { label: 'Education', color: '#0891b2' },
+  formattingScore: { label: 'Formatting', color: '#e11d48' }
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export const ScoreTrendChart: React.FC<ScoreTrendChartProps> = ({ points }) => {
+  const [showCategories, setShowCategories] = useState(false);
+  const config = showCategories ? { ...overallConfig, ...categoryConfig } : overallConfig;
+
+  if (points.length < 2) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-300 py-8 text-center">
+        Analyze at least two versions of your resume to see how your scores change.
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-end gap-2 mb-2">
+        <Switch id="show-categories" checked={showCategories} onCheckedChange={setShowCategories} />
+        <Label htmlFor="show-categories" className="text-sm">Show categories</Label>
+      </div>
+      <ChartContainer config={config} className="h-72 w-full aspect-auto">
+        <LineChart data={points} margin={{ top: 8, right: 16, left: 0, bottom: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="createdAt" tickFormatter={formatDate} tickLine={false} axisLine={false} minTickGap={24} />
+          <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => {
+                  const point = payload?.[0]?.payload as ScoreTrendPoint | undefined;
+                  return point ? `${point.filename} · ${new Date(point.createdAt).toLocaleString()}` : '';
+                }}
+              />
+            }
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          {Object.keys(config).map(key => (
+            <Line
+              key={key}
+              dataKey={key}
+              type="monotone"
+              stroke={`var(--color-${key})`}
+              strokeWidth={key === 'overallScore' ? 3 : 1.5}
+              dot={key === 'overallScore'}
+            />
+          ))}
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+};
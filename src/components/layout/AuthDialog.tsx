@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/hooks/use-auth';
+
+interface AuthDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const AuthDialog: React.FC<AuthDialogProps> = ({ open, onOpenChange }) => {
+  const { loginMutation, registerMutation } = useAuth();
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  const mutation = mode === 'login' ? loginMutation : registerMutation;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutation.mutate({ username: username.trim(), password }, {
+      onSuccess: () => {
+        setPassword('');
+        onOpenChange(false);
+      },
+    });
+  };
+
+  const fields = (
+    <form onSubmit={handleSubmit} className="space-y-4 pt-2">
+      <div>
+        <Label htmlFor="auth-username">Username</Label>
+        <Input
+          id="auth-username"
+          autoComplete="username"
+          value={username}
+          onChange={e => setUsername(e.target.value)}
+          disabled={mutation.isPending}
+        />
+      </div>
+      <div>
+        <Label htmlFor="auth-password">Password</Label>
+        <Input
+          id="auth-password"
+          type="password"
+          autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          disabled={mutation.isPending}
+        />
+        {mode === 'register' && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">At least 8 characters.</p>
+        )}
+      </div>
+      <Button
+        type="submit"
+        disabled={mutation.isPending || !username.trim() || !password}
+        className="w-full bg-blue-500 hover:bg-blue-600 text-white"
+      >
+        {mode === 'login' ? 'Log In' : 'Create Account'}
+      </Button>
+    </form>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{mode === 'login' ? 'Log In' : 'Create an Account'}</DialogTitle>
+          <DialogDescription>
+            Sign in to keep a history of your resume analyses.
+          </DialogDescription>
+        </DialogHeader>
+        <Tabs value={mode} onValueChange={value => setMode(value as 'login' | 'register')}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="login">Log In</TabsTrigger>
+            <TabsTrigger value="register">Register</TabsTrigger>
+          </TabsList>
+          <TabsContent value="login">{fields}</TabsContent>
+          <TabsContent value="register">{fields}</TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
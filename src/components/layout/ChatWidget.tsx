@@ -1,18 +1,29 @@
 import React, { useState, useRef, useEffect } from 'react';
+import { useLocation, useSearch } from 'wouter';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
-import { X, Headset, Send, FileText, User, BarChart, BookOpen, Lightbulb } from 'lucide-react';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from '@/components/ui/select';
+import {
+  X, Bot, Send, FileText, BarChart, Lightbulb, LineChart, History, Plus, Download, Trash2, ArrowLeft
+} from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { streamChatReply } from '@/lib/chat-stream';
+import { ChatAction, ChatConversation, ChatConversationDetail, ChatSettings } from '@/lib/types';
 
 interface Message {
   id: string;
-  isUser: boolean;
-  text: string;
-  options?: Array<{
-    icon?: React.ReactNode;
-    text: string;
-    action: string;
-  }>;
+  role: 'user' | 'assistant';
+  content: string;
+  actions?: ChatAction[];
+  // Set while the reply is still streaming in
+  pending?: boolean;
+  failed?: boolean;
 }
 
 interface ChatWidgetProps {
@@ -20,215 +31,193 @@ interface ChatWidgetProps {
   onClose: () => void;
 }
 
-// Generate responses based on user's message
-const generateBotResponse = (userMessage: string): Message => {
-  // Convert to lowercase for easier matching
-  const input = userMessage.toLowerCase();
-  
-  // Initial response options
-  const welcomeOptions = [
-    { 
-      icon: <FileText className="h-4 w-4" />,
-      text: "Analyze my resume",
-      action: "resume_analysis"
+const actionIcons: Record<ChatAction['type'], React.ReactNode> = {
+  upload_resume: <FileText className="h-4 w-4" />,
+  open_analysis: <BarChart className="h-4 w-4" />,
+  open_dashboard: <LineChart className="h-4 w-4" />,
+  ask: <Lightbulb className="h-4 w-4" />
+};
+
+const welcomeMessage: Message = {
+  id: 'welcome',
+  role: 'assistant',
+  content: 'Hi there! I can answer questions about your resume analysis, ATS compatibility, job search and interviews. How can I help?',
+  actions: [
+    { type: 'upload_resume', label: 'Analyze my resume' },
+    { type: 'ask', label: 'ATS tips', message: 'What are the most important ATS tips?' },
+    { type: 'ask', label: 'Explain my scores', message: 'Can you explain my latest resume scores?' }
+  ]
+};
+
+const retentionLabel = (days: number | null) => (days === null ? 'Until I delete them' : `${days} days`);
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+export const ChatWidget: React.FC<ChatWidgetProps> = ({ isOpen, onClose }) => {
+  const [messages, setMessages] = useState<Message[]>([welcomeMessage]);
+  const [inputValue, setInputValue] = useState('');
+  const [isReplying, setIsReplying] = useState(false);
+  // The stored conversation on screen; null until the first message of a new chat is sent
+  const [conversationId, setConversationId] = useState<number | null>(null);
+  const [view, setView] = useState<'chat' | 'history'>('chat');
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [location, setLocation] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  // The analysis open in the analyzer, if any; otherwise the server uses the user's latest
+  const openAnalysisId = Number(new URLSearchParams(useSearch()).get('analysis')) || undefined;
+
+  const { data: history, isLoading: isLoadingHistory } = useQuery<{ conversations: ChatConversation[] }>({
+    queryKey: ['/api/chat/conversations'],
+    enabled: isOpen && view === 'history',
+  });
+
+  const { data: settings } = useQuery<ChatSettings>({
+    queryKey: ['/api/chat/settings'],
+    enabled: isOpen && view === 'history',
+  });
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const startNewChat = () => {
+    setConversationId(null);
+    setMessages([welcomeMessage]);
+    setView('chat');
+  };
+
+  // After signing out, the conversation on screen belongs to the account
+  useEffect(() => {
+    if (!user) startNewChat();
+  }, [user?.id]);
+
+  const openConversationMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('GET', `/api/chat/conversations/${id}`);
+      return await response.json() as ChatConversationDetail;
     },
-    { 
-      icon: <User className="h-4 w-4" />,
-      text: "Career advice",
-      action: "career_advice"
+    onSuccess: ({ conversation, messages: stored }) => {
+      setConversationId(conversation.id);
+      setMessages(stored.map(message => ({
+        id: String(message.id),
+        role: message.role,
+        content: message.content,
+        actions: message.actions ?? undefined
+      })));
+      setView('chat');
     },
-    { 
-      icon: <BarChart className="h-4 w-4" />,
-      text: "ATS scoring tips",
-      action: "ats_tips"
-    }
-  ];
+    onError: showError("Could Not Open Conversation"),
+  });
 
-  // Check for resume-related queries
-  if (input.includes('resume') || input.includes('cv') || input.includes('upload')) {
-    return {
-      id: (Date.now() + 1).toString(),
-      isUser: false,
-      text: "I'd be happy to help with your resume! Our analyzer can evaluate your resume for ATS compatibility, keywords, format, and content quality. Ready to upload your resume for analysis?",
-      options: [
-        { 
-          icon: <FileText className="h-4 w-4" />,
-          text: "Upload resume",
-          action: "upload_resume"
-        },
-        { 
-          icon: <Lightbulb className="h-4 w-4" />,
-          text: "Resume tips",
-          action: "resume_tips"
-        }
-      ]
-    };
-  }
-  
-  // Check for job search related queries
-  else if (input.includes('job') || input.includes('search') || input.includes('interview') || input.includes('applications')) {
-    return {
-      id: (Date.now() + 1).toString(),
-      isUser: false,
-      text: "Looking for job search advice? I can help with job application strategies, interview tips, or optimizing your application materials for specific roles.",
-      options: [
-        { 
-          icon: <BookOpen className="h-4 w-4" />,
-          text: "Interview advice",
-          action: "interview_tips"
-        },
-        { 
-          icon: <BarChart className="h-4 w-4" />,
-          text: "Application strategies",
-          action: "application_strategies"
-        }
-      ]
-    };
-  }
-  
-  // Check for ATS related queries
-  else if (input.includes('ats') || input.includes('tracking') || input.includes('system') || input.includes('score')) {
-    return {
-      id: (Date.now() + 1).toString(),
-      isUser: false,
-      text: "Applicant Tracking Systems (ATS) are used by employers to screen resumes. To improve your ATS score, focus on relevant keywords, use standard section headers, and ensure your resume is properly formatted. Would you like more specific ATS optimization tips?",
-      options: [
-        { 
-          icon: <BarChart className="h-4 w-4" />,
-          text: "ATS optimization",
-          action: "ats_optimization"
-        },
-        { 
-          icon: <FileText className="h-4 w-4" />,
-          text: "Check my resume",
-          action: "check_resume"
-        }
-      ]
-    };
-  }
+  const deleteConversationMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/chat/conversations/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      if (id === conversationId) startNewChat();
+      queryClient.invalidateQueries({ queryKey: ['/api/chat/conversations'] });
+    },
+    onError: showError("Could Not Delete Conversation"),
+  });
 
-  // Check for how/what/features queries
-  else if (input.includes('how') || input.includes('what') || input.includes('features') || input.includes('do')) {
-    return {
-      id: (Date.now() + 1).toString(),
-      isUser: false,
-      text: "ResumeCraft offers several features to boost your job search: resume ATS analysis, keyword optimization, formatting assistance, industry-specific recommendations, and personalized improvement suggestions. What would you like to explore first?",
-      options: [
-        { 
-          icon: <BarChart className="h-4 w-4" />,
-          text: "ATS Analysis",
-          action: "ats_analysis"
-        },
-        { 
-          icon: <Lightbulb className="h-4 w-4" />,
-          text: "Optimization Tools",
-          action: "optimization_tools"
-        }
-      ]
-    };
-  }
-  
-  // Default response for other queries
-  else {
-    return {
-      id: (Date.now() + 1).toString(),
-      isUser: false,
-      text: "Thanks for reaching out! I can help with resume analysis, career advice, job search strategies, and ATS optimization. What would you like assistance with today?",
-      options: welcomeOptions
-    };
-  }
-};
+  const deleteAllMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', '/api/chat/conversations');
+    },
+    onSuccess: () => {
+      startNewChat();
+      queryClient.invalidateQueries({ queryKey: ['/api/chat/conversations'] });
+      toast({ title: "Chat History Deleted", description: "All of your conversations were deleted." });
+    },
+    onError: showError("Could Not Delete Chat History"),
+  });
 
-export const ChatWidget: React.FC<ChatWidgetProps> = ({ isOpen, onClose }) => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      isUser: false,
-      text: 'Hi there! How can I help you with your resume or job search today?',
-      options: [
-        { 
-          icon: <FileText className="h-4 w-4" />,
-          text: "Resume Analysis",
-          action: "resume_analysis"
-        },
-        { 
-          icon: <BarChart className="h-4 w-4" />,
-          text: "ATS Tips",
-          action: "ats_tips"
+  const retentionMutation = useMutation({
+    mutationFn: async (retentionDays: number | null) => {
+      const response = await apiRequest('PUT', '/api/chat/settings', { retentionDays });
+      return await response.json() as ChatSettings;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['/api/chat/settings'], updated);
+      queryClient.invalidateQueries({ queryKey: ['/api/chat/conversations'] });
+    },
+    onError: showError("Could Not Update Chat Settings"),
+  });
+
+  const updateMessage = (id: string, update: (message: Message) => Message) => {
+    setMessages(prev => prev.map(message => (message.id === id ? update(message) : message)));
+  };
+
+  const sendMessage = async (text: string) => {
+    const content = text.trim();
+    if (!content || isReplying) return;
+
+    const userMessage: Message = { id: Date.now().toString(), role: 'user', content };
+    const replyId = `${userMessage.id}-reply`;
+
+    setMessages(prev => [...prev, userMessage, { id: replyId, role: 'assistant', content: '', pending: true }]);
+    setIsReplying(true);
+    try {
+      // The server keeps the conversation, so only the new message is sent
+      const reply = await streamChatReply(
+        {
+          message: content,
+          conversationId: conversationId ?? undefined,
+          analysisId: location === '/resume-analyzer' ? openAnalysisId : undefined
         },
-        { 
-          icon: <User className="h-4 w-4" />,
-          text: "Career Advice",
-          action: "career_advice"
-        }
-      ]
+        conversation => setConversationId(conversation.id),
+        delta => updateMessage(replyId, message => ({ ...message, content: message.content + delta }))
+      );
+      updateMessage(replyId, message => ({ ...message, content: reply.reply, actions: reply.actions, pending: false }));
+    } catch (error) {
+      updateMessage(replyId, message => ({
+        ...message,
+        content: error instanceof Error ? error.message : 'The assistant could not reply. Please try again.',
+        pending: false,
+        failed: true
+      }));
+    } finally {
+      setIsReplying(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/chat/conversations'] });
     }
-  ]);
-  const [inputValue, setInputValue] = useState('');
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  };
 
-  const handleOptionClick = (action: string) => {
-    let response: Message;
-    
-    switch(action) {
-      case 'resume_analysis':
-        response = {
-          id: Date.now().toString(),
-          isUser: true,
-          text: "I'd like to analyze my resume"
-        };
+  const handleAction = (action: ChatAction) => {
+    switch (action.type) {
+      case 'upload_resume':
+        // The analyzer opens its file browser when it sees the upload parameter
+        setLocation(`/resume-analyzer?upload=${Date.now()}`);
+        break;
+      case 'open_analysis':
+        setLocation(`/resume-analyzer?analysis=${action.analysisId}`);
         break;
-      case 'ats_tips':
-        response = {
-          id: Date.now().toString(),
-          isUser: true,
-          text: "Can you provide ATS optimization tips?"
-        };
+      case 'open_dashboard':
+        setLocation('/dashboard');
         break;
-      case 'career_advice':
-        response = {
-          id: Date.now().toString(),
-          isUser: true,
-          text: "I need career advice"
-        };
+      case 'ask':
+        sendMessage(action.message);
         break;
-      default:
-        response = {
-          id: Date.now().toString(),
-          isUser: true,
-          text: "Tell me more about " + action
-        };
     }
-    
-    setMessages(prev => [...prev, response]);
-    
-    // Generate bot response based on the selected option
-    setTimeout(() => {
-      const botResponse = generateBotResponse(response.text);
-      setMessages(prev => [...prev, botResponse]);
-    }, 1000);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (inputValue.trim() === '') return;
-    
-    // Add user message
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      isUser: true,
-      text: inputValue
-    };
-    
-    setMessages(prev => [...prev, userMessage]);
+    if (isReplying) return;
+    sendMessage(inputValue);
     setInputValue('');
-    
-    // Generate appropriate bot response after a delay
-    setTimeout(() => {
-      const botMessage = generateBotResponse(userMessage.text);
-      setMessages(prev => [...prev, botMessage]);
-    }, 1000);
+  };
+
+  const handleDeleteAll = () => {
+    if (window.confirm('Delete all of your chat conversations? This cannot be undone.')) {
+      deleteAllMutation.mutate();
+    }
   };
 
   // Scroll to bottom when messages change
@@ -238,72 +227,173 @@ export const ChatWidget: React.FC<ChatWidgetProps> = ({ isOpen, onClose }) => {
 
   if (!isOpen) return null;
 
+  const conversations = history?.conversations ?? [];
+
   return (
     <Card className="fixed bottom-24 right-4 sm:right-8 w-full max-w-sm bg-white rounded-lg shadow-xl border border-gray-200 z-50 overflow-hidden">
       <div className="flex justify-between items-center bg-blue-600 text-white p-4">
         <div className="flex items-center">
           <div className="w-10 h-10 rounded-full bg-white flex items-center justify-center mr-3">
-            <Headset className="h-6 w-6 text-blue-600" />
+            <Bot className="h-6 w-6 text-blue-600" />
           </div>
           <div>
-            <h3 className="font-medium">Live Support</h3>
-            <p className="text-xs opacity-80">We typically reply within minutes</p>
+            <h3 className="font-medium">Career Assistant</h3>
+            <p className="text-xs opacity-80">AI answers based on your latest analysis</p>
           </div>
         </div>
-        <Button variant="ghost" size="icon" onClick={onClose} className="text-white hover:text-gray-200">
-          <X className="h-5 w-5" />
-        </Button>
+        <div className="flex items-center">
+          {view === 'chat' && conversationId !== null && (
+            <Button variant="ghost" size="icon" asChild className="text-white hover:text-gray-200" title="Export as Markdown">
+              <a href={`/api/chat/conversations/${conversationId}/export.md`} download>
+                <Download className="h-5 w-5" />
+              </a>
+            </Button>
+          )}
+          <Button variant="ghost" size="icon" onClick={startNewChat} disabled={isReplying} className="text-white hover:text-gray-200" title="New chat">
+            <Plus className="h-5 w-5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setView(view === 'chat' ? 'history' : 'chat')}
+            disabled={isReplying}
+            className="text-white hover:text-gray-200"
+            title={view === 'chat' ? 'Past conversations' : 'Back to chat'}
+          >
+            {view === 'chat' ? <History className="h-5 w-5" /> : <ArrowLeft className="h-5 w-5" />}
+          </Button>
+          <Button variant="ghost" size="icon" onClick={onClose} className="text-white hover:text-gray-200">
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
       </div>
-      
-      <div className="p-4 h-80 overflow-y-auto bg-gray-50">
-        {messages.map(message => (
-          <div key={message.id} className={`mb-4 ${message.isUser ? 'text-right' : ''}`}>
-            <span className={`inline-block py-2 px-3 max-w-[80%] rounded-lg ${
-              message.isUser 
-                ? 'bg-blue-500 text-white' 
-                : 'bg-gray-200 text-gray-800'
-            }`}>
-              {message.text}
-            </span>
-            
-            {/* Display interactive options for bot messages */}
-            {!message.isUser && message.options && (
-              <div className="mt-2 flex flex-wrap gap-2">
-                {message.options.map((option, index) => (
-                  <Button 
-                    key={index}
-                    size="sm"
-                    variant="outline"
-                    className="flex items-center gap-1 text-sm py-1"
-                    onClick={() => handleOptionClick(option.action)}
+
+      {view === 'history' ? (
+        <div className="h-[25.5rem] flex flex-col">
+          <div className="flex-1 overflow-y-auto p-2 bg-gray-50">
+            {isLoadingHistory ? (
+              <p className="p-2 text-sm text-gray-500">Loading conversations...</p>
+            ) : conversations.length === 0 ? (
+              <p className="p-2 text-sm text-gray-500">No past conversations yet.</p>
+            ) : (
+              conversations.map(conversation => (
+                <div key={conversation.id} className="flex items-center gap-1 rounded-md hover:bg-white">
+                  <button
+                    type="button"
+                    onClick={() => openConversationMutation.mutate(conversation.id)}
+                    className={`flex-1 min-w-0 text-left px-3 py-2 text-sm ${
+                      conversation.id === conversationId ? 'text-blue-700 font-medium' : 'text-gray-800'
+                    }`}
+                  >
+                    <span className="block truncate">{conversation.title}</span>
+                    <span className="block text-xs text-gray-500">{formatDate(conversation.updatedAt)}</span>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Delete conversation"
+                    disabled={deleteConversationMutation.isPending}
+                    onClick={() => deleteConversationMutation.mutate(conversation.id)}
                   >
-                    {option.icon}
-                    {option.text}
+                    <Trash2 className="h-4 w-4 text-gray-500" />
                   </Button>
-                ))}
-              </div>
+                </div>
+              ))
             )}
           </div>
-        ))}
-        <div ref={messagesEndRef} />
-      </div>
-      
-      <form onSubmit={handleSubmit} className="p-4 border-t border-gray-200">
-        <div className="flex items-center">
-          <Input 
-            value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
-            placeholder="Type your message..." 
-            className="flex-1 border border-gray-300 rounded-l-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-          />
-          <Button 
-            type="submit" 
-            className="bg-blue-500 hover:bg-blue-600 text-white rounded-l-none"
-          >
-            <Send className="h-4 w-4" />
-          </Button>
+
+          <div className="p-4 border-t border-gray-200 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm text-gray-700">Keep chats for</span>
+              <Select
+                value={settings ? String(settings.retentionDays) : undefined}
+                onValueChange={value => retentionMutation.mutate(value === 'null' ? null : Number(value))}
+                disabled={!settings?.signedIn || retentionMutation.isPending}
+              >
+                <SelectTrigger className="w-44">
+                  <SelectValue placeholder="..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {(settings?.options ?? []).map(days => (
+                    <SelectItem key={String(days)} value={String(days)}>{retentionLabel(days)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {settings && !settings.signedIn && (
+              <p className="text-xs text-gray-500">
+                Chats in this browser are kept for {settings.retentionDays} days. Sign in to keep them longer; they move to your account.
+              </p>
+            )}
+            <Button
+              variant="outline"
+              className="w-full text-red-600"
+              onClick={handleDeleteAll}
+              disabled={deleteAllMutation.isPending || conversations.length === 0}
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete all chat history
+            </Button>
+          </div>
         </div>
-      </form>
+      ) : (
+        <>
+          <div className="p-4 h-80 overflow-y-auto bg-gray-50">
+            {messages.map(message => (
+              <div key={message.id} className={`mb-4 ${message.role === 'user' ? 'text-right' : ''}`}>
+                <span className={`inline-block py-2 px-3 max-w-[80%] rounded-lg whitespace-pre-wrap text-left ${
+                  message.role === 'user'
+                    ? 'bg-blue-500 text-white'
+                    : message.failed
+                      ? 'bg-red-100 text-red-800'
+                      : 'bg-gray-200 text-gray-800'
+                }`}>
+                  {message.content || (message.pending ? 'Thinking...' : '')}
+                </span>
+
+                {/* Follow-up actions under the assistant's reply */}
+                {message.role === 'assistant' && message.actions && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {message.actions.map((action, index) => (
+                      <Button
+                        key={index}
+                        size="sm"
+                        variant="outline"
+                        className="flex items-center gap-1 text-sm py-1"
+                        disabled={action.type === 'ask' && isReplying}
+                        onClick={() => handleAction(action)}
+                      >
+                        {actionIcons[action.type]}
+                        {action.label}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+            <div ref={messagesEndRef} />
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-4 border-t border-gray-200">
+            <div className="flex items-center">
+              <Input
+                value={inputValue}
+                onChange={(e) => setInputValue(e.target.value)}
+                placeholder="Ask about your resume..."
+                maxLength={4000}
+                className="flex-1 border border-gray-300 rounded-l-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <Button
+                type="submit"
+                disabled={isReplying || !inputValue.trim()}
+                className="bg-blue-500 hover:bg-blue-600 text-white rounded-l-none"
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+            </div>
+          </form>
+        </>
+      )}
     </Card>
   );
 };
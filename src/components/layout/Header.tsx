@@ -2,7 +2,9 @@ import React, { useState } from 'react';
 import { Link, useLocation } from 'wouter';
 import { Button } from '@/components/ui/button';
 import { NavItem } from '@/lib/types';
-import { MessageCircle, Moon, Sun } from 'lucide-react';
+import { MessageCircle, Moon, Sun, User } from 'lucide-react';
+import { AuthDialog } from './AuthDialog';
+import { useAuth } from '@/hooks/use-auth';
 
 interface HeaderProps {
   onChatToggle: () => void;
@@ -11,6 +13,8 @@ interface HeaderProps {
 export const Header: React.FC<HeaderProps> = ({ onChatToggle }) => {
   const [location] = useLocation();
   const [darkMode, setDarkMode] = useState(false);
+  const [authOpen, setAuthOpen] = useState(false);
+  const { user, isLoading, logoutMutation } = useAuth();
 
   const toggleDarkMode = () => {
     setDarkMode((prev) => {
@@ -27,6 +31,11 @@ export const Header: React.FC<HeaderProps> = ({ onChatToggle }) => {
   const navItems: NavItem[] = [
     { name: 'Home', href: '/', active: location === '/' },
     { name: 'Resume Tools', href: '/resume-analyzer', active: location === '/resume-analyzer' },
+    { name: 'Batch Screening', href: '/batch-analyzer', active: location === '/batch-analyzer' },
+    { name: 'Openings', href: '/openings', active: location === '/openings' },
+    { name: 'Cover Letters', href: '/cover-letter', active: location === '/cover-letter' },
+    { name: 'Dashboard', href: '/dashboard', active: location === '/dashboard' },
+    { name: 'Versions', href: '/resume-versions', active: location === '/resume-versions' },
     { name: 'Resources', href: '/resources', active: location === '/resources' },
     { name: 'About', href: '/about', active: location === '/about' },
   ];
@@ -66,12 +75,31 @@ export const Header: React.FC<HeaderProps> = ({ onChatToggle }) => {
               <MessageCircle className="h-4 w-4 mr-2" />
               <span className="hidden md:inline">Chat Support</span>
             </Button>
-            <Button 
-              variant="outline"
-              className="border-blue-500 text-blue-500 hover:bg-blue-50 dark:border-blue-400 dark:text-blue-400 dark:hover:bg-gray-800"
-            >
-              Log In
-            </Button>
+            {user ? (
+              <>
+                <span className="hidden md:flex items-center text-sm text-gray-700 dark:text-gray-200">
+                  <User className="h-4 w-4 mr-1" />
+                  {user.username}
+                </span>
+                <Button 
+                  variant="outline"
+                  onClick={() => logoutMutation.mutate()}
+                  disabled={logoutMutation.isPending}
+                  className="border-blue-500 text-blue-500 hover:bg-blue-50 dark:border-blue-400 dark:text-blue-400 dark:hover:bg-gray-800"
+                >
+                  Log Out
+                </Button>
+              </>
+            ) : (
+              <Button 
+                variant="outline"
+                onClick={() => setAuthOpen(true)}
+                disabled={isLoading}
+                className="border-blue-500 text-blue-500 hover:bg-blue-50 dark:border-blue-400 dark:text-blue-400 dark:hover:bg-gray-800"
+              >
+                Log In
+              </Button>
+            )}
             <Button
               variant="outline"
               onClick={toggleDarkMode}
@@ -83,6 +111,7 @@ export const Header: React.FC<HeaderProps> = ({ onChatToggle }) => {
           </div>
         </div>
       </div>
+      <AuthDialog open={authOpen} onOpenChange={setAuthOpen} />
     </header>
   );
 };
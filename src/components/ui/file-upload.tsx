@@ -1,47 +1,78 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { Button } from './button';
 import { Card, CardContent } from './card';
 import { Upload, File, AlertCircle } from 'lucide-react';
 
+const titleCase = (text: string) => text.replace(/\b[a-z]/g, letter => letter.toUpperCase());
+
 interface FileUploadProps {
-  onFileSelected: (file: File) => void;
+  onFileSelected?: (file: File) => void;
+  // With `multiple`, several resumes and ZIP archives of resumes can be selected at once
+  onFilesSelected?: (files: File[]) => void;
+  multiple?: boolean;
   isLoading?: boolean;
   error?: string;
+  // Opens the file browser whenever this changes to a new non-empty value
+  openRequest?: string | null;
+  // What a single upload is called in the prompts, e.g. "cover letter"
+  documentName?: string;
 }
 
 export const FileUpload: React.FC<FileUploadProps> = ({ 
   onFileSelected, 
+  onFilesSelected,
+  multiple = false,
   isLoading = false,
-  error
+  error,
+  openRequest,
+  documentName = 'resume'
 }) => {
   const [fileName, setFileName] = useState<string | null>(null);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
+    if (multiple) {
+      if (acceptedFiles.length > 0) {
+        setFileName(acceptedFiles.length === 1 ? acceptedFiles[0].name : `${acceptedFiles.length} files selected`);
+        onFilesSelected?.(acceptedFiles);
+      }
+      return;
+    }
     const file = acceptedFiles[0];
     if (file) {
       setFileName(file.name);
-      onFileSelected(file);
+      onFileSelected?.(file);
     }
-  }, [onFileSelected]);
+  }, [multiple, onFileSelected, onFilesSelected]);
 
   const { 
     getRootProps, 
     getInputProps, 
     isDragActive,
     isDragAccept,
-    isDragReject
+    isDragReject,
+    open
   } = useDropzone({ 
     onDrop,
     accept: {
       'application/pdf': ['.pdf'],
       'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
       'application/msword': ['.doc'],
+      'application/vnd.oasis.opendocument.text': ['.odt'],
+      'application/rtf': ['.rtf'],
+      'text/plain': ['.txt'],
+      'text/markdown': ['.md', '.markdown'],
+      'text/html': ['.html', '.htm'],
+      ...(multiple ? { 'application/zip': ['.zip'], 'application/x-zip-compressed': ['.zip'] } : {}),
     },
-    maxFiles: 1,
+    maxFiles: multiple ? 50 : 1,
     disabled: isLoading
   });
 
+  useEffect(() => {
+    if (openRequest && !isLoading) open();
+  }, [openRequest, open]);
+
   const getBorderColor = () => {
     if (isDragAccept) return 'border-green-500';
     if (isDragReject) return 'border-red-500';
@@ -73,17 +104,21 @@ export const FileUpload: React.FC<FileUploadProps> = ({
             )}
             
             <h3 className="text-lg font-semibold text-gray-700 mb-2">
-              {fileName ? 'Change Resume File' : 'Upload Your Resume'}
+              {multiple
+                ? (fileName ? 'Change Resume Files' : 'Upload Resumes')
+                : (fileName ? `Change ${titleCase(documentName)} File` : `Upload Your ${titleCase(documentName)}`)}
             </h3>
             
             {!fileName && (
               <p className="text-gray-500 mb-4">
-                Drag and drop your resume file or click to browse
+                {multiple
+                  ? 'Drag and drop resume files or a ZIP archive, or click to browse'
+                  : `Drag and drop your ${documentName} file or click to browse`}
               </p>
             )}
             
             <p className="text-sm text-gray-400 mb-6">
-              Supported formats: PDF, DOCX
+              Supported formats: PDF, DOCX, DOC, ODT, RTF, TXT, Markdown, HTML{multiple ? ', ZIP' : ''}
             </p>
             
             <Button 
@@ -91,7 +126,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({
               disabled={isLoading}
               className="bg-blue-500 hover:bg-blue-600 text-white"
             >
-              {fileName ? 'Select Another File' : 'Browse Files'}
+              {fileName ? (multiple ? 'Select Other Files' : 'Select Another File') : 'Browse Files'}
             </Button>
             
             {error && (
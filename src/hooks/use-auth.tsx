@@ -0,0 +1,88 @@
+import React, { createContext, useContext } from 'react';
+import { useMutation, useQuery, UseMutationResult } from '@tanstack/react-query';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { AuthUser, Credentials } from '@/lib/types';
+
+interface AuthContextValue {
+  user: AuthUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<AuthUser, Error, Credentials>;
+  registerMutation: UseMutationResult<AuthUser, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+// Server messages arrive as "<status>: {"message": ...}"; show just the message
+const errorMessage = (error: Error) => {
+  const json = error.message.replace(/^\d+:\s*/, '');
+  try {
+    return JSON.parse(json).message ?? error.message;
+  } catch {
+    return json;
+  }
+};
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { toast } = useToast();
+  const { data: user = null, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ['/api/auth/me'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  // History and other per-user data belong to whoever is signed in now
+  const onSignedIn = (signedIn: AuthUser) => {
+    queryClient.removeQueries({ predicate: query => query.queryKey[0] !== '/api/auth/me' });
+    queryClient.setQueryData(['/api/auth/me'], signedIn);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const response = await apiRequest('POST', '/api/auth/login', credentials);
+      return await response.json() as AuthUser;
+    },
+    onSuccess: onSignedIn,
+    onError: (error: Error) => {
+      toast({ title: "Login Failed", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const response = await apiRequest('POST', '/api/auth/register', credentials);
+      return await response.json() as AuthUser;
+    },
+    onSuccess: onSignedIn,
+    onError: (error: Error) => {
+      toast({ title: "Registration Failed", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/auth/logout');
+    },
+    onSuccess: () => {
+      queryClient.removeQueries({ predicate: query => query.queryKey[0] !== '/api/auth/me' });
+      queryClient.setQueryData(['/api/auth/me'], null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Logout Failed", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <AuthContext.Provider value={{ user, isLoading, loginMutation, registerMutation, logoutMutation }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,70 @@
+import { ResumeAnalysis, StageEvent, PartialFeedback, AnalysisErrorCode, DocumentType } from './types';
+import { readEventStream, stringField } from './event-stream';
+
+// Failed analysis, with the server's error code when it sent one and, for
+// NOT_A_RESUME, what the document looked like instead
+export class AnalysisRequestError extends Error {
+  constructor(message: string, readonly code?: AnalysisErrorCode, readonly documentType?: DocumentType) {
+    super(message);
+    this.name = 'AnalysisRequestError';
+  }
+}
+
+interface AnalysisStreamHandlers {
+  onStage?: (event: StageEvent) => void;
+  onPartial?: (partial: PartialFeedback) => void;
+}
+
+// Posts the upload to the streaming endpoint and reports Server-Sent Events as they arrive
+export async function streamResumeAnalysis(
+  formData: FormData,
+  handlers: AnalysisStreamHandlers = {}
+): Promise<ResumeAnalysis> {
+  const res = await fetch('/api/resume/analyze/stream', {
+    method: 'POST',
+    body: formData,
+    credentials: 'include',
+  });
+
+  if (!res.ok || !res.body) {
+    const text = (await res.text()) || res.statusText;
+    let message = text;
+    let code: AnalysisErrorCode | undefined;
+    let documentType: DocumentType | undefined;
+    try {
+      const body = JSON.parse(text);
+      message = body.message ?? text;
+      code = body.code;
+      documentType = body.documentType;
+    } catch {
+      // Not JSON, use the raw text
+    }
+    throw new AnalysisRequestError(message, code, documentType);
+  }
+
+  let result: ResumeAnalysis | null = null;
+  await readEventStream(res.body, (event, payload) => {
+    switch (event) {
+      case 'stage':
+        handlers.onStage?.(payload as StageEvent);
+        break;
+      case 'partial':
+        handlers.onPartial?.(payload as PartialFeedback);
+        break;
+      case 'result':
+        result = payload as ResumeAnalysis;
+        break;
+      case 'error':
+        throw new AnalysisRequestError(
+          stringField(payload, 'message') || 'Failed to analyze resume. Please try again.',
+          stringField(payload, 'code') as AnalysisErrorCode | undefined,
+          stringField(payload, 'documentType') as DocumentType | undefined
+        );
+    }
+  });
+
+  if (!result) {
+    throw new Error('The analysis ended without a result. Please try again.');
+  }
+  return result;
+}
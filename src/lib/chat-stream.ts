@@ -0,0 +1,56 @@
+import { ChatConversation, ChatReply } from './types';
+import { readEventStream, stringField } from './event-stream';
+
+export interface ChatRequest {
+  message: string;
+  // Continues a stored conversation; a new one is started without it
+  conversationId?: number;
+  analysisId?: number;
+}
+
+// Sends a message to the assistant and reports the reply as it is written
+export async function streamChatReply(
+  request: ChatRequest,
+  onConversation: (conversation: Pick<ChatConversation, 'id' | 'title'>) => void,
+  onText: (text: string) => void
+): Promise<ChatReply> {
+  const res = await fetch('/api/chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    credentials: 'include',
+  });
+
+  if (!res.ok || !res.body) {
+    const text = (await res.text()) || res.statusText;
+    let message = text;
+    try {
+      message = JSON.parse(text).message ?? text;
+    } catch {
+      // Not JSON, use the raw text
+    }
+    throw new Error(message);
+  }
+
+  let reply: ChatReply | null = null;
+  await readEventStream(res.body, (event, payload) => {
+    switch (event) {
+      case 'conversation':
+        onConversation(payload as Pick<ChatConversation, 'id' | 'title'>);
+        break;
+      case 'delta':
+        onText(stringField(payload, 'text') ?? '');
+        break;
+      case 'done':
+        reply = payload as ChatReply;
+        break;
+      case 'error':
+        throw new Error(stringField(payload, 'message') || 'The assistant could not reply. Please try again.');
+    }
+  });
+
+  if (!reply) {
+    throw new Error('The reply was cut off. Please try again.');
+  }
+  return reply;
+}
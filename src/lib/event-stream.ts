@@ -0,0 +1,38 @@
+// Reads a Server-Sent Events response body and reports each event with its parsed JSON data.
+// EventSource cannot send a POST body, so streaming endpoints are read from fetch directly.
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  const handleBlock = (block: string) => {
+    let event = 'message';
+    const data: string[] = [];
+    block.split('\n').forEach(line => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).trim());
+    });
+    if (data.length === 0) return;
+    onEvent(event, JSON.parse(data.join('\n')));
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const blocks = buffered.split('\n\n');
+    buffered = blocks.pop() ?? '';
+    blocks.forEach(handleBlock);
+  }
+  if (buffered.trim()) handleBlock(buffered);
+}
+
+// A string field of an event's data, or undefined when the data has no such field
+export function stringField(data: unknown, key: string): string | undefined {
+  if (typeof data !== 'object' || data === null) return undefined;
+  const value = (data as Record<string, unknown>)[key];
+  return typeof value === 'string' ? value : undefined;
+}
@@ -16,9 +16,360 @@ export interface ResumeAnalysis {
     formatting: string;
   };
   improvementSuggestions: string[];
+  jobMatch?: JobMatch | null;
+  previousAnalysisId?: number | null;
+  provider?: string | null;
+  model?: string | null;
+  ruleBasedScores?: CategoryScores | null;
+  findings?: Finding[] | null;
+  resumeText?: string | null;
+  layout?: PdfLayout | null;
+  promptInjection?: PromptInjection | null;
+  documentId?: number | null;
+  version?: number | null;
   createdAt: string;
 }
 
+// A specific issue citing the resume text it is about; start/end index into resumeText
+export interface Finding {
+  category: FeedbackCategory;
+  quote: string;
+  message: string;
+  start: number | null;
+  end: number | null;
+}
+
+// How an uploaded PDF's layout reads to an ATS; its warnings are already reflected in the formatting score
+export interface PdfLayout {
+  pageCount: number;
+  charactersPerPage: number[];
+  imageCount: number;
+  fonts: string[];
+  warnings: LayoutWarning[];
+}
+
+export interface LayoutWarning {
+  kind: 'image_only_pages' | 'multi_column' | 'tables' | 'header_footer_contact' | 'unusual_fonts' | 'unreadable_characters' | 'long_document';
+  message: string;
+  suggestion: string;
+  pages: number[];
+  penalty: number;
+}
+
+// Text in the resume that tries to instruct an AI screener; already reflected in the scores
+export interface PromptInjection {
+  matches: InjectionMatch[];
+  penalty: number;
+  scoresCapped: boolean;
+}
+
+export interface InjectionMatch {
+  reason: string;
+  quote: string;
+  start: number;
+  end: number;
+}
+
+// The candidate form an ATS would fill in from the resume text
+export type AtsFieldStatus = 'ok' | 'missing' | 'garbled';
+
+export interface AtsField {
+  label: string;
+  value: string | null;
+  status: AtsFieldStatus;
+  issue: string | null;
+}
+
+export interface AtsFormGroup {
+  title: string;
+  fields: AtsField[];
+}
+
+export interface AtsPreview {
+  groups: AtsFormGroup[];
+  skills: string[];
+  missingCount: number;
+  garbledCount: number;
+}
+
+// Follow-ups the assistant offers under a reply
+export type ChatAction =
+  | { type: 'upload_resume'; label: string }
+  | { type: 'open_analysis'; label: string; analysisId: number }
+  | { type: 'open_dashboard'; label: string }
+  | { type: 'ask'; label: string; message: string };
+
+export interface ChatMessage {
+  id: number;
+  role: 'user' | 'assistant';
+  content: string;
+  actions: ChatAction[] | null;
+  createdAt: string;
+}
+
+export interface ChatConversation {
+  id: number;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  // null when the conversation is kept until deleted
+  expiresAt: string | null;
+}
+
+export interface ChatConversationDetail {
+  conversation: ChatConversation;
+  messages: ChatMessage[];
+}
+
+export interface ChatReply {
+  reply: string;
+  actions: ChatAction[];
+  provider: string;
+  model: string;
+  conversationId: number;
+}
+
+// How long conversations are kept after their last message, in days; null keeps them until deleted
+export interface ChatSettings {
+  retentionDays: number | null;
+  options: (number | null)[];
+  signedIn: boolean;
+}
+
+export interface RewriteSuggestion {
+  text: string;
+  inventedNumbers: string[];
+  hasPlaceholders: boolean;
+}
+
+export interface BulletRewrite {
+  original: string;
+  suggestions: RewriteSuggestion[];
+}
+
+export interface BulletRewriteResult {
+  rewrites: BulletRewrite[];
+  provider: string;
+  model: string;
+}
+
+export interface CoverLetterFeedback {
+  personalization: string;
+  structure: string;
+  length: string;
+  // null when the letter was analyzed without a job description
+  alignment: string | null;
+}
+
+export interface CoverLetterAnalysis {
+  id: number;
+  filename: string;
+  fileType: string;
+  overallScore: number;
+  personalizationScore: number;
+  structureScore: number;
+  lengthScore: number;
+  alignmentScore: number | null;
+  wordCount: number;
+  feedback: CoverLetterFeedback;
+  improvementSuggestions: string[];
+  provider?: string | null;
+  model?: string | null;
+  createdAt: string;
+}
+
+export interface CoverLetterDraft {
+  draft: string;
+  hasPlaceholders: boolean;
+  provider: string;
+  model: string;
+}
+
+export type DocumentType = 'resume' | 'cv' | 'cover_letter' | 'job_description' | 'transcript' | 'other';
+
+// Codes the server sends with upload and analysis errors
+export type AnalysisErrorCode =
+  | "UNSUPPORTED_FILE_TYPE"
+  | "FILE_TYPE_MISMATCH"
+  | "ENCRYPTED_PDF"
+  | "CORRUPT_FILE"
+  | "ARCHIVE_TOO_LARGE"
+  | "NO_FILE"
+  | "FILE_TOO_LARGE"
+  | "EXTRACTION_FAILED"
+  | "JOB_DESCRIPTION_UNREADABLE"
+  | "PROVIDER_NOT_ALLOWED"
+  | "UNKNOWN_PROVIDER"
+  | "STORAGE_UNAVAILABLE"
+  | "NOT_A_RESUME";
+
+// Downloadable report formats for a stored analysis
+export type ReportFormat = "pdf" | "docx" | "md" | "json";
+
+export interface CategoryScores {
+  overallScore: number;
+  keywordsScore: number;
+  experienceScore: number;
+  skillsScore: number;
+  educationScore: number;
+  formattingScore: number;
+}
+
+export interface AnalysisHistoryPage {
+  items: ResumeAnalysis[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface ScoreTrendPoint extends CategoryScores {
+  id: number;
+  filename: string;
+  createdAt: string;
+}
+
+export type RequirementStatus = "met" | "partial" | "missing";
+
+export interface RequirementMatch {
+  requirement: string;
+  status: RequirementStatus;
+  evidence: string;
+}
+
+export interface JobMatch {
+  matchedKeywords: string[];
+  missingKeywords: string[];
+  requirements: RequirementMatch[];
+}
+
+export type AnalysisStage = "upload" | "extract" | "resume_check" | "analysis" | "validation";
+
+export interface StageEvent {
+  stage: AnalysisStage;
+  status: "started" | "completed" | "skipped";
+  detail?: string;
+}
+
+export type FeedbackCategory = keyof ResumeAnalysis["feedback"];
+
+export interface PartialFeedback {
+  category: FeedbackCategory;
+  score: number | null;
+  feedback: string;
+}
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface SkippedFile {
+  filename: string;
+  reason: string;
+}
+
+export interface BatchResultRow {
+  jobId: number;
+  filename: string;
+  status: JobStatus;
+  error: string | null;
+  analysisId: number | null;
+  // What the file looked like when it was rejected as not a resume
+  documentType: DocumentType | null;
+  // The resume contains text addressed to AI screeners
+  injectionFlagged: boolean;
+  overallScore: number | null;
+  keywordsScore: number | null;
+  experienceScore: number | null;
+  skillsScore: number | null;
+  educationScore: number | null;
+  formattingScore: number | null;
+}
+
+export interface BatchStatus {
+  batchId: number;
+  createdAt: string;
+  hasJobDescription: boolean;
+  fileCount: number;
+  completed: number;
+  failed: number;
+  pending: number;
+  done: boolean;
+  skippedFiles: SkippedFile[];
+  results: BatchResultRow[];
+}
+
+export interface Opening {
+  id: number;
+  userId: number | null;
+  title: string;
+  description: string;
+  mustHaveRequirements: string[];
+  niceToHaveRequirements: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RankedCandidate {
+  id: number;
+  rank: number;
+  analysisId: number;
+  filename: string;
+  overallScore: number;
+  fitScore: number;
+  overrideScore: number | null;
+  overrideNote: string | null;
+  effectiveScore: number;
+  requirementMatches: {
+    mustHave: RequirementMatch[];
+    niceToHave: RequirementMatch[];
+  };
+  explanation: string;
+  // The resume contains text addressed to AI screeners
+  injectionFlagged: boolean;
+  createdAt: string;
+}
+
+export interface OpeningDetail extends Opening {
+  candidates: RankedCandidate[];
+}
+
+export interface ResumeVersion extends CategoryScores {
+  analysisId: number;
+  version: number | null;
+  filename: string;
+  createdAt: string;
+}
+
+export interface ResumeDocument {
+  id: number;
+  name: string;
+  createdAt: string;
+  versions: ResumeVersion[];
+}
+
+export interface DiffLine {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+export interface ScoreDelta {
+  category: keyof CategoryScores;
+  from: number;
+  to: number;
+  delta: number;
+}
+
+export interface ResumeComparison {
+  from: ResumeVersion;
+  to: ResumeVersion;
+  textDiff: DiffLine[];
+  truncated: boolean;
+  scoreDeltas: ScoreDelta[];
+  suggestions: {
+    resolved: string[];
+    introduced: string[];
+    remaining: string[];
+  };
+}
+
 export enum ScoreCategory {
   OVERALL = "overall",
   KEYWORDS = "keywords",
@@ -40,6 +391,16 @@ export const getScoreLabel = (score: number): string => {
   return "Excellent";
 };
 
+export interface AuthUser {
+  id: number;
+  username: string;
+}
+
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
 export interface NavItem {
   name: string;
   href: string;
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { FileUpload } from '@/components/ui/file-upload';
+import { JobDescriptionPanel } from '@/components/analysis/JobDescriptionPanel';
+import { BatchResultsTable } from '@/components/analysis/BatchResultsTable';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Download, Files, Loader2 } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { BatchStatus, SkippedFile } from '@/lib/types';
+
+interface BatchSubmitResponse {
+  batchId: number;
+  fileCount: number;
+  skippedFiles: SkippedFile[];
+}
+
+const BatchAnalyzer: React.FC = () => {
+  const [files, setFiles] = useState<File[]>([]);
+  const [jobDescription, setJobDescription] = useState('');
+  const [jobDescriptionFile, setJobDescriptionFile] = useState<File | null>(null);
+  const [batchId, setBatchId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const submitBatchMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      files.forEach(file => formData.append('files', file));
+      if (jobDescriptionFile) {
+        formData.append('jobDescriptionFile', jobDescriptionFile);
+      } else if (jobDescription.trim()) {
+        formData.append('jobDescription', jobDescription.trim());
+      }
+      const response = await apiRequest('POST', '/api/resume/batch', undefined, formData);
+      return await response.json() as BatchSubmitResponse;
+    },
+    onSuccess: (data) => {
+      setBatchId(data.batchId);
+      toast({
+        title: "Batch Queued",
+        description: `${data.fileCount} resume${data.fileCount === 1 ? '' : 's'} queued for analysis.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Batch Upload Failed",
+        description: error instanceof Error ? error.message : "Failed to upload resumes. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Poll until every job in the batch has finished
+  const { data: batch } = useQuery<BatchStatus>({
+    queryKey: [`/api/resume/batch/${batchId}`],
+    enabled: batchId !== null,
+    refetchInterval: (query) => (query.state.data?.done ? false : 2000),
+  });
+
+  const handleSubmit = () => {
+    if (files.length === 0) {
+      toast({
+        title: "No Files Selected",
+        description: "Please upload resume files or a ZIP archive to analyze.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setBatchId(null);
+    submitBatchMutation.mutate();
+  };
+
+  const finished = batch ? batch.completed + batch.failed : 0;
+
+  return (
+    <div className="container mx-auto px-4 py-8 bg-white dark:bg-gray-950 rounded-xl shadow-lg">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-100">Batch Resume Screening</h1>
+        <p className="text-gray-600 dark:text-gray-300 mt-1">
+          Upload many resumes or a ZIP archive and score them all against the same job description
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+        <div className="lg:col-span-4">
+          <FileUpload
+            multiple
+            onFilesSelected={setFiles}
+            isLoading={submitBatchMutation.isPending}
+            error={submitBatchMutation.error instanceof Error ? submitBatchMutation.error.message : undefined}
+          />
+          <JobDescriptionPanel
+            text={jobDescription}
+            file={jobDescriptionFile}
+            onTextChange={setJobDescription}
+            onFileChange={setJobDescriptionFile}
+            disabled={submitBatchMutation.isPending}
+          />
+          <Button
+            onClick={handleSubmit}
+            disabled={submitBatchMutation.isPending || files.length === 0}
+            className="w-full mt-4 bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {submitBatchMutation.isPending
+              ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              : <Files className="h-4 w-4 mr-2" />}
+            Analyze {files.length > 0 ? `${files.length} upload${files.length === 1 ? '' : 's'}` : 'Resumes'}
+          </Button>
+        </div>
+
+        <div className="lg:col-span-8">
+          <Card className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800">
+            <CardContent className="p-6">
+              {!batch ? (
+                <div className="text-center py-12">
+                  <Files className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-gray-700 dark:text-gray-100 mb-2">No Batch Analyzed Yet</h3>
+                  <p className="text-gray-500 dark:text-gray-300">
+                    Results appear here as each resume is analyzed.
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">
+                        Batch #{batch.batchId}
+                      </h3>
+                      <p className="text-sm text-gray-500 dark:text-gray-300">
+                        {finished} of {batch.fileCount} analyzed
+                        {batch.failed > 0 && ` · ${batch.failed} failed`}
+                        {batch.hasJobDescription && ' · scored against the job description'}
+                      </p>
+                    </div>
+                    <Button variant="outline" asChild>
+                      <a href={`/api/resume/batch/${batch.batchId}/export.csv`} download>
+                        <Download className="h-4 w-4 mr-2" />
+                        Export CSV
+                      </a>
+                    </Button>
+                  </div>
+
+                  {!batch.done && (
+                    <div className="w-full bg-gray-200 dark:bg-gray-800 rounded-full h-2 mb-4">
+                      <div
+                        className="bg-blue-500 h-2 rounded-full transition-all duration-500"
+                        style={{ width: `${Math.round((finished / Math.max(batch.fileCount, 1)) * 100)}%` }}
+                      ></div>
+                    </div>
+                  )}
+
+                  <BatchResultsTable results={batch.results} />
+
+                  {batch.skippedFiles.length > 0 && (
+                    <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-800">
+                      <h4 className="text-md font-semibold text-gray-800 dark:text-gray-100 mb-2">Skipped Files</h4>
+                      <ul className="text-sm text-gray-600 dark:text-gray-300 space-y-1">
+                        {batch.skippedFiles.map(file => (
+                          <li key={file.filename}>
+                            <span className="font-medium">{file.filename}</span>: {file.reason}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchAnalyzer;
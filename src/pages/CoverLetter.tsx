@@ -0,0 +1,302 @@
+import React, { useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { FileUpload } from '@/components/ui/file-upload';
+import { ProgressBar } from '@/components/ui/progress-bar';
+import { JobDescriptionPanel } from '@/components/analysis/JobDescriptionPanel';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from '@/components/ui/select';
+import {
+  AlignLeft, Check, CheckCircle, Copy, FileText, Loader2, PenLine, Ruler, Target, UserCheck
+} from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { CoverLetterAnalysis, CoverLetterDraft, ResumeAnalysis } from '@/lib/types';
+
+const CategoryRow: React.FC<{ icon: React.ReactNode; label: string; score: number; feedback: string }> = ({
+  icon,
+  label,
+  score,
+  feedback
+}) => (
+  <div className="mb-4 pb-4 border-b border-gray-100 dark:border-gray-800">
+    <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-2">
+      <div className="flex items-center mb-2 sm:mb-0">
+        {icon}
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{label}</span>
+      </div>
+      <div className="flex items-center">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300 mr-2">{score}</span>
+        <div className="w-32">
+          <ProgressBar score={score} showValue={false} size="sm" />
+        </div>
+      </div>
+    </div>
+    <p className="text-sm text-gray-600 dark:text-gray-300 ml-8">{feedback}</p>
+  </div>
+);
+
+const CoverLetter: React.FC = () => {
+  const [letterFile, setLetterFile] = useState<File | null>(null);
+  const [jobDescription, setJobDescription] = useState('');
+  const [jobDescriptionFile, setJobDescriptionFile] = useState<File | null>(null);
+  const [analysisId, setAnalysisId] = useState('');
+  const [draftJobDescription, setDraftJobDescription] = useState('');
+  const [draft, setDraft] = useState<CoverLetterDraft | null>(null);
+  const [draftText, setDraftText] = useState('');
+  const [copied, setCopied] = useState(false);
+  const { toast } = useToast();
+
+  const { data: recentAnalyses = [] } = useQuery<ResumeAnalysis[]>({
+    queryKey: ['/api/resume/analyses/recent?limit=50'],
+    staleTime: 0,
+  });
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const analyzeMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (jobDescriptionFile) {
+        formData.append('jobDescriptionFile', jobDescriptionFile);
+      } else if (jobDescription.trim()) {
+        formData.append('jobDescription', jobDescription.trim());
+      }
+      const response = await apiRequest('POST', '/api/cover-letter/analyze', undefined, formData);
+      return await response.json() as CoverLetterAnalysis;
+    },
+    onError: showError("Analysis Failed"),
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/cover-letter/generate', {
+        analysisId: parseInt(analysisId, 10),
+        jobDescription: draftJobDescription.trim(),
+      });
+      return await response.json() as CoverLetterDraft;
+    },
+    onSuccess: (data) => {
+      setDraft(data);
+      setDraftText(data.draft);
+    },
+    onError: showError("Could Not Write Letter"),
+  });
+
+  const copyDraft = async () => {
+    try {
+      await navigator.clipboard.writeText(draftText);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast({
+        title: "Copy Failed",
+        description: "Your browser blocked clipboard access. Select the text and copy it instead.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const result = analyzeMutation.data;
+
+  return (
+    <div className="container mx-auto px-4 py-8 bg-white dark:bg-gray-950 rounded-xl shadow-lg">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-100">Cover Letters</h1>
+        <p className="text-gray-600 dark:text-gray-300 mt-1">
+          Score a cover letter against a job description, or draft one from a resume you have analyzed
+        </p>
+      </div>
+
+      <Tabs defaultValue="analyze">
+        <TabsList className="mb-6">
+          <TabsTrigger value="analyze">Analyze a Letter</TabsTrigger>
+          <TabsTrigger value="generate">Write a Letter</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="analyze">
+          <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+            <div className="lg:col-span-4">
+              <FileUpload
+                documentName="cover letter"
+                onFileSelected={setLetterFile}
+                isLoading={analyzeMutation.isPending}
+                error={analyzeMutation.error instanceof Error ? analyzeMutation.error.message : undefined}
+              />
+              <JobDescriptionPanel
+                text={jobDescription}
+                file={jobDescriptionFile}
+                onTextChange={setJobDescription}
+                onFileChange={setJobDescriptionFile}
+                disabled={analyzeMutation.isPending}
+              />
+              <Button
+                onClick={() => letterFile && analyzeMutation.mutate(letterFile)}
+                disabled={analyzeMutation.isPending || !letterFile}
+                className="w-full mt-4 bg-blue-500 hover:bg-blue-600 text-white"
+              >
+                {analyzeMutation.isPending
+                  ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  : <FileText className="h-4 w-4 mr-2" />}
+                Analyze Cover Letter
+              </Button>
+            </div>
+
+            <div className="lg:col-span-8">
+              <Card className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800">
+                <CardContent className="p-6">
+                  {!result ? (
+                    <div className="text-center py-12">
+                      <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                      <h3 className="text-lg font-medium text-gray-700 dark:text-gray-100 mb-2">No Letter Analyzed Yet</h3>
+                      <p className="text-gray-500 dark:text-gray-300">
+                        Add a job description to also see how well the letter addresses the role.
+                      </p>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex flex-col md:flex-row md:items-center mb-6">
+                        <div className="md:w-1/3 mb-4 md:mb-0 text-center p-4">
+                          <div className="text-5xl font-bold mb-2 text-gray-900 dark:text-gray-100">
+                            <span>{result.overallScore}</span>
+                            <span className="text-2xl text-gray-500 dark:text-gray-300">/100</span>
+                          </div>
+                          <div className="text-sm font-medium text-gray-500 dark:text-gray-300">Overall Score</div>
+                          <div className="text-xs text-gray-400 mt-1">{result.wordCount} words</div>
+                        </div>
+                        <div className="md:w-2/3">
+                          <ProgressBar score={result.overallScore} label="Overall Score" />
+                        </div>
+                      </div>
+
+                      <CategoryRow
+                        icon={<UserCheck className="text-blue-500 mr-3 h-5 w-5" />}
+                        label="Personalization"
+                        score={result.personalizationScore}
+                        feedback={result.feedback.personalization}
+                      />
+                      <CategoryRow
+                        icon={<AlignLeft className="text-blue-500 mr-3 h-5 w-5" />}
+                        label="Structure"
+                        score={result.structureScore}
+                        feedback={result.feedback.structure}
+                      />
+                      <CategoryRow
+                        icon={<Ruler className="text-blue-500 mr-3 h-5 w-5" />}
+                        label="Length"
+                        score={result.lengthScore}
+                        feedback={result.feedback.length}
+                      />
+                      {result.alignmentScore !== null && result.feedback.alignment && (
+                        <CategoryRow
+                          icon={<Target className="text-blue-500 mr-3 h-5 w-5" />}
+                          label="Job Description Alignment"
+                          score={result.alignmentScore}
+                          feedback={result.feedback.alignment}
+                        />
+                      )}
+
+                      <h4 className="text-md font-semibold text-gray-800 dark:text-gray-100 mt-6 mb-3">Recommended Actions</h4>
+                      <ul className="ml-5 text-sm text-gray-600 dark:text-gray-300 space-y-2">
+                        {result.improvementSuggestions.map((suggestion, index) => (
+                          <li key={index} className="flex items-start">
+                            <CheckCircle className="text-green-500 mt-1 mr-2 h-4 w-4" />
+                            <span>{suggestion}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="generate">
+          <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+            <div className="lg:col-span-4 space-y-4">
+              <Select value={analysisId} onValueChange={setAnalysisId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose an analyzed resume" />
+                </SelectTrigger>
+                <SelectContent>
+                  {recentAnalyses.map(analysis => (
+                    <SelectItem key={analysis.id} value={analysis.id.toString()}>
+                      {analysis.filename} (#{analysis.id})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Textarea
+                value={draftJobDescription}
+                onChange={e => setDraftJobDescription(e.target.value)}
+                placeholder="Paste the job description the letter is for"
+                rows={10}
+                disabled={generateMutation.isPending}
+              />
+              <Button
+                onClick={() => generateMutation.mutate()}
+                disabled={generateMutation.isPending || !analysisId || !draftJobDescription.trim()}
+                className="w-full bg-blue-500 hover:bg-blue-600 text-white"
+              >
+                {generateMutation.isPending
+                  ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  : <PenLine className="h-4 w-4 mr-2" />}
+                Write Cover Letter
+              </Button>
+            </div>
+
+            <div className="lg:col-span-8">
+              <Card className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800">
+                <CardContent className="p-6">
+                  {!draft ? (
+                    <div className="text-center py-12">
+                      <PenLine className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                      <h3 className="text-lg font-medium text-gray-700 dark:text-gray-100 mb-2">No Letter Written Yet</h3>
+                      <p className="text-gray-500 dark:text-gray-300">
+                        Pick a resume and paste the job description to get a first draft you can edit here.
+                      </p>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                        {draft.hasPlaceholders
+                          ? <Badge variant="outline" className="text-xs">Fill in the [placeholders]</Badge>
+                          : <span />}
+                        <Button variant="outline" size="sm" onClick={copyDraft}>
+                          {copied ? <Check className="h-4 w-4 mr-2 text-green-500" /> : <Copy className="h-4 w-4 mr-2" />}
+                          Copy
+                        </Button>
+                      </div>
+                      <Textarea
+                        value={draftText}
+                        onChange={e => setDraftText(e.target.value)}
+                        rows={20}
+                        className="font-serif"
+                      />
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default CoverLetter;
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { ScoreTrendChart } from '@/components/analysis/ScoreTrendChart';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from '@/components/ui/table';
+import {
+  Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious
+} from '@/components/ui/pagination';
+import { History, LogIn } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { AuthDialog } from '@/components/layout/AuthDialog';
+import { AnalysisHistoryPage, ScoreTrendPoint } from '@/lib/types';
+
+const PAGE_SIZE = 10;
+
+const Dashboard: React.FC = () => {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const [, setLocation] = useLocation();
+  const [page, setPage] = useState(1);
+  const [authOpen, setAuthOpen] = useState(false);
+
+  const { data: history, isLoading } = useQuery<AnalysisHistoryPage>({
+    queryKey: [`/api/resume/analyses?page=${page}&pageSize=${PAGE_SIZE}`],
+    enabled: !!user,
+    staleTime: 0,
+  });
+
+  const { data: trend = [] } = useQuery<ScoreTrendPoint[]>({
+    queryKey: ['/api/resume/analyses/trend'],
+    enabled: !!user,
+    staleTime: 0,
+  });
+
+  if (!user) {
+    return (
+      <div className="container mx-auto px-4 py-16 text-center">
+        <History className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-100 mb-2">Your Analysis History</h1>
+        <p className="text-gray-600 dark:text-gray-300 mb-6">
+          Log in to see every resume you've analyzed and how your scores change over time.
+        </p>
+        <Button
+          onClick={() => setAuthOpen(true)}
+          disabled={isAuthLoading}
+          className="bg-blue-500 hover:bg-blue-600 text-white"
+        >
+          <LogIn className="h-4 w-4 mr-2" />
+          Log In
+        </Button>
+        <AuthDialog open={authOpen} onOpenChange={setAuthOpen} />
+      </div>
+    );
+  }
+
+  const pageCount = history ? Math.max(1, Math.ceil(history.total / PAGE_SIZE)) : 1;
+
+  const goToPage = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    setPage(Math.max(1, Math.min(pageCount, target)));
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 bg-white dark:bg-gray-950 rounded-xl shadow-lg">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-100">Dashboard</h1>
+        <p className="text-gray-600 dark:text-gray-300 mt-1">
+          Every resume you've analyzed, and whether your edits improved the score
+        </p>
+      </div>
+
+      <Card className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 mb-8">
+        <CardContent className="p-6">
+          <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100 mb-2">Score Trend</h3>
+          <ScoreTrendChart points={trend} />
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800">
+        <CardContent className="p-6">
+          <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100 mb-4">
+            Past Analyses{history ? ` (${history.total})` : ''}
+          </h3>
+
+          {isLoading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-300">Loading...</p>
+          ) : !history || history.items.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-gray-500 dark:text-gray-300 mb-4">You haven't analyzed any resumes yet.</p>
+              <Button onClick={() => setLocation('/resume-analyzer')} className="bg-blue-500 hover:bg-blue-600 text-white">
+                Analyze a Resume
+              </Button>
+            </div>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Overall</TableHead>
+                    <TableHead className="text-right">Keywords</TableHead>
+                    <TableHead className="text-right">Experience</TableHead>
+                    <TableHead className="text-right">Skills</TableHead>
+                    <TableHead className="text-right">Education</TableHead>
+                    <TableHead className="text-right">Formatting</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.items.map(analysis => (
+                    <TableRow
+                      key={analysis.id}
+                      onClick={() => setLocation(`/resume-analyzer?analysis=${analysis.id}`)}
+                      className="cursor-pointer"
+                    >
+                      <TableCell className="font-medium max-w-[16rem] truncate" title={analysis.filename}>
+                        {analysis.filename}
+                        {analysis.jobMatch && (
+                          <span className="block text-xs text-gray-500 dark:text-gray-400">Targeted to a job description</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{new Date(analysis.createdAt).toLocaleString()}</TableCell>
+                      <TableCell className="text-right font-semibold tabular-nums">{analysis.overallScore}</TableCell>
+                      <TableCell className="text-right tabular-nums">{analysis.keywordsScore}</TableCell>
+                      <TableCell className="text-right tabular-nums">{analysis.experienceScore}</TableCell>
+                      <TableCell className="text-right tabular-nums">{analysis.skillsScore}</TableCell>
+                      <TableCell className="text-right tabular-nums">{analysis.educationScore}</TableCell>
+                      <TableCell className="text-right tabular-nums">{analysis.formattingScore}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {pageCount > 1 && (
+                <Pagination className="mt-4">
+                  <PaginationContent>
+                    <PaginationItem>
+                      <PaginationPrevious href="#" onClick={goToPage(page - 1)} />
+                    </PaginationItem>
+                    {Array.from({ length: pageCount }, (_, index) => index + 1).map(pageNumber => (
+                      <PaginationItem key={pageNumber}>
+                        <PaginationLink href="#" isActive={pageNumber === page} onClick={goToPage(pageNumber)}>
+                          {pageNumber}
+                        </PaginationLink>
+                      </PaginationItem>
+                    ))}
+                    <PaginationItem>
+                      <PaginationNext href="#" onClick={goToPage(page + 1)} />
+                    </PaginationItem>
+                  </PaginationContent>
+                </Pagination>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Dashboard;
@@ -90,7 +90,7 @@ const Home: React.FC = () => {
               </div>
               <h3 className="text-xl font-semibold mb-2 text-gray-900 dark:text-gray-100">Upload Your Resume</h3>
               <p className="text-gray-600 dark:text-gray-300">
-                Simply upload your resume in PDF or DOCX format. Our secure system will process your document quickly.
+                Simply upload your resume as a PDF, Word, OpenDocument, RTF, text or HTML file. Our secure system will process your document quickly.
               </p>
             </div>
             
@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { OpeningForm, OpeningFormValues } from '@/components/analysis/OpeningForm';
+import { CandidateRankingTable } from '@/components/analysis/CandidateRankingTable';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from '@/components/ui/select';
+import { Briefcase, LogIn, UserPlus } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { AuthDialog } from '@/components/layout/AuthDialog';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Opening, OpeningDetail, ResumeAnalysis } from '@/lib/types';
+
+const Openings: React.FC = () => {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [analysisToAttach, setAnalysisToAttach] = useState('');
+  const [authOpen, setAuthOpen] = useState(false);
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { toast } = useToast();
+
+  const { data: openings = [] } = useQuery<Opening[]>({
+    queryKey: ['/api/openings'],
+    enabled: !!user,
+  });
+
+  const { data: opening } = useQuery<OpeningDetail>({
+    queryKey: [`/api/openings/${selectedId}`],
+    enabled: !!user && selectedId !== null,
+  });
+
+  const { data: recentAnalyses = [] } = useQuery<ResumeAnalysis[]>({
+    queryKey: ['/api/resume/analyses/recent?limit=50'],
+    enabled: !!user,
+    staleTime: 0,
+  });
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  // Every opening endpoint answers with the updated, re-ranked opening
+  const updateOpening = (detail: OpeningDetail) => {
+    queryClient.setQueryData([`/api/openings/${detail.id}`], detail);
+  };
+
+  const createOpeningMutation = useMutation({
+    mutationFn: async (values: OpeningFormValues) => {
+      const response = await apiRequest('POST', '/api/openings', values);
+      return await response.json() as OpeningDetail;
+    },
+    onSuccess: (detail) => {
+      updateOpening(detail);
+      queryClient.invalidateQueries({ queryKey: ['/api/openings'] });
+      setSelectedId(detail.id);
+    },
+    onError: showError("Could Not Create Opening"),
+  });
+
+  const attachMutation = useMutation({
+    mutationFn: async (analysisId: number) => {
+      const response = await apiRequest('POST', `/api/openings/${selectedId}/candidates`, { analysisId });
+      return await response.json() as OpeningDetail;
+    },
+    onSuccess: (detail) => {
+      updateOpening(detail);
+      setAnalysisToAttach('');
+    },
+    onError: showError("Could Not Add Candidate"),
+  });
+
+  const overrideMutation = useMutation({
+    mutationFn: async ({ candidateId, overrideScore, overrideNote }: {
+      candidateId: number; overrideScore: number | null; overrideNote: string | null;
+    }) => {
+      const response = await apiRequest('PATCH', `/api/openings/${selectedId}/candidates/${candidateId}`, {
+        overrideScore,
+        overrideNote,
+      });
+      return await response.json() as OpeningDetail;
+    },
+    onSuccess: updateOpening,
+    onError: showError("Could Not Save Override"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (candidateId: number) => {
+      const response = await apiRequest('DELETE', `/api/openings/${selectedId}/candidates/${candidateId}`);
+      return await response.json() as OpeningDetail;
+    },
+    onSuccess: updateOpening,
+    onError: showError("Could Not Remove Candidate"),
+  });
+
+  if (!user) {
+    return (
+      <div className="container mx-auto px-4 py-16 text-center">
+        <Briefcase className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-100 mb-2">Openings</h1>
+        <p className="text-gray-600 dark:text-gray-300 mb-6">
+          Log in to create openings and rank the resumes you've analyzed against them.
+        </p>
+        <Button
+          onClick={() => setAuthOpen(true)}
+          disabled={isAuthLoading}
+          className="bg-blue-500 hover:bg-blue-600 text-white"
+        >
+          <LogIn className="h-4 w-4 mr-2" />
+          Log In
+        </Button>
+        <AuthDialog open={authOpen} onOpenChange={setAuthOpen} />
+      </div>
+    );
+  }
+
+  const attachedIds = new Set(opening?.candidates.map(candidate => candidate.analysisId) ?? []);
+  const attachable = recentAnalyses.filter(analysis => !attachedIds.has(analysis.id));
+  const isUpdating = attachMutation.isPending || overrideMutation.isPending || removeMutation.isPending;
+
+  return (
+    <div className="container mx-auto px-4 py-8 bg-white dark:bg-gray-950 rounded-xl shadow-lg">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-100">Openings</h1>
+        <p className="text-gray-600 dark:text-gray-300 mt-1">
+          Define a role's requirements and rank analyzed resumes by how well they fit
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+        <div className="lg:col-span-4 space-y-6">
+          <Card className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800">
+            <CardContent className="p-6">
+              <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100 mb-3">Your Openings</h3>
+              {openings.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-300">No openings yet.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {openings.map(item => (
+                    <li key={item.id}>
+                      <button
+                        type="button"
+                        onClick={() => setSelectedId(item.id)}
+                        className={`w-full text-left px-3 py-2 rounded-md text-sm ${
+                          item.id === selectedId
+                            ? 'bg-blue-50 text-blue-700 dark:bg-gray-800 dark:text-blue-300'
+                            : 'text-gray-700 hover:bg-gray-50 dark:text-gray-200 dark:hover:bg-gray-800'
+                        }`}
+                      >
+                        {item.title}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800">
+            <CardContent className="p-6">
+              <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100 mb-3">New Opening</h3>
+              <OpeningForm
+                onSubmit={values => createOpeningMutation.mutate(values)}
+                isSubmitting={createOpeningMutation.isPending}
+              />
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="lg:col-span-8">
+          <Card className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800">
+            <CardContent className="p-6">
+              {!opening ? (
+                <div className="text-center py-12">
+                  <Briefcase className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-gray-700 dark:text-gray-100 mb-2">No Opening Selected</h3>
+                  <p className="text-gray-500 dark:text-gray-300">
+                    Create an opening or pick one to see its ranked candidates.
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100">{opening.title}</h2>
+                  {opening.description && (
+                    <p className="text-sm text-gray-600 dark:text-gray-300 mt-1 whitespace-pre-line">{opening.description}</p>
+                  )}
+
+                  <div className="flex flex-wrap items-center gap-2 mt-6 mb-4">
+                    <Select value={analysisToAttach} onValueChange={setAnalysisToAttach}>
+                      <SelectTrigger className="w-72">
+                        <SelectValue placeholder="Choose an analyzed resume" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {attachable.map(analysis => (
+                          <SelectItem key={analysis.id} value={analysis.id.toString()}>
+                            {analysis.filename} (#{analysis.id}, score {analysis.overallScore})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      onClick={() => attachMutation.mutate(parseInt(analysisToAttach, 10))}
+                      disabled={!analysisToAttach || isUpdating}
+                      className="bg-blue-500 hover:bg-blue-600 text-white"
+                    >
+                      <UserPlus className="h-4 w-4 mr-2" />
+                      Add Candidate
+                    </Button>
+                  </div>
+
+                  <CandidateRankingTable
+                    candidates={opening.candidates}
+                    onOverride={(candidateId, overrideScore, overrideNote) =>
+                      overrideMutation.mutate({ candidateId, overrideScore, overrideNote })}
+                    onRemove={candidateId => removeMutation.mutate(candidateId)}
+                    disabled={isUpdating}
+                  />
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Openings;
@@ -1,28 +1,104 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useToast } from '@/hooks/use-toast';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { useLocation, useSearch } from 'wouter';
 import { FileUpload } from '@/components/ui/file-upload';
 import { ProgressBar } from '@/components/ui/progress-bar';
+import { JobDescriptionPanel } from '@/components/analysis/JobDescriptionPanel';
+import { JobMatchSection } from '@/components/analysis/JobMatchSection';
+import { AnalysisProgress } from '@/components/analysis/AnalysisProgress';
+import { ResumeEvidence } from '@/components/analysis/ResumeEvidence';
+import { BulletRewriteDialog } from '@/components/analysis/BulletRewriteDialog';
+import { AtsPreview } from '@/components/analysis/AtsPreview';
 import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
+import { ToastAction } from '@/components/ui/toast';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
 import { 
   Key, Briefcase, Wrench, GraduationCap, 
-  FileText, CheckCircle, Download, RefreshCw 
+  FileText, CheckCircle, Download, RefreshCw, ShieldAlert
 } from 'lucide-react';
-import { apiRequest } from '@/lib/queryClient';
-import { ResumeAnalysis, ScoreCategory, getScoreColor } from '@/lib/types';
+import { streamResumeAnalysis, AnalysisRequestError } from '@/lib/analysis-stream';
+import { AnalysisErrorCode, ResumeAnalysis, ReportFormat, ScoreCategory, getScoreColor, AnalysisStage, StageEvent, PartialFeedback } from '@/lib/types';
+
+const reportFormats: { format: ReportFormat; label: string }[] = [
+  { format: 'pdf', label: 'PDF report' },
+  { format: 'docx', label: 'Word document (DOCX)' },
+  { format: 'md', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+];
+
+// Errors about the uploaded resume itself; retrying the same file will not help
+const fileErrorTitles: Partial<Record<AnalysisErrorCode, string>> = {
+  UNSUPPORTED_FILE_TYPE: 'Unsupported File Type',
+  FILE_TYPE_MISMATCH: 'File Does Not Match Its Type',
+  ENCRYPTED_PDF: 'Protected PDF',
+  CORRUPT_FILE: 'Unreadable File',
+  ARCHIVE_TOO_LARGE: 'File Too Large',
+  FILE_TOO_LARGE: 'File Too Large',
+  NOT_A_RESUME: 'Not a Resume',
+};
 
 const ResumeAnalyzer: React.FC = () => {
   const [file, setFile] = useState<File | null>(null);
   const [analysis, setAnalysis] = useState<ResumeAnalysis | null>(null);
+  const [jobDescription, setJobDescription] = useState('');
+  const [jobDescriptionFile, setJobDescriptionFile] = useState<File | null>(null);
+  const [stages, setStages] = useState<Partial<Record<AnalysisStage, StageEvent>>>({});
+  const [partials, setPartials] = useState<PartialFeedback[]>([]);
+  const [bulletToRewrite, setBulletToRewrite] = useState<string | null>(null);
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  // Reopen a saved analysis, e.g. from the dashboard: /resume-analyzer?analysis=<id>
+  const searchParams = new URLSearchParams(useSearch());
+  const savedAnalysisId = searchParams.get('analysis');
+  // The chat assistant links to /resume-analyzer?upload=<token> to open the file browser
+  const uploadRequest = searchParams.get('upload');
+  const { data: savedAnalysis, error: savedAnalysisError } = useQuery<ResumeAnalysis>({
+    queryKey: [`/api/resume/analysis/${savedAnalysisId}`],
+    enabled: !!savedAnalysisId,
+  });
+
+  useEffect(() => {
+    if (savedAnalysis) {
+      setFile(null);
+      setAnalysis(savedAnalysis);
+    }
+  }, [savedAnalysis]);
+
+  useEffect(() => {
+    if (savedAnalysisError) {
+      toast({
+        title: "Analysis Not Found",
+        description: "That saved analysis could not be loaded.",
+        variant: "destructive",
+      });
+    }
+  }, [savedAnalysisError, toast]);
 
   const analyzeResumeMutation = useMutation({
     mutationFn: async (fileToUpload: File) => {
       const formData = new FormData();
       formData.append('file', fileToUpload);
-      const response = await apiRequest('POST', '/api/resume/analyze', undefined, formData);
-      return await response.json() as ResumeAnalysis;
+      if (jobDescriptionFile) {
+        formData.append('jobDescriptionFile', jobDescriptionFile);
+      } else if (jobDescription.trim()) {
+        formData.append('jobDescription', jobDescription.trim());
+      }
+      setStages({});
+      setPartials([]);
+      return await streamResumeAnalysis(formData, {
+        onStage: (event) => setStages(prev => ({ ...prev, [event.stage]: event })),
+        onPartial: (partial) => setPartials(prev => [
+          ...prev.filter(p => p.category !== partial.category),
+          partial
+        ]),
+      });
     },
     onSuccess: (data) => {
       setAnalysis(data);
@@ -32,10 +108,25 @@ const ResumeAnalyzer: React.FC = () => {
       });
     },
     onError: (error) => {
+      const code = error instanceof AnalysisRequestError ? error.code : undefined;
+      const fileErrorTitle = code && fileErrorTitles[code];
+      if (fileErrorTitle) {
+        setFile(null);
+      } else if (code === 'JOB_DESCRIPTION_UNREADABLE') {
+        setJobDescriptionFile(null);
+      }
       toast({
-        title: "Analysis Failed",
+        title: fileErrorTitle || (code === 'JOB_DESCRIPTION_UNREADABLE' ? "Job Description Unreadable" : "Analysis Failed"),
         description: error instanceof Error ? error.message : "Failed to analyze resume. Please try again.",
         variant: "destructive",
+        // Cover letters have their own analyzer
+        action: error instanceof AnalysisRequestError && error.documentType === 'cover_letter'
+          ? (
+            <ToastAction altText="Analyze it as a cover letter" onClick={() => setLocation('/cover-letter')}>
+              Cover Letters
+            </ToastAction>
+          )
+          : undefined,
       });
     },
   });
@@ -57,55 +148,34 @@ const ResumeAnalyzer: React.FC = () => {
     }
   };
 
-  const handleExport = () => {
+  const handleExport = async (format: ReportFormat) => {
     if (!analysis) return;
-    
-    // Create a formatted report text
-    const reportText = `
-      # Resume Analysis Report
-      
-      ## Overall Score: ${analysis.overallScore}/100
-      
-      ## Category Scores:
-      - Keywords & Phrases: ${analysis.keywordsScore}/100
-      - Work Experience: ${analysis.experienceScore}/100
-      - Skills Match: ${analysis.skillsScore}/100
-      - Education: ${analysis.educationScore}/100
-      - Formatting & Structure: ${analysis.formattingScore}/100
-      
-      ## Feedback:
-      
-      ### Keywords & Phrases
-      ${analysis.feedback.keywords}
-      
-      ### Work Experience
-      ${analysis.feedback.experience}
-      
-      ### Skills Match
-      ${analysis.feedback.skills}
-      
-      ### Education
-      ${analysis.feedback.education}
-      
-      ### Formatting & Structure
-      ${analysis.feedback.formatting}
-      
-      ## Improvement Suggestions:
-      ${analysis.improvementSuggestions.map(suggestion => `- ${suggestion}`).join('\n')}
-      
-      Report generated on ${new Date().toLocaleString()}
-    `;
-    
-    // Create a blob and download it
-    const blob = new Blob([reportText], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `resume-analysis-report-${new Date().toISOString().split('T')[0]}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+
+    try {
+      // The report is generated on the server from the stored analysis
+      const response = await fetch(`/api/resume/analysis/${analysis.id}/report.${format}`, { credentials: 'include' });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message ?? response.statusText);
+      }
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1]
+        ?? `resume-analysis-report.${format}`;
+
+      const url = URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Could not download the report.",
+        variant: "destructive",
+      });
+    }
   };
 
   return (
@@ -123,6 +193,14 @@ const ResumeAnalyzer: React.FC = () => {
             onFileSelected={handleFileSelected} 
             isLoading={analyzeResumeMutation.isPending}
             error={analyzeResumeMutation.error instanceof Error ? analyzeResumeMutation.error.message : undefined}
+            openRequest={uploadRequest}
+          />
+          <JobDescriptionPanel
+            text={jobDescription}
+            file={jobDescriptionFile}
+            onTextChange={setJobDescription}
+            onFileChange={setJobDescriptionFile}
+            disabled={analyzeResumeMutation.isPending}
           />
         </div>
         
@@ -130,14 +208,7 @@ const ResumeAnalyzer: React.FC = () => {
           {analyzeResumeMutation.isPending && (
             <Card className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800">
               <CardContent className="py-8">
-                <div className="flex flex-col items-center justify-center">
-                  <div className="animate-spin rounded-full h-16 w-16 border-t-4 border-b-4 border-blue-500 mb-4"></div>
-                  <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-100 mb-2">Analyzing Your Resume</h3>
-                  <div className="w-full max-w-md bg-gray-200 dark:bg-gray-800 rounded-full h-2.5 mb-4">
-                    <div className="bg-blue-500 h-2.5 rounded-full animate-pulse" style={{ width: '70%' }}></div>
-                  </div>
-                  <p className="text-gray-500 dark:text-gray-300">We're checking your resume against ATS requirements...</p>
-                </div>
+                <AnalysisProgress stages={stages} partials={partials} />
               </CardContent>
             </Card>
           )}
@@ -148,16 +219,26 @@ const ResumeAnalyzer: React.FC = () => {
                 <div className="mb-6 pb-4 border-b border-gray-200 dark:border-gray-800">
                   <div className="flex justify-between items-center mb-4">
                     <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">
-                      {file?.name} - ATS Score
+                      {file?.name ?? analysis.filename} - ATS Score
                     </h3>
                     <div className="flex space-x-2">
-                      <Button 
-                        onClick={handleExport}
-                        variant="outline" 
-                        className="text-blue-500 border-blue-500 hover:bg-blue-50 dark:hover:bg-gray-800 text-sm"
-                      >
-                        <Download className="h-4 w-4 mr-1" /> Export
-                      </Button>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button 
+                            variant="outline" 
+                            className="text-blue-500 border-blue-500 hover:bg-blue-50 dark:hover:bg-gray-800 text-sm"
+                          >
+                            <Download className="h-4 w-4 mr-1" /> Export
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {reportFormats.map(({ format, label }) => (
+                            <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+                              {label}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
                       <Button 
                         onClick={handleReanalyze}
                         variant="outline" 
@@ -176,6 +257,14 @@ const ResumeAnalyzer: React.FC = () => {
                           <span className="text-2xl text-gray-500 dark:text-gray-300">/100</span>
                         </div>
                         <div className="text-sm font-medium text-gray-500 dark:text-gray-300">Overall ATS Score</div>
+                        {analysis.ruleBasedScores && (
+                          <div
+                            className="text-xs text-gray-400 dark:text-gray-400 mt-1"
+                            title="Score from our rule-based checks on the same text, shown as a sanity check"
+                          >
+                            Rule-based check: {analysis.ruleBasedScores.overallScore}/100
+                          </div>
+                        )}
                       </div>
                     </div>
                     
@@ -198,129 +287,173 @@ const ResumeAnalyzer: React.FC = () => {
                     </div>
                   </div>
                 </div>
+
+                {analysis.promptInjection && (
+                  <Alert variant="destructive" className="mb-6">
+                    <ShieldAlert className="h-4 w-4" />
+                    <AlertTitle>Possible prompt injection</AlertTitle>
+                    <AlertDescription>
+                      This resume contains text addressed to AI screeners, such as "{analysis.promptInjection.matches[0]?.quote}".
+                      It was not followed{analysis.promptInjection.scoresCapped ? ', scores were capped at the rule-based check' : ''} and
+                      the formatting score lost {analysis.promptInjection.penalty} points. Recruiters screening with HireIndex see this flag.
+                    </AlertDescription>
+                  </Alert>
+                )}
                 
-                <div>
-                  <h4 className="text-md font-semibold text-gray-800 dark:text-gray-100 mb-4">Detailed Analysis</h4>
-                  
-                  {/* Category: Keywords & Phrases */}
-                  <div className="mb-4 pb-4 border-b border-gray-100 dark:border-gray-800">
-                    <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-2">
-                      <div className="flex items-center mb-2 sm:mb-0">
-                        <Key className="text-blue-500 mr-3 h-5 w-5" />
-                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Keywords & Phrases</span>
-                      </div>
-                      <div className="flex items-center">
-                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300 mr-2">{analysis.keywordsScore}</span>
-                        <div className="w-32">
-                          <ProgressBar score={analysis.keywordsScore} showValue={false} size="sm" />
+                <Tabs defaultValue="analysis">
+                  <TabsList className="mb-4">
+                    <TabsTrigger value="analysis">Detailed Analysis</TabsTrigger>
+                    {analysis.resumeText && <TabsTrigger value="ats">ATS View</TabsTrigger>}
+                  </TabsList>
+                  <TabsContent value="analysis">
+                    <div>
+                      {/* Category: Keywords & Phrases */}
+                      <div className="mb-4 pb-4 border-b border-gray-100 dark:border-gray-800">
+                        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-2">
+                          <div className="flex items-center mb-2 sm:mb-0">
+                            <Key className="text-blue-500 mr-3 h-5 w-5" />
+                            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Keywords & Phrases</span>
+                          </div>
+                          <div className="flex items-center">
+                            <span className="text-sm font-medium text-gray-700 dark:text-gray-300 mr-2">{analysis.keywordsScore}</span>
+                            <div className="w-32">
+                              <ProgressBar score={analysis.keywordsScore} showValue={false} size="sm" />
+                            </div>
+                          </div>
                         </div>
+                        <p className="text-sm text-gray-600 dark:text-gray-300 ml-8">
+                          {analysis.feedback.keywords}
+                        </p>
                       </div>
-                    </div>
-                    <p className="text-sm text-gray-600 dark:text-gray-300 ml-8">
-                      {analysis.feedback.keywords}
-                    </p>
-                  </div>
                   
-                  {/* Category: Work Experience */}
-                  <div className="mb-4 pb-4 border-b border-gray-100 dark:border-gray-800">
-                    <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-2">
-                      <div className="flex items-center mb-2 sm:mb-0">
-                        <Briefcase className="text-blue-500 mr-3 h-5 w-5" />
-                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Work Experience</span>
-                      </div>
-                      <div className="flex items-center">
-                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300 mr-2">{analysis.experienceScore}</span>
-                        <div className="w-32">
-                          <ProgressBar score={analysis.experienceScore} showValue={false} size="sm" />
+                      {/* Category: Work Experience */}
+                      <div className="mb-4 pb-4 border-b border-gray-100 dark:border-gray-800">
+                        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-2">
+                          <div className="flex items-center mb-2 sm:mb-0">
+                            <Briefcase className="text-blue-500 mr-3 h-5 w-5" />
+                            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Work Experience</span>
+                          </div>
+                          <div className="flex items-center">
+                            <span className="text-sm font-medium text-gray-700 dark:text-gray-300 mr-2">{analysis.experienceScore}</span>
+                            <div className="w-32">
+                              <ProgressBar score={analysis.experienceScore} showValue={false} size="sm" />
+                            </div>
+                          </div>
                         </div>
+                        <p className="text-sm text-gray-600 dark:text-gray-300 ml-8">
+                          {analysis.feedback.experience}
+                        </p>
                       </div>
-                    </div>
-                    <p className="text-sm text-gray-600 dark:text-gray-300 ml-8">
-                      {analysis.feedback.experience}
-                    </p>
-                  </div>
                   
-                  {/* Category: Skills Match */}
-                  <div className="mb-4 pb-4 border-b border-gray-100 dark:border-gray-800">
-                    <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-2">
-                      <div className="flex items-center mb-2 sm:mb-0">
-                        <Wrench className="text-blue-500 mr-3 h-5 w-5" />
-                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Skills Match</span>
-                      </div>
-                      <div className="flex items-center">
-                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300 mr-2">{analysis.skillsScore}</span>
-                        <div className="w-32">
-                          <ProgressBar score={analysis.skillsScore} showValue={false} size="sm" />
+                      {/* Category: Skills Match */}
+                      <div className="mb-4 pb-4 border-b border-gray-100 dark:border-gray-800">
+                        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-2">
+                          <div className="flex items-center mb-2 sm:mb-0">
+                            <Wrench className="text-blue-500 mr-3 h-5 w-5" />
+                            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Skills Match</span>
+                          </div>
+                          <div className="flex items-center">
+                            <span className="text-sm font-medium text-gray-700 dark:text-gray-300 mr-2">{analysis.skillsScore}</span>
+                            <div className="w-32">
+                              <ProgressBar score={analysis.skillsScore} showValue={false} size="sm" />
+                            </div>
+                          </div>
                         </div>
+                        <p className="text-sm text-gray-600 dark:text-gray-300 ml-8">
+                          {analysis.feedback.skills}
+                        </p>
                       </div>
-                    </div>
-                    <p className="text-sm text-gray-600 dark:text-gray-300 ml-8">
-                      {analysis.feedback.skills}
-                    </p>
-                  </div>
                   
-                  {/* Category: Education */}
-                  <div className="mb-4 pb-4 border-b border-gray-100 dark:border-gray-800">
-                    <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-2">
-                      <div className="flex items-center mb-2 sm:mb-0">
-                        <GraduationCap className="text-blue-500 mr-3 h-5 w-5" />
-                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Education</span>
-                      </div>
-                      <div className="flex items-center">
-                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300 mr-2">{analysis.educationScore}</span>
-                        <div className="w-32">
-                          <ProgressBar score={analysis.educationScore} showValue={false} size="sm" />
+                      {/* Category: Education */}
+                      <div className="mb-4 pb-4 border-b border-gray-100 dark:border-gray-800">
+                        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-2">
+                          <div className="flex items-center mb-2 sm:mb-0">
+                            <GraduationCap className="text-blue-500 mr-3 h-5 w-5" />
+                            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Education</span>
+                          </div>
+                          <div className="flex items-center">
+                            <span className="text-sm font-medium text-gray-700 dark:text-gray-300 mr-2">{analysis.educationScore}</span>
+                            <div className="w-32">
+                              <ProgressBar score={analysis.educationScore} showValue={false} size="sm" />
+                            </div>
+                          </div>
                         </div>
+                        <p className="text-sm text-gray-600 dark:text-gray-300 ml-8">
+                          {analysis.feedback.education}
+                        </p>
                       </div>
-                    </div>
-                    <p className="text-sm text-gray-600 dark:text-gray-300 ml-8">
-                      {analysis.feedback.education}
-                    </p>
-                  </div>
                   
-                  {/* Category: Formatting */}
-                  <div className="mb-4">
-                    <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-2">
-                      <div className="flex items-center mb-2 sm:mb-0">
-                        <FileText className="text-blue-500 mr-3 h-5 w-5" />
-                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Formatting & Structure</span>
-                      </div>
-                      <div className="flex items-center">
-                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300 mr-2">{analysis.formattingScore}</span>
-                        <div className="w-32">
-                          <ProgressBar score={analysis.formattingScore} showValue={false} size="sm" />
+                      {/* Category: Formatting */}
+                      <div className="mb-4">
+                        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-2">
+                          <div className="flex items-center mb-2 sm:mb-0">
+                            <FileText className="text-blue-500 mr-3 h-5 w-5" />
+                            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Formatting & Structure</span>
+                          </div>
+                          <div className="flex items-center">
+                            <span className="text-sm font-medium text-gray-700 dark:text-gray-300 mr-2">{analysis.formattingScore}</span>
+                            <div className="w-32">
+                              <ProgressBar score={analysis.formattingScore} showValue={false} size="sm" />
+                            </div>
+                          </div>
                         </div>
+                        <p className="text-sm text-gray-600 dark:text-gray-300 ml-8">
+                          {analysis.feedback.formatting}
+                        </p>
                       </div>
-                    </div>
-                    <p className="text-sm text-gray-600 dark:text-gray-300 ml-8">
-                      {analysis.feedback.formatting}
-                    </p>
-                  </div>
                   
-                  <div className="mt-6 pt-4 border-t border-gray-200">
-                    <h4 className="text-md font-semibold text-gray-800 dark:text-gray-100 mb-3">Recommended Actions</h4>
-                    <ul className="ml-5 text-sm text-gray-600 dark:text-gray-300 space-y-2">
-                      {analysis.improvementSuggestions.map((suggestion, index) => (
-                        <li key={index} className="flex items-start">
-                          <CheckCircle className="text-green-500 mt-1 mr-2 h-4 w-4" />
-                          <span>{suggestion}</span>
-                        </li>
-                      ))}
-                    </ul>
+                      {analysis.jobMatch && <JobMatchSection jobMatch={analysis.jobMatch} />}
+
+                      {analysis.resumeText && analysis.findings && analysis.findings.length > 0 && (
+                        <div className="mt-6 pt-4 border-t border-gray-200">
+                          <h4 className="text-md font-semibold text-gray-800 dark:text-gray-100 mb-1">Where to Look</h4>
+                          <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                            Hover over a highlighted passage to see what to change.
+                          </p>
+                          <ResumeEvidence
+                            text={analysis.resumeText}
+                            findings={analysis.findings}
+                            onRewrite={setBulletToRewrite}
+                          />
+                          <BulletRewriteDialog
+                            bullet={bulletToRewrite}
+                            jobDescription={jobDescription}
+                            onClose={() => setBulletToRewrite(null)}
+                          />
+                        </div>
+                      )}
+                  
+                      <div className="mt-6 pt-4 border-t border-gray-200">
+                        <h4 className="text-md font-semibold text-gray-800 dark:text-gray-100 mb-3">Recommended Actions</h4>
+                        <ul className="ml-5 text-sm text-gray-600 dark:text-gray-300 space-y-2">
+                          {analysis.improvementSuggestions.map((suggestion, index) => (
+                            <li key={index} className="flex items-start">
+                              <CheckCircle className="text-green-500 mt-1 mr-2 h-4 w-4" />
+                              <span>{suggestion}</span>
+                            </li>
+                          ))}
+                        </ul>
                     
-                    <div className="mt-6 flex flex-wrap gap-3">
-                      <Button 
-                        onClick={handleExport}
-                        className="bg-blue-500 hover:bg-blue-600 text-white"
-                      >
-                        Download Detailed Report
-                      </Button>
-                      <Button variant="outline" className="border-blue-500 text-blue-500 hover:bg-blue-50">
-                        Schedule Expert Review
-                      </Button>
+                        <div className="mt-6 flex flex-wrap gap-3">
+                          <Button 
+                            onClick={() => handleExport('pdf')}
+                            className="bg-blue-500 hover:bg-blue-600 text-white"
+                          >
+                            Download Detailed Report
+                          </Button>
+                          <Button variant="outline" className="border-blue-500 text-blue-500 hover:bg-blue-50">
+                            Schedule Expert Review
+                          </Button>
+                        </div>
+                      </div>
                     </div>
-                  </div>
-                </div>
+                  </TabsContent>
+                  {analysis.resumeText && (
+                    <TabsContent value="ats">
+                      <AtsPreview analysisId={analysis.id} />
+                    </TabsContent>
+                  )}
+                </Tabs>
               </CardContent>
             </Card>
           )}
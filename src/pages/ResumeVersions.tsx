@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { ResumeComparisonView } from '@/components/analysis/ResumeComparisonView';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from '@/components/ui/select';
+import { FileText, GitCompare, Plus } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { ResumeAnalysis, ResumeComparison, ResumeDocument } from '@/lib/types';
+
+const ResumeVersions: React.FC = () => {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [newName, setNewName] = useState('');
+  const [analysisToAdd, setAnalysisToAdd] = useState('');
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const { toast } = useToast();
+
+  const { data: documents = [] } = useQuery<ResumeDocument[]>({
+    queryKey: ['/api/resume/documents'],
+  });
+
+  const { data: recentAnalyses = [] } = useQuery<ResumeAnalysis[]>({
+    queryKey: ['/api/resume/analyses/recent?limit=50'],
+    staleTime: 0,
+  });
+
+  const resume = documents.find(item => item.id === selectedId);
+
+  // Compare the two latest versions by default
+  useEffect(() => {
+    const versions = resume?.versions ?? [];
+    setFromId(versions.length >= 2 ? versions[versions.length - 2].analysisId.toString() : '');
+    setToId(versions.length >= 1 ? versions[versions.length - 1].analysisId.toString() : '');
+  }, [resume?.id, resume?.versions.length]);
+
+  const { data: comparison, isFetching: isComparing, error: compareError } = useQuery<ResumeComparison>({
+    queryKey: [`/api/resume/compare?from=${fromId}&to=${toId}`],
+    enabled: !!fromId && !!toId && fromId !== toId,
+  });
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const updateDocument = (detail: ResumeDocument) => {
+    queryClient.setQueryData<ResumeDocument[]>(['/api/resume/documents'], (current = []) => [
+      detail,
+      ...current.filter(item => item.id !== detail.id),
+    ]);
+    queryClient.invalidateQueries({ queryKey: ['/api/resume/analyses/recent?limit=50'] });
+  };
+
+  const createDocumentMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest('POST', '/api/resume/documents', { name });
+      return await response.json() as ResumeDocument;
+    },
+    onSuccess: (detail) => {
+      updateDocument(detail);
+      setSelectedId(detail.id);
+      setNewName('');
+    },
+    onError: showError("Could Not Create Resume"),
+  });
+
+  const addVersionMutation = useMutation({
+    mutationFn: async (analysisId: number) => {
+      const response = await apiRequest('POST', `/api/resume/documents/${selectedId}/versions`, { analysisId });
+      return await response.json() as ResumeDocument;
+    },
+    onSuccess: (detail) => {
+      updateDocument(detail);
+      setAnalysisToAdd('');
+    },
+    onError: showError("Could Not Add Version"),
+  });
+
+  // Only analyses that are not yet a version of any resume can be added
+  const addable = recentAnalyses.filter(analysis => !analysis.documentId);
+
+  return (
+    <div className="container mx-auto px-4 py-8 bg-white dark:bg-gray-950 rounded-xl shadow-lg">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-100">Resume Versions</h1>
+        <p className="text-gray-600 dark:text-gray-300 mt-1">
+          Group uploads of the same resume and see what changed between any two versions
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+        <div className="lg:col-span-3 space-y-6">
+          <Card className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800">
+            <CardContent className="p-6">
+              <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100 mb-3">Your Resumes</h3>
+              {documents.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-300">No resumes yet.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {documents.map(item => (
+                    <li key={item.id}>
+                      <button
+                        type="button"
+                        onClick={() => setSelectedId(item.id)}
+                        className={`w-full text-left px-3 py-2 rounded-md text-sm ${
+                          item.id === selectedId
+                            ? 'bg-blue-50 text-blue-700 dark:bg-gray-800 dark:text-blue-300'
+                            : 'text-gray-700 hover:bg-gray-50 dark:text-gray-200 dark:hover:bg-gray-800'
+                        }`}
+                      >
+                        {item.name}
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">
+                          {item.versions.length} version{item.versions.length === 1 ? '' : 's'}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <form
+                className="flex gap-2 mt-4"
+                onSubmit={e => {
+                  e.preventDefault();
+                  if (newName.trim()) createDocumentMutation.mutate(newName.trim());
+                }}
+              >
+                <Input
+                  value={newName}
+                  onChange={e => setNewName(e.target.value)}
+                  placeholder="e.g. Backend CV"
+                  aria-label="Resume name"
+                />
+                <Button
+                  type="submit"
+                  size="icon"
+                  disabled={!newName.trim() || createDocumentMutation.isPending}
+                  aria-label="Create resume"
+                  className="bg-blue-500 hover:bg-blue-600 text-white shrink-0"
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="lg:col-span-9">
+          <Card className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800">
+            <CardContent className="p-6">
+              {!resume ? (
+                <div className="text-center py-12">
+                  <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-gray-700 dark:text-gray-100 mb-2">No Resume Selected</h3>
+                  <p className="text-gray-500 dark:text-gray-300">
+                    Create a resume or pick one, then add your analyzed uploads as its versions.
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100">{resume.name}</h2>
+
+                  <div className="flex flex-wrap items-center gap-2 mt-4">
+                    <Select value={analysisToAdd} onValueChange={setAnalysisToAdd}>
+                      <SelectTrigger className="w-72">
+                        <SelectValue placeholder="Choose an analyzed upload" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {addable.map(analysis => (
+                          <SelectItem key={analysis.id} value={analysis.id.toString()}>
+                            {analysis.filename} (#{analysis.id}, score {analysis.overallScore})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      onClick={() => addVersionMutation.mutate(parseInt(analysisToAdd, 10))}
+                      disabled={!analysisToAdd || addVersionMutation.isPending}
+                      className="bg-blue-500 hover:bg-blue-600 text-white"
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add as Next Version
+                    </Button>
+                  </div>
+
+                  {resume.versions.length < 2 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-300 py-6 text-center">
+                      Add at least two versions to compare them.
+                    </p>
+                  ) : (
+                    <>
+                      <div className="flex flex-wrap items-center gap-2 mt-6 mb-6">
+                        <GitCompare className="h-4 w-4 text-gray-500" />
+                        <Select value={fromId} onValueChange={setFromId}>
+                          <SelectTrigger className="w-56">
+                            <SelectValue placeholder="Older version" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {resume.versions.map(version => (
+                              <SelectItem key={version.analysisId} value={version.analysisId.toString()}>
+                                v{version.version} · {version.filename}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <span className="text-sm text-gray-500">to</span>
+                        <Select value={toId} onValueChange={setToId}>
+                          <SelectTrigger className="w-56">
+                            <SelectValue placeholder="Newer version" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {resume.versions.map(version => (
+                              <SelectItem key={version.analysisId} value={version.analysisId.toString()}>
+                                v{version.version} · {version.filename}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      {fromId === toId ? (
+                        <p className="text-sm text-gray-500 dark:text-gray-300">Pick two different versions.</p>
+                      ) : compareError ? (
+                        <p className="text-sm text-red-600 dark:text-red-400">{compareError.message}</p>
+                      ) : comparison ? (
+                        <ResumeComparisonView comparison={comparison} />
+                      ) : isComparing ? (
+                        <p className="text-sm text-gray-500 dark:text-gray-300">Comparing...</p>
+                      ) : null}
+                    </>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeVersions;